@@ -0,0 +1,171 @@
+/**
+ * Live BS.1770 loudness on the audio thread. Filter coefficients, channel weights and true-peak
+ * interpolation phases come from LoudnessMeter on the main thread via processorOptions, so live
+ * readings match the offline measurement. Posts one reading per 100 ms sub-block
+ */
+class LoudnessMeterProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const config = options.processorOptions;
+    this.shelf = config.shelf;
+    this.highPass = config.highPass;
+    this.channelWeights = config.channelWeights;
+    this.phases = config.phases.map((phase) => Float32Array.from(phase));
+    this.taps = config.taps;
+    this.momentaryBlocks = config.momentarySubBlocks;
+    this.shortTermBlocks = config.shortTermSubBlocks;
+    this.absoluteGate = config.absoluteGate;
+    this.relativeGate = config.relativeGate;
+    this.subBlockSize = Math.max(1, Math.round(sampleRate * config.subBlockSeconds));
+
+    this.disposed = false;
+    this.reset();
+    this.port.onmessage = (event) => {
+      if (!event.data) return;
+      if (event.data.type === 'reset') this.reset();
+      if (event.data.type === 'dispose') this.disposed = true;
+    };
+  }
+
+  reset() {
+    this.channelCount = 0;
+    this.filterState = [];
+    this.history = [];
+    this.historyIndex = [];
+    this.blockPower = 0;
+    this.blockSamples = 0;
+    this.samplePeak = [];
+    this.truePeak = [];
+    // Weighted programme power of the most recent sub-blocks, newest last
+    this.subBlocks = [];
+    // Power of every 400 ms block so far, for the gated integrated loudness
+    this.gatingBlocks = [];
+  }
+
+  // Channel count can change between quanta, e.g. when a mono file follows a stereo one
+  resize(channelCount) {
+    this.channelCount = channelCount;
+    this.filterState = Array.from({ length: channelCount }, () => new Float64Array(4));
+    this.history = Array.from({ length: channelCount }, () => new Float32Array(this.taps));
+    this.historyIndex = new Array(channelCount).fill(0);
+    this.samplePeak = new Array(channelCount).fill(0);
+    this.truePeak = new Array(channelCount).fill(0);
+  }
+
+  process(inputs) {
+    // Returning false lets the browser collect the node once the main thread has dropped it
+    if (this.disposed) return false;
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    if (input.length !== this.channelCount) this.resize(input.length);
+
+    const weights = this.channelWeights[Math.min(input.length, this.channelWeights.length - 1)];
+    const { shelf, highPass, phases, taps } = this;
+
+    for (let channel = 0; channel < input.length; channel++) {
+      const data = input[channel];
+      const state = this.filterState[channel];
+      const history = this.history[channel];
+      let [s1, s2, h1, h2] = state;
+      let index = this.historyIndex[channel];
+      let power = 0;
+      let samplePeak = this.samplePeak[channel];
+      let truePeak = this.truePeak[channel];
+
+      for (let i = 0; i < data.length; i++) {
+        // K-weighting, transposed direct form II like the offline meter
+        const x = data[i];
+        const y1 = shelf.b0 * x + s1;
+        s1 = shelf.b1 * x - shelf.a1 * y1 + s2;
+        s2 = shelf.b2 * x - shelf.a2 * y1;
+        const y2 = highPass.b0 * y1 + h1;
+        h1 = highPass.b1 * y1 - highPass.a1 * y2 + h2;
+        h2 = highPass.b2 * y1 - highPass.a2 * y2;
+        power += y2 * y2;
+
+        const magnitude = Math.abs(x);
+        if (magnitude > samplePeak) samplePeak = magnitude;
+
+        // Polyphase interpolation over the last few input samples
+        history[index] = x;
+        for (let p = 0; p < phases.length; p++) {
+          const phase = phases[p];
+          let sum = 0;
+          for (let k = 0; k < taps; k++) {
+            sum += history[(index - k + taps) % taps] * phase[k];
+          }
+          const value = Math.abs(sum);
+          if (value > truePeak) truePeak = value;
+        }
+        index = (index + 1) % taps;
+      }
+
+      // Never below the sample peak, which also covers rates too high to oversample
+      if (samplePeak > truePeak) truePeak = samplePeak;
+      state[0] = s1;
+      state[1] = s2;
+      state[2] = h1;
+      state[3] = h2;
+      this.historyIndex[channel] = index;
+      this.samplePeak[channel] = samplePeak;
+      this.truePeak[channel] = truePeak;
+      this.blockPower += (weights[channel] ?? 1) * power;
+    }
+
+    // Sub-blocks close on render quantum boundaries, which is within 3 ms of 100 ms at any common rate
+    this.blockSamples += input[0].length;
+    if (this.blockSamples >= this.subBlockSize) this.emit();
+    return true;
+  }
+
+  emit() {
+    this.subBlocks.push(this.blockPower / this.blockSamples);
+    if (this.subBlocks.length > this.shortTermBlocks) this.subBlocks.shift();
+    this.blockPower = 0;
+    this.blockSamples = 0;
+
+    const momentaryPower = this.mean(this.subBlocks.slice(-this.momentaryBlocks));
+    if (this.subBlocks.length >= this.momentaryBlocks) this.gatingBlocks.push(momentaryPower);
+
+    this.port.postMessage({
+      momentary: this.toLufs(momentaryPower),
+      shortTerm: this.toLufs(this.mean(this.subBlocks)),
+      integrated: this.integrated(),
+      samplePeak: this.samplePeak.map((peak) => this.toDecibels(peak)),
+      truePeak: this.truePeak.map((peak) => this.toDecibels(peak)),
+    });
+    this.samplePeak.fill(0);
+    this.truePeak.fill(0);
+  }
+
+  integrated() {
+    const absolute = this.fromLufs(this.absoluteGate);
+    const aboveAbsolute = this.gatingBlocks.filter((power) => power > absolute);
+    if (aboveAbsolute.length === 0) return -Infinity;
+
+    const relative = this.fromLufs(this.toLufs(this.mean(aboveAbsolute)) + this.relativeGate);
+    const gated = aboveAbsolute.filter((power) => power > relative);
+    return gated.length > 0 ? this.toLufs(this.mean(gated)) : -Infinity;
+  }
+
+  mean(values) {
+    if (values.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[i];
+    return sum / values.length;
+  }
+
+  toLufs(power) {
+    return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+  }
+
+  fromLufs(lufs) {
+    return Math.pow(10, (lufs + 0.691) / 10);
+  }
+
+  toDecibels(amplitude) {
+    return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+  }
+}
+
+registerProcessor('loudness-meter', LoudnessMeterProcessor);
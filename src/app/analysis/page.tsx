@@ -2,16 +2,32 @@
 
 import React, { useState, useCallback, useRef, useEffect } from "react";
 import { AudioUploader } from "@/components/AudioUploader";
-import { WaveformVisualizer } from "@/components/WaveformVisualizer";
+import { WaveformAmplitudeScale, WaveformLaneMode, WaveformVisualizer } from "@/components/WaveformVisualizer";
 import AudioPlayer from "@/components/AudioPlayer";
 import Spectrogram from "@/components/Spectrogram";
 import Spectrogram3D from "@/components/Spectrogram3D";
+import Goniometer, { GoniometerMode } from "@/components/Goniometer";
+import LiveLoudnessMeter from "@/components/LiveLoudnessMeter";
+import FeatureTrackChart from "@/components/FeatureTrackChart";
+import Chromagram from "@/components/Chromagram";
+import TonnetzPlot from "@/components/TonnetzPlot";
+import TechnicalAnalysis from "@/components/TechnicalAnalysis";
+import KeyTempoDisplay from "@/components/KeyTempoDisplay";
+import ExportPanel from "@/components/ExportPanel";
+import MetadataDisplay from "@/components/MetadataDisplay";
+import SessionLibraryPanel from "@/components/SessionLibraryPanel";
+import LibraryBrowser from "@/components/LibraryBrowser";
 import StaggeredMenu from "@/components/StaggeredMenu";
 import { getMenuItemsForPage, SOCIAL_ITEMS } from "@/constants/navigation";
 import { AudioContextManager } from "@/lib/audio/audioUtils";
 import { AudioEffectProcessor } from "@/lib/audio/audioEffects";
-import { MLAudioAnalyzer } from "@/lib/audio/mlAudioAnalysis";
-import { AudioFile, MLAudioFeatures } from "@/types/audio";
+import { AnalysisTask, AnalysisWorkerService, isAbortError } from "@/lib/audio/analysisWorkerService";
+import { AudioLibraryStore } from "@/lib/audio/libraryStore";
+import { AudioFile, LoudnessMeasurement, MLAudioFeatures, TimeRange, TimeView } from "@/types/audio";
+import { WindowType } from "@/lib/audio/fft";
+import { DEFAULT_SPECTROGRAM_OPTIONS, SpectrogramColormap } from "@/lib/audio/spectrogram";
+import { FrequencyScale } from "@/lib/audio/frequencyScale";
+import { useWaveformRegions } from "@/hooks/useAudio";
 
 // CSS imports
 import "@/styles/AudioUploader.css";
@@ -23,11 +39,29 @@ import "./analysis.css";
 
 export default function AnalysisPage() {
   const [audioFile, setAudioFile] = useState<AudioFile | null>(null);
+  const regions = useWaveformRegions(audioFile);
+  const [laneMode, setLaneMode] = useState<WaveformLaneMode>("channels");
+  const [amplitudeScale, setAmplitudeScale] = useState<WaveformAmplitudeScale>("linear");
+  const [showRms, setShowRms] = useState(true);
+  // The lanes waveform and file spectrogram share one zoomed range, kept per file
+  const [timelineView, setTimelineView] = useState<{ file: AudioFile; view: TimeView } | null>(null);
+  const [fftSize, setFftSize] = useState(DEFAULT_SPECTROGRAM_OPTIONS.fftSize);
+  const [overlap, setOverlap] = useState(DEFAULT_SPECTROGRAM_OPTIONS.overlap);
+  const [windowType, setWindowType] = useState<WindowType>(DEFAULT_SPECTROGRAM_OPTIONS.window);
+  const [colormap, setColormap] = useState<SpectrogramColormap>("magma");
+  const [frequencyScale, setFrequencyScale] = useState<FrequencyScale>("log");
+  const [spectrogramFloor, setSpectrogramFloor] = useState(-100);
+  const [spectrogramCeiling, setSpectrogramCeiling] = useState(0);
+  const [terrainWindow, setTerrainWindow] = useState<"file" | "view" | "selection">("file");
+  const [stereoSource, setStereoSource] = useState<"playback" | "file" | "selection">("playback");
+  const [goniometerMode, setGoniometerMode] = useState<GoniometerMode>("lissajous");
   const [analysisResults, setAnalysisResults] = useState<MLAudioFeatures | null>(null);
+  const [loudness, setLoudness] = useState<LoudnessMeasurement | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackRate] = useState(1);
   const [analyserVersion, setAnalyserVersion] = useState(0);
+  const [analysisProgress, setAnalysisProgress] = useState<{ progress: number; stage: string } | null>(null);
 
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
@@ -37,17 +71,80 @@ export default function AnalysisPage() {
   const startTimeRef = useRef<number>(0);
   const pauseTimeRef = useRef<number>(0);
   const animationFrameRef = useRef<number | null>(null);
+  const analysisTasksRef = useRef<AnalysisTask<unknown>[]>([]);
+  const analysisRunRef = useRef(0);
+
+  const cancelAnalysis = useCallback(() => {
+    analysisRunRef.current++;
+    analysisTasksRef.current.forEach(task => task.cancel());
+    analysisTasksRef.current = [];
+    setAnalysisProgress(null);
+  }, []);
 
   const handleFileUpload = useCallback(async (file: AudioFile) => {
+    cancelAnalysis();
     setAudioFile(file);
+    setAnalysisResults(null);
+    setLoudness(null);
+
+    // Files opened through the library may already have results for this exact content
+    const run = analysisRunRef.current;
+    if (file.contentHash) {
+      setAnalysisProgress({ progress: 0, stage: "Checking library cache" });
+      const cached = await AudioLibraryStore.getAnalysis(file.contentHash, file.audioBuffer.sampleRate);
+      if (analysisRunRef.current !== run) return;
+      if (cached) {
+        setAnalysisResults(cached.features);
+        setLoudness(cached.loudness);
+        setAnalysisProgress(null);
+        return;
+      }
+    }
+    setAnalysisProgress({ progress: 0, stage: "Starting analysis" });
+
+    // Features and loudness run in parallel workers; loudness is cheap, so progress tracks features
+    const featureTask = AnalysisWorkerService.extractFeatures(file, {
+      onProgress: (progress, stage) => setAnalysisProgress({ progress, stage }),
+    });
+    const loudnessTask = AnalysisWorkerService.measureLoudness(file.audioBuffer);
+    const tasks = [featureTask, loudnessTask];
+    analysisTasksRef.current = tasks;
+
     try {
-      const features = MLAudioAnalyzer.extractFeatures(file);
+      const [features, measurement] = await Promise.all([featureTask.promise, loudnessTask.promise]);
       setAnalysisResults(features);
+      setLoudness(measurement);
+      if (file.contentHash) {
+        AudioLibraryStore.saveAnalysis(file.contentHash, file.audioBuffer.sampleRate, features, measurement).catch(error =>
+          console.warn("Could not cache analysis:", error)
+        );
+      }
     } catch (e) {
-      console.error("Error analyzing audio:", e);
-      setAnalysisResults(null);
+      tasks.forEach(task => task.cancel());
+      if (!isAbortError(e)) {
+        console.error("Error analyzing audio:", e);
+      }
+    } finally {
+      if (analysisTasksRef.current === tasks) {
+        analysisTasksRef.current = [];
+        setAnalysisProgress(null);
+      }
     }
-  }, []);
+  }, [cancelAnalysis]);
+
+  // Stop any running analysis when leaving the page
+  useEffect(() => cancelAnalysis, [cancelAnalysis]);
+
+  const sharedView = timelineView && timelineView.file === audioFile ? timelineView.view : undefined;
+  const terrainRange: TimeRange | null =
+    terrainWindow === "selection"
+      ? regions.selection
+      : terrainWindow === "view" && sharedView
+        ? { start: sharedView.start, end: sharedView.start + sharedView.duration }
+        : null;
+  const updateTimelineView = useCallback((view: TimeView) => {
+    if (audioFile) setTimelineView({ file: audioFile, view });
+  }, [audioFile]);
 
   const handleFileError = useCallback((error: string) => {
     console.error("File upload error:", error);
@@ -410,7 +507,9 @@ export default function AnalysisPage() {
       <div className="analysis-container mt-5">
         {!audioFile && (
           <div className="uploader-container">
-            <AudioUploader onFileLoad={handleFileUpload} onError={handleFileError} />
+            <AudioUploader onFileLoad={handleFileUpload} onError={handleFileError} multiple />
+            <SessionLibraryPanel onSelect={handleFileUpload} onError={handleFileError} />
+            <LibraryBrowser onSelect={handleFileUpload} onError={handleFileError} />
           </div>
         )}
 
@@ -429,16 +528,173 @@ export default function AnalysisPage() {
                 autoPlay={false}
                 loop={false}
                 volume={1}
+                {...regions}
               />
             </div>
             
             {/* Main Analysis Content with Visualizations and Stats */}
             <div className="visualizer-container">
+              <div className="analysis-panel">
+                <div className="analysis-panel-header">
+                  <span className="analysis-panel-title">Waveform</span>
+                  <label>
+                    Lanes
+                    <select value={laneMode} onChange={(e) => setLaneMode(e.target.value as WaveformLaneMode)}>
+                      <option value="single">Single</option>
+                      <option value="channels">Per channel</option>
+                      <option value="midSide" disabled={audioFile.channels < 2}>Mid / side</option>
+                    </select>
+                  </label>
+                  <label>
+                    Scale
+                    <select value={amplitudeScale} onChange={(e) => setAmplitudeScale(e.target.value as WaveformAmplitudeScale)}>
+                      <option value="linear">Linear</option>
+                      <option value="db">dB</option>
+                    </select>
+                  </label>
+                  <label>
+                    <input type="checkbox" checked={showRms} onChange={(e) => setShowRms(e.target.checked)} />
+                    RMS
+                  </label>
+                </div>
+                <WaveformVisualizer
+                  audioFile={audioFile}
+                  width={undefined}
+                  height={200}
+                  color="#B19EEF"
+                  className="analysis-waveform"
+                  currentTime={currentTime}
+                  interactive={false}
+                  laneMode={laneMode}
+                  amplitudeScale={amplitudeScale}
+                  showRms={showRms}
+                  view={sharedView}
+                  onViewChange={updateTimelineView}
+                  {...regions}
+                />
+              </div>
+
+              <div className="analysis-panel">
+                <div className="analysis-panel-header">
+                  <span className="analysis-panel-title">Spectrogram</span>
+                  <label>
+                    FFT
+                    <select value={fftSize} onChange={(e) => setFftSize(Number(e.target.value))}>
+                      {[512, 1024, 2048, 4096, 8192].map((size) => (
+                        <option key={size} value={size}>{size}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Overlap
+                    <select value={overlap} onChange={(e) => setOverlap(Number(e.target.value))}>
+                      <option value={0.5}>50%</option>
+                      <option value={0.75}>75%</option>
+                      <option value={0.875}>87.5%</option>
+                    </select>
+                  </label>
+                  <label>
+                    Window
+                    <select value={windowType} onChange={(e) => setWindowType(e.target.value as WindowType)}>
+                      <option value="hann">Hann</option>
+                      <option value="hamming">Hamming</option>
+                      <option value="blackman-harris">Blackman-Harris</option>
+                      <option value="rectangular">Rectangular</option>
+                    </select>
+                  </label>
+                  <label>
+                    Colours
+                    <select value={colormap} onChange={(e) => setColormap(e.target.value as SpectrogramColormap)}>
+                      <option value="magma">Magma</option>
+                      <option value="inferno">Inferno</option>
+                      <option value="viridis">Viridis</option>
+                      <option value="jet">Jet</option>
+                      <option value="grayscale">Grayscale</option>
+                    </select>
+                  </label>
+                  <label>
+                    Scale
+                    <select value={frequencyScale} onChange={(e) => setFrequencyScale(e.target.value as FrequencyScale)}>
+                      <option value="linear">Linear</option>
+                      <option value="log">Log</option>
+                      <option value="mel">Mel</option>
+                      <option value="bark">Bark</option>
+                    </select>
+                  </label>
+                  <label>
+                    Floor
+                    <input
+                      type="range"
+                      min={-130}
+                      max={-30}
+                      step={5}
+                      value={spectrogramFloor}
+                      onChange={(e) => setSpectrogramFloor(Math.min(Number(e.target.value), spectrogramCeiling - 10))}
+                    />
+                    <span className="analysis-panel-value">{spectrogramFloor} dB</span>
+                  </label>
+                  <label>
+                    Ceiling
+                    <input
+                      type="range"
+                      min={-60}
+                      max={0}
+                      step={5}
+                      value={spectrogramCeiling}
+                      onChange={(e) => setSpectrogramCeiling(Math.max(Number(e.target.value), spectrogramFloor + 10))}
+                    />
+                    <span className="analysis-panel-value">{spectrogramCeiling} dB</span>
+                  </label>
+                </div>
+                <div className="analysis-spectrogram">
+                  <Spectrogram
+                    audioFile={audioFile}
+                    fftSize={fftSize}
+                    overlap={overlap}
+                    window={windowType}
+                    colormap={colormap}
+                    frequencyScale={frequencyScale}
+                    minDb={spectrogramFloor}
+                    maxDb={spectrogramCeiling}
+                    currentTime={currentTime}
+                    view={sharedView}
+                    onViewChange={updateTimelineView}
+                  />
+                </div>
+              </div>
+
+              <div className="analysis-panel">
+                <div className="analysis-panel-header">
+                  <span className="analysis-panel-title">3D Spectrogram</span>
+                  <label>
+                    Window
+                    <select value={terrainWindow} onChange={(e) => setTerrainWindow(e.target.value as typeof terrainWindow)}>
+                      <option value="file">Whole file</option>
+                      <option value="view">Waveform view</option>
+                      <option value="selection" disabled={!regions.selection}>Selection</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="analysis-spectrogram">
+                  <Spectrogram3D
+                    audioFile={audioFile}
+                    timeRange={terrainRange}
+                    currentTime={currentTime}
+                    fftSize={fftSize}
+                    frequencyScale={frequencyScale}
+                    colormap={colormap}
+                    minDb={spectrogramFloor}
+                    maxDb={spectrogramCeiling}
+                  />
+                </div>
+              </div>
+
               <div className="spectrogram-container">
                 <div className="spectrogram-2d">
                   <Spectrogram 
                     analyser={analyserRef.current} 
                     isPlaying={isPlaying} 
+                    frequencyScale={frequencyScale}
                     key={`spec2d-${analyserVersion}`}
                   />
                 </div>
@@ -451,6 +707,54 @@ export default function AnalysisPage() {
                 </div>
               </div>
               
+              <div className="analysis-panel">
+                <div className="analysis-panel-header">
+                  <span className="analysis-panel-title">Stereo Field</span>
+                  <label>
+                    Source
+                    <select value={stereoSource} onChange={(e) => setStereoSource(e.target.value as typeof stereoSource)}>
+                      <option value="playback">Playback</option>
+                      <option value="file">Whole file</option>
+                      <option value="selection" disabled={!regions.selection}>Selection</option>
+                    </select>
+                  </label>
+                  <label>
+                    Display
+                    <select value={goniometerMode} onChange={(e) => setGoniometerMode(e.target.value as GoniometerMode)}>
+                      <option value="lissajous">Lissajous</option>
+                      <option value="polar">Polar</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="analysis-goniometer">
+                  {stereoSource === "playback" ? (
+                    <Goniometer
+                      source={analyserRef.current}
+                      isPlaying={isPlaying}
+                      mode={goniometerMode}
+                      key={`gonio-${analyserVersion}`}
+                    />
+                  ) : (
+                    <Goniometer
+                      audioFile={audioFile}
+                      range={stereoSource === "selection" ? regions.selection : null}
+                      mode={goniometerMode}
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div className="analysis-panel">
+                <div className="analysis-panel-header">
+                  <span className="analysis-panel-title">Loudness Meter</span>
+                </div>
+                <LiveLoudnessMeter
+                  source={analyserRef.current}
+                  isPlaying={isPlaying}
+                  key={audioFile.url}
+                />
+              </div>
+
               <div className="audio-stats-container">
                 {/* Oscilloscope Coming Soon Section */}
                 <div className="oscilloscope-container">
@@ -466,6 +770,23 @@ export default function AnalysisPage() {
                 
                 
                 
+                {analysisProgress && (
+                  <div className="analysis-progress">
+                    <div className="analysis-progress-header">
+                      <span className="analysis-progress-stage">{analysisProgress.stage}</span>
+                      <button className="analysis-progress-cancel" onClick={cancelAnalysis}>
+                        Cancel
+                      </button>
+                    </div>
+                    <div className="analysis-progress-track">
+                      <div
+                        className="analysis-progress-fill"
+                        style={{ width: `${Math.round(analysisProgress.progress * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div className="stats-grid">
                   {/* Basic Audio Information */}
                   <div className="rowy gap-2">
@@ -492,8 +813,61 @@ export default function AnalysisPage() {
                   )}
                   </div>
                 </div>
-                
-                
+
+                {analysisResults && (
+                  <KeyTempoDisplay
+                    keyEstimate={analysisResults.key}
+                    tempo={analysisResults.rhythmFeatures.tempo}
+                    tempoConfidence={analysisResults.rhythmFeatures.tempoConfidence}
+                    taggedKey={audioFile.metadata.key}
+                    taggedBpm={audioFile.metadata.bpm}
+                  />
+                )}
+
+                <MetadataDisplay metadata={audioFile.metadata} onSeek={seek} />
+
+                {loudness && (
+                  <TechnicalAnalysis
+                    loudness={loudness}
+                    stereo={analysisResults?.multichannel.stereo}
+                  />
+                )}
+              </div>
+
+              {analysisResults && (
+                <div className="feature-track-container">
+                  <FeatureTrackChart
+                    tracks={analysisResults.tracks}
+                    duration={audioFile.duration}
+                    currentTime={currentTime}
+                    onSeek={seek}
+                  />
+                </div>
+              )}
+
+              {analysisResults && (
+                <div className="harmony-container">
+                  <div className="harmony-chromagram">
+                    <Chromagram
+                      tracks={analysisResults.tracks}
+                      duration={audioFile.duration}
+                      currentTime={currentTime}
+                      colormap={colormap}
+                      onSeek={seek}
+                    />
+                  </div>
+                  <div className="harmony-tonnetz">
+                    <TonnetzPlot tracks={analysisResults.tracks} currentTime={currentTime} />
+                  </div>
+                </div>
+              )}
+
+              <div className="export-container">
+                <ExportPanel audioFile={audioFile} selection={regions.selection} />
+              </div>
+
+              <div className="library-container">
+                <SessionLibraryPanel activeFile={audioFile} onSelect={handleFileUpload} onError={handleFileError} />
               </div>
             </div>
           </div>
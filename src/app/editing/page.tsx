@@ -1,14 +1,37 @@
 "use client";
 
+import { useCallback, useState } from "react";
 import StaggeredMenu from "@/components/StaggeredMenu";
+import { AudioUploader } from "@/components/AudioUploader";
+import AudioPlayer from "@/components/AudioPlayer";
+import ExportPanel from "@/components/ExportPanel";
+import SpectralEditPanel from "@/components/SpectralEditPanel";
+import SessionLibraryPanel from "@/components/SessionLibraryPanel";
+import LibraryBrowser from "@/components/LibraryBrowser";
 import { getMenuItemsForPage, SOCIAL_ITEMS } from "@/constants/navigation";
+import { AudioFile } from "@/types/audio";
+import { useWaveformRegions } from "@/hooks/useAudio";
+
+// CSS imports
+import "@/styles/AudioUploader.css";
+import "@/styles/WaveformVisualizer.css";
+import "@/styles/AudioPlayer.css";
+import "./editing.css";
 
 export default function EditingPage() {
+  const [audioFile, setAudioFile] = useState<AudioFile | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const regions = useWaveformRegions(audioFile);
+
   // Menu items for navigation (excluding current page)
   const menuItems = getMenuItemsForPage('/editing');
 
+  const handleFileError = useCallback((error: string) => {
+    console.error("File upload error:", error);
+  }, []);
+
   return (
-    <div style={{ height: '100vh', background: '#1a1a1a' }}>
+    <main className="editing-page">
       <StaggeredMenu
         position="right"
         items={menuItems}
@@ -24,39 +47,34 @@ export default function EditingPage() {
         onMenuOpen={() => console.log('Menu opened')}
         onMenuClose={() => console.log('Menu closed')}
       />
-      {/* <div className="container">
-        <h1 className="text-center my-5">Audio Editing</h1>
-        <p className="text-center">This is where the audio editing feature will be.</p>
-
-        <div className="rowy">
-          <div>asdf</div>
-          <div>asds</div>
-        </div>
-      </div> */}
-      <div className="p-4 flex justify-center items-center text-center w-full">
-        <div className="font-bold text-white mt-5">
-
-        Analysis
-        <div className="rowy px-5">
-          <div>
-            2D Spectrogram
-          </div>
-          <div>
-            3D Spectrogram
+
+      <div className="editing-container mt-5">
+        {!audioFile && (
+          <div className="uploader-container">
+            <AudioUploader onFileLoad={setAudioFile} onError={handleFileError} multiple />
+            <SessionLibraryPanel onSelect={setAudioFile} onError={handleFileError} />
+            <LibraryBrowser onSelect={setAudioFile} onError={handleFileError} />
           </div>
+        )}
+
+        {audioFile && (
+          <div className="editing-content">
+            <div className="audio-player-container">
+              <AudioPlayer audioFile={audioFile} showControls={true} onTimeUpdate={setCurrentTime} {...regions} />
+            </div>
+
+            <SpectralEditPanel audioFile={audioFile} currentTime={currentTime} onApply={setAudioFile} />
 
-        </div>
+            <ExportPanel audioFile={audioFile} selection={regions.selection} />
 
-        <div className="">
-          card charts
-        </div>
+            <SessionLibraryPanel activeFile={audioFile} onSelect={setAudioFile} onError={handleFileError} />
 
-        <div className="">
-          audio player
+            <button className="editing-replace-button" onClick={() => setAudioFile(null)}>
+              Load another file
+            </button>
           </div>
-          
-        </div>
+        )}
       </div>
-    </div>
+    </main>
   );
 }
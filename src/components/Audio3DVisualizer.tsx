@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as THREE from 'three';
 import { AudioFile, Audio3DSource, FrequencyData } from '@/types/audio';
+import { WebGLSupport } from '@/lib/webgl';
 
 interface Audio3DVisualizerProps {
   audioFile?: AudioFile;
@@ -29,6 +30,8 @@ export const Audio3DVisualizer: React.FC<Audio3DVisualizerProps> = ({
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [webglAvailable, setWebglAvailable] = useState(true);
+  const fallbackCanvasRef = useRef<HTMLCanvasElement>(null);
   
   // Audio visualization objects
   const visualizersRef = useRef<Map<string, THREE.Mesh>>(new Map());
@@ -39,6 +42,13 @@ export const Audio3DVisualizer: React.FC<Audio3DVisualizerProps> = ({
   const initializeScene = useCallback(() => {
     if (!containerRef.current || isInitialized) return;
 
+    // Renderer first, so a missing WebGL leaves nothing half-built
+    const renderer = WebGLSupport.tryCreate(() => new THREE.WebGLRenderer({ antialias: true, alpha: true }));
+    if (!renderer) {
+      setWebglAvailable(false);
+      return;
+    }
+
     // Scene
     const scene = new THREE.Scene();
     scene.background = new THREE.Color(0x1a1a2e);
@@ -50,8 +60,6 @@ export const Audio3DVisualizer: React.FC<Audio3DVisualizerProps> = ({
     camera.lookAt(0, 0, 0);
     cameraRef.current = camera;
 
-    // Renderer
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
     renderer.setSize(width, height);
     renderer.setPixelRatio(window.devicePixelRatio);
     renderer.shadowMap.enabled = true;
@@ -306,6 +314,95 @@ export const Audio3DVisualizer: React.FC<Audio3DVisualizerProps> = ({
     });
   }, [sources, isInitialized, create3DAudioSource]);
 
+  // Top-down 2D view of the same scene when WebGL is missing: grid, frequency ring, waveform and sources
+  useEffect(() => {
+    const canvas = fallbackCanvasRef.current;
+    if (webglAvailable || !canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = Math.max(1, window.devicePixelRatio || 1);
+    canvas.width = Math.floor(width * dpr);
+    canvas.height = Math.floor(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    // World x runs right and z runs down, over the same 20-unit grid as the 3D scene
+    const scale = Math.min(width, height) / 22;
+    const toCanvas = (x: number, z: number): [number, number] => [width / 2 + x * scale, height / 2 + z * scale];
+
+    ctx.lineWidth = 1;
+    for (let i = -10; i <= 10; i++) {
+      ctx.strokeStyle = i === 0 ? '#444' : '#222';
+      ctx.beginPath();
+      ctx.moveTo(...toCanvas(i, -10));
+      ctx.lineTo(...toCanvas(i, 10));
+      ctx.moveTo(...toCanvas(-10, i));
+      ctx.lineTo(...toCanvas(10, i));
+      ctx.stroke();
+    }
+
+    // Frequency bars laid flat around the ring, pointing outwards
+    const barCount = 64;
+    const frequencies = frequencyData?.frequencies;
+    for (let i = 0; i < barCount; i++) {
+      const level = frequencies && i < frequencies.length ? frequencies[i] / 255 : 0;
+      const angle = (i / barCount) * Math.PI * 2;
+      const [x0, y0] = toCanvas(Math.cos(angle) * 8, Math.sin(angle) * 8);
+      const [x1, y1] = toCanvas(Math.cos(angle) * (8 + Math.max(0.1, level * 2)), Math.sin(angle) * (8 + Math.max(0.1, level * 2)));
+      ctx.strokeStyle = `hsl(${(i / barCount) * 0.8 * 360}, 80%, ${30 + level * 70}%)`;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(x0, y0);
+      ctx.lineTo(x1, y1);
+      ctx.stroke();
+    }
+
+    if (audioFile) {
+      const channelData = audioFile.audioBuffer.getChannelData(0);
+      const sampleCount = Math.min(1000, channelData.length);
+      const step = Math.max(1, Math.floor(channelData.length / sampleCount));
+      ctx.strokeStyle = 'rgba(0, 255, 136, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let i = 0; i < sampleCount; i++) {
+        const [x, y] = toCanvas((i / sampleCount) * 16 - 8, channelData[i * step] * 1.5);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    }
+
+    for (const source of sources) {
+      const [x, y] = toCanvas(source.position.x, source.position.z);
+      if (source.cone.innerAngle < 360) {
+        const half = (source.cone.outerAngle * Math.PI) / 360;
+        ctx.fillStyle = 'rgba(255, 107, 107, 0.15)';
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.arc(x, y, source.distance * scale, -Math.PI / 2 - half, -Math.PI / 2 + half);
+        ctx.closePath();
+        ctx.fill();
+      }
+      ctx.fillStyle = 'rgba(255, 107, 107, 0.8)';
+      ctx.beginPath();
+      ctx.arc(x, y, 0.5 * (1 + source.volume * 0.5) * scale, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }, [webglAvailable, width, height, frequencyData, sources, audioFile]);
+
+  const handleFallbackClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!enableInteraction) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const scale = Math.min(width, height) / 22;
+    const x = (event.clientX - rect.left - width / 2) / scale;
+    const z = (event.clientY - rect.top - height / 2) / scale;
+    const hit = sources.find(source =>
+      Math.hypot(source.position.x - x, source.position.z - z) <= 0.5 * (1 + source.volume * 0.5)
+    );
+    if (hit) onSourceSelect?.(hit.id);
+  }, [enableInteraction, width, height, sources, onSourceSelect]);
+
   // Add canvas event listeners
   useEffect(() => {
     const canvas = rendererRef.current?.domElement;
@@ -323,7 +420,18 @@ export const Audio3DVisualizer: React.FC<Audio3DVisualizerProps> = ({
       className={`audio-3d-visualizer ${className}`}
       style={{ width, height }}
     >
-      {!isInitialized && (
+      {!webglAvailable && (
+        <>
+          <canvas
+            ref={fallbackCanvasRef}
+            className="audio-3d-fallback"
+            style={{ width, height }}
+            onClick={handleFallbackClick}
+          />
+          <div className="audio-3d-notice">WebGL unavailable · top-down 2D view</div>
+        </>
+      )}
+      {webglAvailable && !isInitialized && (
         <div className="loading-overlay">
           <div className="loading-spinner"></div>
           <span>Initializing 3D visualizer...</span>
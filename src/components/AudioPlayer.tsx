@@ -1,7 +1,9 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { AudioFile, AudioEffect } from '@/types/audio';
-import { AudioContextManager } from '@/lib/audio/audioUtils';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { FiFlag, FiRepeat, FiX } from 'react-icons/fi';
+import { AudioFile, AudioEffect, AudioMarker, AudioRegion, TimeRange } from '@/types/audio';
+import { AudioContextManager, audioUtils } from '@/lib/audio/audioUtils';
 import { AudioEffectProcessor } from '@/lib/audio/audioEffects';
+import { RegionUtils } from '@/lib/audio/regions';
 import { WaveformVisualizer } from './WaveformVisualizer';
 
 interface AudioPlayerProps {
@@ -18,8 +20,21 @@ interface AudioPlayerProps {
   autoPlay?: boolean;
   loop?: boolean;
   volume?: number;
+  /** Region props are passed through to the waveform; see WaveformVisualizer */
+  selection?: TimeRange | null;
+  onSelectionChange?: (selection: TimeRange | null) => void;
+  markers?: AudioMarker[];
+  onMarkersChange?: (markers: AudioMarker[]) => void;
+  loopRegions?: AudioRegion[];
+  onLoopRegionsChange?: (regions: AudioRegion[]) => void;
+  /** Loop region playback repeats while it is set */
+  activeLoopId?: string | null;
+  onActiveLoopChange?: (id: string | null) => void;
 }
 
+const NO_MARKERS: AudioMarker[] = [];
+const NO_REGIONS: AudioRegion[] = [];
+
 export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   audioFile,
   effects = [],
@@ -34,6 +49,14 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   autoPlay = false,
   loop = false,
   volume = 1,
+  selection = null,
+  onSelectionChange,
+  markers = NO_MARKERS,
+  onMarkersChange,
+  loopRegions = NO_REGIONS,
+  onLoopRegionsChange,
+  activeLoopId = null,
+  onActiveLoopChange,
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -46,9 +69,16 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   const internalAnalyserRef = useRef<AnalyserNode | null>(null);
   const contextManagerRef = useRef<AudioContextManager | null>(null);
   const effectProcessorRef = useRef<AudioEffectProcessor | null>(null);
+  // Context time at which pauseTimeRef last matched the playback position
   const startTimeRef = useRef<number>(0);
   const pauseTimeRef = useRef<number>(0);
   const animationFrameRef = useRef<number | null>(null);
+  const activeLoopRef = useRef<AudioRegion | null>(null);
+
+  const activeLoop = useMemo(
+    () => loopRegions.find(region => region.id === activeLoopId) ?? null,
+    [loopRegions, activeLoopId]
+  );
 
   useEffect(() => {
     contextManagerRef.current = AudioContextManager.getInstance();
@@ -75,15 +105,33 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   }, [volume]);
 
   const playFunctionRef = useRef<(() => Promise<void>) | null>(null);
+  const seekFunctionRef = useRef<((time: number) => void) | null>(null);
+
+  // Advance the tracked position to the context clock, wrapping inside the loop the way the source does
+  const advancePosition = useCallback(() => {
+    const manager = contextManagerRef.current;
+    const source = sourceRef.current;
+    if (!manager) return pauseTimeRef.current;
+
+    const now = manager.getCurrentTime();
+    let position = pauseTimeRef.current + (now - startTimeRef.current) * (source?.playbackRate.value ?? 1);
+    const loopRange = activeLoopRef.current;
+    if (source?.loop && loopRange && position >= loopRange.end) {
+      position = loopRange.start + ((position - loopRange.start) % (loopRange.end - loopRange.start));
+    }
+
+    pauseTimeRef.current = position;
+    startTimeRef.current = now;
+    return position;
+  }, []);
 
   const updateTime = useCallback(() => {
     if (isPlaying && contextManagerRef.current) {
-      const elapsed = contextManagerRef.current.getCurrentTime() - startTimeRef.current + pauseTimeRef.current;
-      const newCurrentTime = Math.min(elapsed, duration);
+      const newCurrentTime = Math.min(advancePosition(), duration);
       setCurrentTime(newCurrentTime);
       onTimeUpdate?.(newCurrentTime);
 
-      if (newCurrentTime >= duration) {
+      if (newCurrentTime >= duration && !activeLoopRef.current) {
         setIsPlaying(false);
         setCurrentTime(0);
         pauseTimeRef.current = 0;
@@ -97,7 +145,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
         animationFrameRef.current = requestAnimationFrame(updateTime);
       }
     }
-  }, [isPlaying, duration, onTimeUpdate, onEnded, loop]);
+  }, [isPlaying, duration, onTimeUpdate, onEnded, loop, advancePosition]);
 
   useEffect(() => {
     if (isPlaying) {
@@ -123,6 +171,13 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     source.buffer = audioFile.audioBuffer;
     source.playbackRate.value = playbackRate;
 
+    const loopRange = activeLoopRef.current;
+    if (loopRange) {
+      source.loop = true;
+      source.loopStart = loopRange.start;
+      source.loopEnd = loopRange.end;
+    }
+
     const gainNode = context.createGain();
     gainNode.gain.value = volume;
 
@@ -177,10 +232,14 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
       // Register the source with the context manager for better tracking
       contextManagerRef.current.registerSource(source);
       
-      // Start playback from the correct position
+      // Start playback from the correct position, jumping into the active loop when outside it
+      const loopRange = activeLoopRef.current;
+      if (loopRange && !RegionUtils.contains(loopRange, pauseTimeRef.current)) {
+        pauseTimeRef.current = loopRange.start;
+      }
       const currentTimeValue = pauseTimeRef.current;
       source.start(0, currentTimeValue);
-      startTimeRef.current = contextManagerRef.current.getCurrentTime() - currentTimeValue;
+      startTimeRef.current = contextManagerRef.current.getCurrentTime();
 
       // Update context manager's playing state
       contextManagerRef.current.setPlayingState(true);
@@ -221,9 +280,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     if (!isPlaying || !contextManagerRef.current) return;
 
     // Calculate and store the current playback position properly
-    if (contextManagerRef.current) {
-      pauseTimeRef.current = contextManagerRef.current.getCurrentTime() - startTimeRef.current + pauseTimeRef.current;
-    }
+    advancePosition();
     
     // Properly stop all active sources
     if (contextManagerRef.current) {
@@ -244,7 +301,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     
     setIsPlaying(false);
     onPlayStateChange?.(false);
-  }, [isPlaying, onPlayStateChange]);
+  }, [isPlaying, onPlayStateChange, advancePosition]);
 
   const stop = useCallback(() => {
     // Stop all audio playback and reset positions
@@ -308,6 +365,45 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     }
   }, [isPlaying, play, duration, onSeek]);
 
+  useEffect(() => {
+    seekFunctionRef.current = seek;
+  }, [seek]);
+
+  // Follow the active loop: switching to a loop outside the playhead jumps into it, while edge
+  // drags on the current loop update the playing source in place
+  useEffect(() => {
+    const previous = activeLoopRef.current;
+    const source = sourceRef.current;
+    const position = source && isPlaying ? advancePosition() : pauseTimeRef.current;
+    activeLoopRef.current = activeLoop;
+
+    if (activeLoop && (activeLoop.id !== previous?.id || isPlaying) && !RegionUtils.contains(activeLoop, position)) {
+      seekFunctionRef.current?.(activeLoop.start);
+      return;
+    }
+
+    if (source && isPlaying) {
+      source.loop = !!activeLoop;
+      if (activeLoop) {
+        source.loopStart = activeLoop.start;
+        source.loopEnd = activeLoop.end;
+      }
+    }
+  }, [activeLoop, isPlaying, advancePosition]);
+
+  const addMarkerAtPlayhead = useCallback(() => {
+    if (!onMarkersChange) return;
+    const marker = RegionUtils.createMarker(markers, currentTime);
+    onMarkersChange([...markers, marker].sort((a, b) => a.time - b.time));
+  }, [onMarkersChange, markers, currentTime]);
+
+  const loopSelection = useCallback(() => {
+    if (!selection || !onLoopRegionsChange) return;
+    const region = RegionUtils.createLoopRegion(loopRegions, selection);
+    onLoopRegionsChange([...loopRegions, region]);
+    onActiveLoopChange?.(region.id);
+  }, [selection, loopRegions, onLoopRegionsChange, onActiveLoopChange]);
+
   const togglePlayPause = useCallback(() => {
     if (isPlaying) {
       pause();
@@ -378,7 +474,14 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           showProgress={true}
           interactive={true}
           className="audio-player-waveform"
-          samples={500}
+          selection={selection}
+          onSelectionChange={onSelectionChange}
+          markers={markers}
+          onMarkersChange={onMarkersChange}
+          loopRegions={loopRegions}
+          onLoopRegionsChange={onLoopRegionsChange}
+          activeLoopId={activeLoopId}
+          onActiveLoopChange={onActiveLoopChange}
         />
       </div>
 
@@ -398,6 +501,46 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           </select>
         </div>
 
+        {(onMarkersChange || onLoopRegionsChange || loopRegions.length > 0) && (
+          <div className="region-controls">
+            {onMarkersChange && (
+              <button onClick={addMarkerAtPlayhead} title="Add a marker at the playhead">
+                <FiFlag /> Marker
+              </button>
+            )}
+            {onLoopRegionsChange && (
+              <button onClick={loopSelection} disabled={!selection} title="Turn the selection into a loop region">
+                <FiRepeat /> Loop selection
+              </button>
+            )}
+            {loopRegions.length > 0 && (
+              <select
+                value={activeLoopId ?? ''}
+                onChange={(e) => onActiveLoopChange?.(e.target.value || null)}
+                disabled={!onActiveLoopChange}
+                aria-label="Active loop"
+              >
+                <option value="">Loop off</option>
+                {loopRegions.map((region) => (
+                  <option key={region.id} value={region.id}>
+                    {region.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {selection && (
+              <span className="selection-readout">
+                {audioUtils.formatTime(selection.start)} – {audioUtils.formatTime(selection.end)}
+                {onSelectionChange && (
+                  <button onClick={() => onSelectionChange(null)} aria-label="Clear selection">
+                    <FiX />
+                  </button>
+                )}
+              </span>
+            )}
+          </div>
+        )}
+
         <div className="audio-info">
           <span>{audioFile.name}</span>
           <span className="audio-meta">
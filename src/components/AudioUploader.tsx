@@ -1,6 +1,11 @@
 import React, { useCallback, useState, useRef, DragEvent } from 'react';
 import { AudioFile } from '@/types/audio';
 import { audioUtils } from '@/lib/audio/audioUtils';
+import { FormatSniffer, FormatSummary } from '@/lib/audio/formatSniffer';
+import { BatchItem, BatchItemStatus, BatchLoadQueue, BatchSource, collectDroppedFiles } from '@/lib/audio/batchLoader';
+import { SessionLibrary } from '@/lib/audio/sessionLibrary';
+import { AudioLibraryStore } from '@/lib/audio/libraryStore';
+import { useBatchQueue, useCoverArtUrl } from '@/hooks/useAudio';
 
 interface AudioUploaderProps {
   onFileLoad: (audioFile: AudioFile) => void;
@@ -8,33 +13,159 @@ interface AudioUploaderProps {
   accept?: string;
   multiple?: boolean;
   maxSize?: number;
+  concurrency?: number;
   className?: string;
   children?: React.ReactNode;
 }
 
+// Extensions are listed alongside audio/* because browsers label some FLAC/AIFF files application/octet-stream
+const DEFAULT_ACCEPT = 'audio/*,.wav,.wave,.rf64,.aif,.aiff,.aifc,.flac,.ogg,.oga,.opus,.mp3,.mp2,.aac,.m4a,.mp4,.webm,.weba,.mka';
+
+const formatChannels = (channels: number | null): string => {
+  if (channels === null) return 'unknown channels';
+  if (channels === 1) return 'mono';
+  if (channels === 2) return 'stereo';
+  return `${channels} channels`;
+};
+
+// Header facts shown while the browser decodes the file
+const FormatSummaryLine: React.FC<{ summary: FormatSummary }> = ({ summary }) => {
+  const parts = [
+    `${summary.label} (${summary.codec})`,
+    summary.duration !== null ? audioUtils.formatTime(summary.duration) : 'unknown length',
+    summary.sampleRate !== null
+      ? `${(summary.sampleRate / 1000).toFixed(summary.sampleRate % 1000 === 0 ? 0 : 1)} kHz`
+      : 'unknown rate',
+    formatChannels(summary.channels),
+    summary.bitrate ? `${Math.round(summary.bitrate)} kbps` : undefined,
+  ].filter(Boolean);
+
+  return <small className="format-summary">{parts.join(' · ')}</small>;
+};
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  reading: 'Reading',
+  decoding: 'Decoding',
+  done: 'Loaded',
+  error: 'Failed',
+  skipped: 'Skipped',
+  cancelled: 'Cancelled',
+};
+
+// Per-file rows of the shared batch queue
+const BatchQueueList: React.FC<{ items: BatchItem[]; pending: number; queue: BatchLoadQueue }> = ({
+  items,
+  pending,
+  queue,
+}) => (
+  <div className="batch-queue">
+    <div className="batch-queue-header">
+      <span>{pending > 0 ? `Loading ${pending} of ${items.length} files` : `${items.length} files processed`}</span>
+      <div className="batch-queue-actions">
+        {pending > 0 && <button onClick={() => queue.cancelAll()}>Cancel all</button>}
+        <button onClick={() => queue.clearFinished()} disabled={pending === items.length}>Clear finished</button>
+      </div>
+    </div>
+    <ul className="batch-queue-items">
+      {items.map(item => {
+        const active = item.status === 'queued' || item.status === 'reading' || item.status === 'decoding';
+        return (
+          <li key={item.id} className={`batch-queue-item ${item.status}`}>
+            <div className="batch-queue-row">
+              <span className="batch-queue-name" title={item.path}>{item.path}</span>
+              <span className="batch-queue-status">{STATUS_LABELS[item.status]}</span>
+              {active && (
+                <button className="batch-queue-cancel" onClick={() => queue.cancel(item.id)} aria-label={`Cancel ${item.path}`}>
+                  ×
+                </button>
+              )}
+            </div>
+            {active && (
+              <div className="batch-queue-progress">
+                <div className="batch-queue-progress-fill" style={{ width: `${Math.round(item.progress * 100)}%` }} />
+              </div>
+            )}
+            {item.error ? (
+              <small className="batch-queue-error">{item.error}</small>
+            ) : (
+              item.summary && <FormatSummaryLine summary={item.summary} />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+// Tag summary of the most recently loaded file
+const LoadedFileSummary: React.FC<{ audioFile: AudioFile }> = ({ audioFile }) => {
+  const { metadata } = audioFile;
+  const coverUrl = useCoverArtUrl(metadata.coverArt);
+  const details = [metadata.album, metadata.year, metadata.bpm ? `${metadata.bpm} BPM` : undefined, metadata.key]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div className="loaded-file-summary">
+      {coverUrl && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img className="loaded-file-cover" src={coverUrl} alt="Cover art" />
+      )}
+      <div className="loaded-file-text">
+        <strong>{metadata.title || audioFile.name}</strong>
+        {metadata.artist && <span>{metadata.artist}</span>}
+        {details && <small>{details}</small>}
+      </div>
+    </div>
+  );
+};
+
 export const AudioUploader: React.FC<AudioUploaderProps> = ({
   onFileLoad,
   onError,
-  accept = 'audio/*',
+  accept = DEFAULT_ACCEPT,
   multiple = false,
   maxSize = 100 * 1024 * 1024, // 100MB default
+  concurrency = 2,
   className = '',
   children,
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [lastLoaded, setLastLoaded] = useState<AudioFile | null>(null);
+  const [pendingSummary, setPendingSummary] = useState<FormatSummary | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { items: batchItems, pending: batchPending, queue } = useBatchQueue();
 
-  const handleFileLoad = useCallback(async (files: FileList) => {
-    const file = files[0];
-    if (!file) return;
+  // Multiple files go through the shared queue; the first one to finish is handed to the page
+  const handleBatchLoad = useCallback((sources: BatchSource[]) => {
+    if (sources.length === 0) return;
+
+    let delivered = false;
+    queue.setConcurrency(concurrency);
+    queue.enqueue(sources, {
+      maxSize,
+      onLoaded: (audioFile) => {
+        setLastLoaded(audioFile);
+        if (!delivered) {
+          delivered = true;
+          onFileLoad(audioFile);
+        }
+      },
+      onError: (message, item) => onError(`Failed to load ${item.path}: ${message}`),
+    });
+  }, [queue, concurrency, maxSize, onFileLoad, onError]);
 
-    // Validate file type
-    if (!file.type.startsWith('audio/')) {
-      onError('Please select a valid audio file');
+  const handleFileLoad = useCallback(async (files: FileList) => {
+    if (multiple) {
+      handleBatchLoad(Array.from(files).map(file => ({ file, path: file.name, fromFolder: false })));
       return;
     }
 
+    const file = files[0];
+    if (!file) return;
+
     // Validate file size
     if (file.size > maxSize) {
       onError(`File size must be less than ${Math.round(maxSize / (1024 * 1024))}MB`);
@@ -43,14 +174,21 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
 
     setIsLoading(true);
     try {
-      const audioFile = await audioUtils.loadAudioFile(file);
+      // Trust the magic bytes rather than file.type, which is empty or generic for many valid files
+      const buffer = await file.arrayBuffer();
+      setPendingSummary(FormatSniffer.probe(buffer));
+
+      const audioFile = await AudioLibraryStore.openFile(file, buffer);
+      SessionLibrary.getInstance().add(audioFile);
+      setLastLoaded(audioFile);
       onFileLoad(audioFile);
     } catch (error) {
       onError(`Failed to load audio file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsLoading(false);
+      setPendingSummary(null);
     }
-  }, [onFileLoad, onError, maxSize]);
+  }, [onFileLoad, onError, maxSize, multiple, handleBatchLoad]);
 
   const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -65,18 +203,28 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
   const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
-    
+
+    if (multiple) {
+      // Must start synchronously: the drop's entries are gone once this handler returns
+      collectDroppedFiles(e.dataTransfer)
+        .then(handleBatchLoad)
+        .catch(error => onError(`Could not read the dropped folder: ${error instanceof Error ? error.message : error}`));
+      return;
+    }
+
     const files = e.dataTransfer.files;
     if (files.length > 0) {
       handleFileLoad(files);
     }
-  }, [handleFileLoad]);
+  }, [handleFileLoad, handleBatchLoad, multiple, onError]);
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
       handleFileLoad(files);
     }
+    // Allow picking the same files again
+    e.target.value = '';
   }, [handleFileLoad]);
 
   const openFileDialog = useCallback(() => {
@@ -84,46 +232,57 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
   }, []);
 
   return (
-    <div
-      className={`audio-uploader ${isDragging ? 'dragging' : ''} ${isLoading ? 'loading' : ''} ${className}`}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      onClick={openFileDialog}
-    >
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept={accept}
-        multiple={multiple}
-        onChange={handleFileInputChange}
-        style={{ display: 'none' }}
-      />
+    <>
+      <div
+        className={`audio-uploader ${isDragging ? 'dragging' : ''} ${isLoading ? 'loading' : ''} ${className}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={openFileDialog}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={accept}
+          multiple={multiple}
+          onChange={handleFileInputChange}
+          style={{ display: 'none' }}
+        />
       
-      {children || (
-        <div className="upload-content">
-          {isLoading ? (
-            <div className="loading-indicator">
-              <div className="spinner"></div>
-              <p>Loading audio file...</p>
-            </div>
-          ) : (
-            <>
-              <div className="upload-icon">
-                <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
-                  <polyline points="7,10 12,15 17,10"/>
-                  <line x1="12" y1="15" x2="12" y2="3"/>
-                </svg>
+        {children || (
+          <div className="upload-content">
+            {isLoading ? (
+              <div className="loading-indicator">
+                <div className="spinner"></div>
+                <p>{pendingSummary ? 'Decoding audio...' : 'Loading audio file...'}</p>
+                {pendingSummary && <FormatSummaryLine summary={pendingSummary} />}
               </div>
-              <h3>Upload Audio File</h3>
-              <p>Drag and drop an audio file here, or click to browse</p>
-              <small>Supported formats: MP3, WAV, FLAC, OGG (Max: {Math.round(maxSize / (1024 * 1024))}MB)</small>
-            </>
-          )}
-        </div>
+            ) : (
+              <>
+                {lastLoaded && <LoadedFileSummary audioFile={lastLoaded} />}
+                <div className="upload-icon">
+                  <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                    <polyline points="7,10 12,15 17,10"/>
+                    <line x1="12" y1="15" x2="12" y2="3"/>
+                  </svg>
+                </div>
+                <h3>{multiple ? 'Upload Audio Files' : 'Upload Audio File'}</h3>
+                <p>
+                  {multiple
+                    ? 'Drag and drop audio files or a whole folder here, or click to browse'
+                    : 'Drag and drop an audio file here, or click to browse'}
+                </p>
+                <small>Supported formats: WAV, AIFF, FLAC, OGG/Opus, MP3, AAC, M4A (Max: {Math.round(maxSize / (1024 * 1024))}MB)</small>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+      {multiple && batchItems.length > 0 && (
+        <BatchQueueList items={batchItems} pending={batchPending} queue={queue} />
       )}
-    </div>
+    </>
   );
 };
 
@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { FeatureTracks } from "@/types/audio";
+import { PITCH_CLASSES } from "@/lib/audio/keyDetection";
+import { SpectrogramAnalyzer, SpectrogramColormap } from "@/lib/audio/spectrogram";
+import "@/styles/Chromagram.css";
+
+export interface ChromagramProps {
+  tracks: FeatureTracks;
+  duration: number;
+  currentTime?: number;
+  colormap?: SpectrogramColormap;
+  onSeek?: (time: number) => void;
+  className?: string;
+}
+
+// Seconds shown at once; zero shows the whole file
+const WINDOW_OPTIONS = [0, 10, 30, 60];
+const LABEL_WIDTH = 28;
+
+// Pitch class against time over the whole file, one column per feature frame, following the playhead when zoomed in
+export const Chromagram: React.FC<ChromagramProps> = ({
+  tracks,
+  duration,
+  currentTime = 0,
+  colormap = "magma",
+  onSeek,
+  className = "",
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [windowSeconds, setWindowSeconds] = useState(0);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track the canvas' parent size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const parent = canvas?.parentElement;
+    if (!canvas || !parent) return;
+
+    const updateSize = () => {
+      setSize({ width: parent.clientWidth, height: parent.clientHeight });
+    };
+
+    updateSize();
+    const resizeObserver = new ResizeObserver(updateSize);
+    resizeObserver.observe(parent);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // The full heatmap at one pixel per frame and pitch class, scaled when drawn. Each frame is
+  // normalised to its strongest pitch class so quiet passages still show their harmony
+  const image = useMemo(() => {
+    const frames = tracks.chroma.length;
+    if (frames === 0 || typeof document === "undefined") return null;
+
+    const lut = SpectrogramAnalyzer.colormapLut(colormap);
+    const offscreen = document.createElement("canvas");
+    offscreen.width = frames;
+    offscreen.height = 12;
+    const ctx = offscreen.getContext("2d");
+    if (!ctx) return null;
+
+    const data = ctx.createImageData(frames, 12);
+    for (let frame = 0; frame < frames; frame++) {
+      const chroma = tracks.chroma[frame];
+      let max = 0;
+      for (let c = 0; c < 12; c++) max = Math.max(max, chroma[c]);
+      for (let c = 0; c < 12; c++) {
+        const level = max > 0 ? Math.round((chroma[c] / max) * 255) : 0;
+        // Highest pitch class on the top row
+        const offset = ((11 - c) * frames + frame) * 4;
+        data.data[offset] = lut[level * 4];
+        data.data[offset + 1] = lut[level * 4 + 1];
+        data.data[offset + 2] = lut[level * 4 + 2];
+        data.data[offset + 3] = 255;
+      }
+    }
+    ctx.putImageData(data, 0, 0);
+    return offscreen;
+  }, [tracks, colormap]);
+
+  const visibleRange = useCallback(() => {
+    if (windowSeconds <= 0 || windowSeconds >= duration) return { start: 0, end: duration };
+    const start = Math.min(Math.max(0, currentTime - windowSeconds / 2), duration - windowSeconds);
+    return { start, end: start + windowSeconds };
+  }, [windowSeconds, duration, currentTime]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0 || size.height === 0) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const dpr = Math.max(1, window.devicePixelRatio || 1);
+    canvas.width = Math.floor(size.width * dpr);
+    canvas.height = Math.floor(size.height * dpr);
+    canvas.style.width = `${size.width}px`;
+    canvas.style.height = `${size.height}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (!image || duration <= 0) return;
+
+    const plotWidth = size.width - LABEL_WIDTH;
+    const rowHeight = size.height / 12;
+    const { start, end } = visibleRange();
+    const frameSeconds = tracks.hopSize / tracks.sampleRate;
+    const firstFrame = start / frameSeconds;
+    const frameSpan = Math.max(1e-6, (end - start) / frameSeconds);
+
+    // The last frame can end before the file does
+    const sourceWidth = Math.min(frameSpan, image.width - firstFrame);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(image, firstFrame, 0, sourceWidth, 12, LABEL_WIDTH, 0, (sourceWidth / frameSpan) * plotWidth, size.height);
+
+    // Pitch class labels, naturals brighter than accidentals
+    ctx.font = "10px 'Courier New', monospace";
+    ctx.textBaseline = "middle";
+    for (let c = 0; c < 12; c++) {
+      const name = PITCH_CLASSES[c];
+      ctx.fillStyle = name.includes("#") ? "#6b7280" : "#e2e8f0";
+      ctx.fillText(name, 4, (11 - c + 0.5) * rowHeight);
+    }
+
+    const playheadX = LABEL_WIDTH + ((currentTime - start) / (end - start)) * plotWidth;
+    if (playheadX >= LABEL_WIDTH && playheadX <= size.width) {
+      ctx.strokeStyle = "#fff";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(playheadX, 0);
+      ctx.lineTo(playheadX, size.height);
+      ctx.stroke();
+    }
+  }, [image, tracks, size, currentTime, duration, visibleRange]);
+
+  const handleClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek || duration <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left - LABEL_WIDTH;
+    if (x < 0) return;
+    const { start, end } = visibleRange();
+    onSeek(Math.max(0, Math.min(start + (x / (rect.width - LABEL_WIDTH)) * (end - start), duration)));
+  }, [onSeek, duration, visibleRange]);
+
+  return (
+    <div className={`chromagram ${className}`}>
+      <div className="chromagram-header">
+        <span className="chromagram-title">Chromagram</span>
+        <select
+          className="chromagram-select"
+          value={windowSeconds}
+          onChange={(e) => setWindowSeconds(Number(e.target.value))}
+        >
+          {WINDOW_OPTIONS.map((seconds) => (
+            <option key={seconds} value={seconds} disabled={seconds > 0 && seconds >= duration}>
+              {seconds === 0 ? "Whole file" : `${seconds} s`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="chromagram-plot">
+        <canvas
+          ref={canvasRef}
+          className="chromagram-canvas"
+          onClick={handleClick}
+          style={{ cursor: onSeek ? "pointer" : "default" }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Chromagram;
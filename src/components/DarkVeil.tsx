@@ -1,6 +1,7 @@
 "use client";
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import { Renderer, Program, Mesh, Triangle, Vec2 } from 'ogl';
+import { WebGLSupport } from '@/lib/webgl';
 import '@/styles/DarkVeil.css';
 
 const vertex = `
@@ -95,14 +96,21 @@ export default function DarkVeil({
   resolutionScale = 1
 }: Props) {
   const ref = useRef<HTMLCanvasElement>(null);
+  const [webglAvailable, setWebglAvailable] = useState(true);
   useEffect(() => {
-    const canvas = ref.current as HTMLCanvasElement;
+    const canvas = ref.current;
+    if (!canvas) return;
     const parent = canvas.parentElement as HTMLElement;
 
-    const renderer = new Renderer({
+    // ogl logs rather than throws when it gets no context, so check the context too
+    const renderer = WebGLSupport.tryCreate(() => new Renderer({
       dpr: Math.min(window.devicePixelRatio, 2),
       canvas
-    });
+    }));
+    if (!renderer?.gl) {
+      setWebglAvailable(false);
+      return;
+    }
 
     const gl = renderer.gl;
     const geometry = new Triangle(gl);
@@ -154,5 +162,12 @@ export default function DarkVeil({
       window.removeEventListener('resize', resize);
     };
   }, [hueShift, noiseIntensity, scanlineIntensity, speed, scanlineFrequency, warpAmount, resolutionScale]);
+  if (!webglAvailable) {
+    return (
+      <div className="darkveil-fallback">
+        <span className="darkveil-notice">Animated background needs WebGL</span>
+      </div>
+    );
+  }
   return <canvas ref={ref} className="darkveil-canvas" />;
 }
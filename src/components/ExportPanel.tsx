@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { FiDownload } from "react-icons/fi";
+import { AudioFile, AudioProcessingOptions, TimeRange } from "@/types/audio";
+import { audioUtils } from "@/lib/audio/audioUtils";
+import { renderWithOptions } from "@/lib/audio/offlineRender";
+import { WavEncoder, WavSampleFormat } from "@/lib/audio/wavEncoder";
+import "@/styles/ExportPanel.css";
+
+export interface ExportPanelProps {
+  audioFile: AudioFile;
+  /** Processing applied before encoding; fields the panel edits itself override these */
+  processingOptions?: Partial<AudioProcessingOptions>;
+  /** Show trim, fade and normalize controls in the panel */
+  showProcessingControls?: boolean;
+  /** Waveform selection; the trim range follows it, and it trims the export even without the controls */
+  selection?: TimeRange | null;
+  className?: string;
+}
+
+const FORMAT_LABELS: Record<WavSampleFormat, string> = {
+  pcm16: "16-bit PCM",
+  pcm24: "24-bit PCM",
+  float32: "32-bit float",
+};
+
+const SAMPLE_RATES = [22050, 44100, 48000, 88200, 96000];
+
+const exportFilename = (name: string, format: WavSampleFormat, sampleRate: number): string => {
+  const base = name.replace(/\.[^/.]+$/, "");
+  return `${base}-${FORMAT_LABELS[format].split(" ")[0]}-${sampleRate / 1000}k.wav`;
+};
+
+// Bounce the file through the offline render pipeline and download it as WAV
+export const ExportPanel: React.FC<ExportPanelProps> = ({
+  audioFile,
+  processingOptions = {},
+  showProcessingControls = true,
+  selection = null,
+  className = "",
+}) => {
+  const [format, setFormat] = useState<WavSampleFormat>("pcm16");
+  const [sampleRate, setSampleRate] = useState(audioFile.sampleRate);
+  const [dither, setDither] = useState(true);
+  const [normalize, setNormalize] = useState(processingOptions.normalize ?? false);
+  const [fadeIn, setFadeIn] = useState(processingOptions.fadeIn ?? 0);
+  const [fadeOut, setFadeOut] = useState(processingOptions.fadeOut ?? 0);
+  const [trimStart, setTrimStart] = useState(processingOptions.trim?.start ?? 0);
+  const [trimEnd, setTrimEnd] = useState(processingOptions.trim?.end ?? audioFile.duration);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new file resets the range and output rate to match it
+  useEffect(() => {
+    setSampleRate(audioFile.sampleRate);
+    setTrimStart(0);
+    setTrimEnd(audioFile.duration);
+    setError(null);
+  }, [audioFile]);
+
+  useEffect(() => {
+    setTrimStart(selection ? Math.round(selection.start * 1000) / 1000 : 0);
+    setTrimEnd(selection ? Math.round(selection.end * 1000) / 1000 : audioFile.duration);
+  }, [selection, audioFile.duration]);
+
+  const sampleRates = SAMPLE_RATES.includes(audioFile.sampleRate)
+    ? SAMPLE_RATES
+    : [...SAMPLE_RATES, audioFile.sampleRate].sort((a, b) => a - b);
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const options: Partial<AudioProcessingOptions> = showProcessingControls
+        ? { ...processingOptions, normalize, fadeIn, fadeOut, trim: { start: trimStart, end: trimEnd } }
+        : selection
+          ? { ...processingOptions, trim: { start: selection.start, end: selection.end } }
+          : processingOptions;
+      const rendered = await renderWithOptions(audioFile, options, { sampleRate });
+      const blob = WavEncoder.encodeBlob(rendered, { format, dither: dither && format !== "float32" });
+      audioUtils.downloadBlob(blob, exportFilename(audioFile.name, format, sampleRate));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [
+    audioFile,
+    processingOptions,
+    showProcessingControls,
+    selection,
+    normalize,
+    fadeIn,
+    fadeOut,
+    trimStart,
+    trimEnd,
+    sampleRate,
+    format,
+    dither,
+  ]);
+
+  return (
+    <div className={`export-panel ${className}`}>
+      <div className="export-header">
+        <span className="export-title">Export</span>
+      </div>
+
+      <div className="export-fields">
+        <label className="export-field">
+          <span className="export-label">Format</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value as WavSampleFormat)}>
+            {(Object.keys(FORMAT_LABELS) as WavSampleFormat[]).map((key) => (
+              <option key={key} value={key}>
+                {FORMAT_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="export-field">
+          <span className="export-label">Sample rate</span>
+          <select value={sampleRate} onChange={(e) => setSampleRate(Number(e.target.value))}>
+            {sampleRates.map((rate) => (
+              <option key={rate} value={rate}>
+                {(rate / 1000).toFixed(rate % 1000 === 0 ? 0 : 1)} kHz
+                {rate === audioFile.sampleRate ? " (source)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="export-checkbox">
+          <input
+            type="checkbox"
+            checked={dither && format !== "float32"}
+            disabled={format === "float32"}
+            onChange={(e) => setDither(e.target.checked)}
+          />
+          <span className="export-label">Dither</span>
+        </label>
+
+        {showProcessingControls && (
+          <>
+            <label className="export-field">
+              <span className="export-label">Trim start (s)</span>
+              <input
+                type="number"
+                min={0}
+                max={audioFile.duration}
+                step={0.01}
+                value={trimStart}
+                onChange={(e) => setTrimStart(Number(e.target.value))}
+              />
+            </label>
+            <label className="export-field">
+              <span className="export-label">Trim end (s)</span>
+              <input
+                type="number"
+                min={0}
+                max={audioFile.duration}
+                step={0.01}
+                value={trimEnd}
+                onChange={(e) => setTrimEnd(Number(e.target.value))}
+              />
+            </label>
+            <label className="export-field">
+              <span className="export-label">Fade in (s)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={fadeIn}
+                onChange={(e) => setFadeIn(Number(e.target.value))}
+              />
+            </label>
+            <label className="export-field">
+              <span className="export-label">Fade out (s)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={fadeOut}
+                onChange={(e) => setFadeOut(Number(e.target.value))}
+              />
+            </label>
+            <label className="export-checkbox">
+              <input type="checkbox" checked={normalize} onChange={(e) => setNormalize(e.target.checked)} />
+              <span className="export-label">Normalize</span>
+            </label>
+          </>
+        )}
+      </div>
+
+      {error && <div className="export-error">{error}</div>}
+
+      <button className="export-button" onClick={handleExport} disabled={isExporting}>
+        <FiDownload />
+        {isExporting ? "Rendering..." : "Export WAV"}
+      </button>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { FeatureTracks, ScalarFeatureTrack } from "@/types/audio";
+import "@/styles/FeatureTrackChart.css";
+
+export interface FeatureTrackChartProps {
+  tracks: FeatureTracks;
+  duration: number;
+  currentTime?: number;
+  initialFeature?: ScalarFeatureTrack;
+  color?: string;
+  onSeek?: (time: number) => void;
+  className?: string;
+}
+
+const FEATURE_LABELS: Record<ScalarFeatureTrack, { label: string; unit: string }> = {
+  centroid: { label: "Spectral Centroid", unit: "Hz" },
+  rolloff: { label: "Spectral Rolloff", unit: "Hz" },
+  flux: { label: "Spectral Flux", unit: "" },
+  rms: { label: "RMS", unit: "" },
+  zcr: { label: "Zero Crossing Rate", unit: "Hz" },
+};
+
+// Line chart of a single feature track over the whole file with a playhead
+export const FeatureTrackChart: React.FC<FeatureTrackChartProps> = ({
+  tracks,
+  duration,
+  currentTime = 0,
+  initialFeature = "centroid",
+  color = "#B19EEF",
+  onSeek,
+  className = "",
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [feature, setFeature] = useState<ScalarFeatureTrack>(initialFeature);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track the canvas' parent size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const parent = canvas?.parentElement;
+    if (!canvas || !parent) return;
+
+    const updateSize = () => {
+      setSize({ width: parent.clientWidth, height: parent.clientHeight });
+    };
+
+    updateSize();
+    const resizeObserver = new ResizeObserver(updateSize);
+    resizeObserver.observe(parent);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0 || size.height === 0) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const dpr = Math.max(1, window.devicePixelRatio || 1);
+    canvas.width = Math.floor(size.width * dpr);
+    canvas.height = Math.floor(size.height * dpr);
+    canvas.style.width = `${size.width}px`;
+    canvas.style.height = `${size.height}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    const values = tracks[feature];
+    if (values.length === 0 || duration <= 0) return;
+
+    let max = 0;
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] > max) max = values[i];
+    }
+    const scale = max > 0 ? (size.height - 4) / max : 0;
+
+    // Reduce to one min/max pair per pixel column so long files stay cheap to draw
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    const framesPerPixel = values.length / size.width;
+    for (let x = 0; x < size.width; x++) {
+      const start = Math.floor(x * framesPerPixel);
+      const end = Math.max(start + 1, Math.floor((x + 1) * framesPerPixel));
+      let lo = Infinity;
+      let hi = -Infinity;
+      for (let i = start; i < end && i < values.length; i++) {
+        if (values[i] < lo) lo = values[i];
+        if (values[i] > hi) hi = values[i];
+      }
+      if (hi === -Infinity) break;
+
+      const yHigh = size.height - 2 - hi * scale;
+      const yLow = size.height - 2 - lo * scale;
+      if (x === 0) ctx.moveTo(x, yHigh);
+      ctx.lineTo(x, yHigh);
+      ctx.lineTo(x, yLow);
+    }
+    ctx.stroke();
+
+    // Playhead
+    const playheadX = (currentTime / duration) * size.width;
+    ctx.strokeStyle = "#fff";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(playheadX, 0);
+    ctx.lineTo(playheadX, size.height);
+    ctx.stroke();
+  }, [tracks, feature, size, color, currentTime, duration]);
+
+  const handleClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek || duration <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const progress = (event.clientX - rect.left) / rect.width;
+    onSeek(Math.max(0, Math.min(progress * duration, duration)));
+  }, [onSeek, duration]);
+
+  return (
+    <div className={`feature-track-chart ${className}`}>
+      <div className="feature-track-header">
+        <select
+          className="feature-track-select"
+          value={feature}
+          onChange={(e) => setFeature(e.target.value as ScalarFeatureTrack)}
+        >
+          {(Object.keys(FEATURE_LABELS) as ScalarFeatureTrack[]).map((key) => (
+            <option key={key} value={key}>
+              {FEATURE_LABELS[key].label}
+            </option>
+          ))}
+        </select>
+        {FEATURE_LABELS[feature].unit && (
+          <span className="feature-track-unit">{FEATURE_LABELS[feature].unit}</span>
+        )}
+      </div>
+      <div className="feature-track-plot">
+        <canvas
+          ref={canvasRef}
+          className="feature-track-canvas"
+          onClick={handleClick}
+          style={{ cursor: onSeek ? "pointer" : "default" }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default FeatureTrackChart;
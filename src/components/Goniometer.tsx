@@ -0,0 +1,267 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { AudioFile, StereoMetrics, TimeRange } from "@/types/audio";
+import { ChannelAnalyzer } from "@/lib/audio/channelAnalysis";
+import "@/styles/Goniometer.css";
+
+export type GoniometerMode = "lissajous" | "polar";
+
+export interface GoniometerProps {
+  /** Live mode: any node carrying the stereo signal, tapped through a channel splitter into two analysers */
+  source?: AudioNode | null;
+  isPlaying?: boolean;
+  /** Static mode: plot the file's samples instead, over range when given */
+  audioFile?: AudioFile;
+  range?: TimeRange | null;
+  /** Lissajous draws every sample; polar folds them into the upper half-plane */
+  mode?: GoniometerMode;
+  className?: string;
+}
+
+// Samples per live frame, from each analyser
+const LIVE_FFT_SIZE = 2048;
+// Upper bound on points plotted in static mode; longer ranges are decimated
+const MAX_STATIC_POINTS = 40000;
+// Seconds for the live correlation reading to settle
+const CORRELATION_TIME_CONSTANT = 0.3;
+// Milliseconds between live readout updates; the plot itself redraws every frame
+const READOUT_INTERVAL = 100;
+// Fraction of the previous frame kept each live frame, for a phosphor-like trail
+const PERSISTENCE = 0.75;
+const INV_SQRT2 = Math.SQRT1_2;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatBalance = (balance: number) => {
+  if (Math.abs(balance) < 0.005) return "C";
+  return `${balance < 0 ? "L" : "R"}${Math.round(Math.abs(balance) * 100)}`;
+};
+
+/**
+ * Canvas-space position of a left/right sample pair. Mono sits on the vertical axis, left-only on the
+ * upper-left diagonal and right-only on the upper-right; polar folds the lower half up
+ */
+const plotPoint = (left: number, right: number, mode: GoniometerMode, radius: number, cx: number, cy: number): [number, number] => {
+  let x = (right - left) * INV_SQRT2;
+  let y = (left + right) * INV_SQRT2;
+  if (mode === "polar" && y < 0) {
+    x = -x;
+    y = -y;
+  }
+  return [cx + x * radius, cy - y * radius];
+};
+
+const drawGrid = (ctx: CanvasRenderingContext2D, size: number, mode: GoniometerMode) => {
+  const { cx, cy, radius } = geometry(size, mode);
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.12)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  if (mode === "polar") {
+    ctx.arc(cx, cy, radius, Math.PI, 0);
+    ctx.moveTo(cx - radius, cy);
+    ctx.lineTo(cx + radius, cy);
+  } else {
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.moveTo(cx - radius, cy);
+    ctx.lineTo(cx + radius, cy);
+    ctx.moveTo(cx, cy - radius);
+    ctx.lineTo(cx, cy + radius);
+  }
+  // L and R diagonals
+  const diagonal = radius * INV_SQRT2;
+  ctx.moveTo(cx, cy);
+  ctx.lineTo(cx - diagonal, cy - diagonal);
+  ctx.moveTo(cx, cy);
+  ctx.lineTo(cx + diagonal, cy - diagonal);
+  ctx.stroke();
+
+  ctx.fillStyle = "#9ca3af";
+  ctx.font = "10px 'Courier New', monospace";
+  ctx.textAlign = "center";
+  ctx.fillText("M", cx, cy - radius - 4);
+  ctx.fillText("L", cx - diagonal - 6, cy - diagonal - 4);
+  ctx.fillText("R", cx + diagonal + 6, cy - diagonal - 4);
+  if (mode === "lissajous") {
+    ctx.fillText("+S", cx - radius - 10, cy + 3);
+    ctx.fillText("−S", cx + radius + 10, cy + 3);
+  }
+};
+
+// Polar mode only needs the upper half, so its origin sits near the bottom edge
+const geometry = (size: number, mode: GoniometerMode) => {
+  const margin = 18;
+  if (mode === "polar") {
+    return { cx: size / 2, cy: size * 0.75, radius: Math.min(size / 2 - margin, size * 0.75 - margin) };
+  }
+  return { cx: size / 2, cy: size / 2, radius: size / 2 - margin };
+};
+
+// Size a square canvas for the device pixel ratio, returning a context in CSS pixels
+const prepareCanvas = (canvas: HTMLCanvasElement | null, size: number) => {
+  const ctx = canvas?.getContext("2d");
+  if (!canvas || !ctx || size === 0) return null;
+  const dpr = Math.max(1, window.devicePixelRatio || 1);
+  if (canvas.width !== size * dpr) {
+    canvas.width = size * dpr;
+    canvas.height = size * dpr;
+    canvas.style.width = `${size}px`;
+    canvas.style.height = `${size}px`;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  return ctx;
+};
+
+const CorrelationMeter: React.FC<{ metrics: StereoMetrics | null }> = ({ metrics }) => {
+  const correlation = metrics?.correlation ?? 0;
+  return (
+    <div className="goniometer-meter">
+      <div className="goniometer-meter-track">
+        <div className="goniometer-meter-centre" />
+        <div
+          className={`goniometer-meter-marker ${correlation < 0 ? "negative" : ""}`}
+          style={{ left: `${((correlation + 1) / 2) * 100}%`, opacity: metrics ? 1 : 0.3 }}
+        />
+      </div>
+      <div className="goniometer-meter-scale">
+        <span>−1</span>
+        <span>0</span>
+        <span>+1</span>
+      </div>
+      <div className="goniometer-readouts">
+        <span>Corr {metrics ? correlation.toFixed(2) : "—"}</span>
+        <span>Width {metrics ? formatPercent(metrics.width) : "—"}</span>
+        <span>Bal {metrics ? formatBalance(metrics.balance) : "—"}</span>
+      </div>
+    </div>
+  );
+};
+
+// Stereo field display: goniometer/vectorscope plus a phase correlation meter
+export const Goniometer: React.FC<GoniometerProps> = ({
+  source = null,
+  isPlaying = false,
+  audioFile,
+  range = null,
+  mode = "lissajous",
+  className = "",
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [size, setSize] = useState(0);
+  const [metrics, setMetrics] = useState<StereoMetrics | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => setSize(Math.floor(container.clientWidth));
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Static mode: every sample of the range (decimated), drawn once
+  useEffect(() => {
+    if (!audioFile) return;
+    const ctx = prepareCanvas(canvasRef.current, size);
+    if (!ctx) return;
+
+    const buffer = audioFile.audioBuffer;
+    const left = buffer.getChannelData(0);
+    const right = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : left;
+    const start = Math.max(0, Math.floor((range?.start ?? 0) * buffer.sampleRate));
+    const end = Math.min(buffer.length, Math.ceil((range?.end ?? buffer.duration) * buffer.sampleRate));
+    const step = Math.max(1, Math.floor((end - start) / MAX_STATIC_POINTS));
+    const { cx, cy, radius } = geometry(size, mode);
+
+    ctx.clearRect(0, 0, size, size);
+    drawGrid(ctx, size, mode);
+    ctx.fillStyle = "rgba(177, 158, 239, 0.25)";
+    for (let i = start; i < end; i += step) {
+      const [x, y] = plotPoint(left[i], right[i], mode, radius, cx, cy);
+      ctx.fillRect(x, y, 1, 1);
+    }
+
+    setMetrics(end > start ? ChannelAnalyzer.measureStereo(left.subarray(start, end), right.subarray(start, end)) : null);
+  }, [audioFile, range, mode, size]);
+
+  // Live mode: split the source into two analysers and plot each block of samples as it arrives
+  useEffect(() => {
+    if (audioFile || !source) return;
+    const context = source.context;
+
+    // Explicit stereo so a mono source is upmixed to both sides rather than leaving the right silent
+    const splitter = context.createChannelSplitter(2);
+    splitter.channelCount = 2;
+    splitter.channelCountMode = "explicit";
+    splitter.channelInterpretation = "speakers";
+    const leftAnalyser = context.createAnalyser();
+    const rightAnalyser = context.createAnalyser();
+    leftAnalyser.fftSize = LIVE_FFT_SIZE;
+    rightAnalyser.fftSize = LIVE_FFT_SIZE;
+    source.connect(splitter);
+    splitter.connect(leftAnalyser, 0);
+    splitter.connect(rightAnalyser, 1);
+
+    const left = new Float32Array(LIVE_FFT_SIZE);
+    const right = new Float32Array(LIVE_FFT_SIZE);
+    let correlation = 0;
+    let lastTime = performance.now();
+    let lastReadout = 0;
+    let frame = 0;
+
+    const loop = () => {
+      const ctx = prepareCanvas(canvasRef.current, size);
+      if (ctx) {
+        const { cx, cy, radius } = geometry(size, mode);
+        leftAnalyser.getFloatTimeDomainData(left);
+        rightAnalyser.getFloatTimeDomainData(right);
+
+        // Fade the previous frame instead of clearing it
+        ctx.fillStyle = `rgba(17, 17, 17, ${1 - PERSISTENCE})`;
+        ctx.fillRect(0, 0, size, size);
+        drawGrid(ctx, size, mode);
+        ctx.fillStyle = "rgba(177, 158, 239, 0.8)";
+        for (let i = 0; i < LIVE_FFT_SIZE; i++) {
+          const [x, y] = plotPoint(left[i], right[i], mode, radius, cx, cy);
+          ctx.fillRect(x, y, 1.5, 1.5);
+        }
+
+        const now = performance.now();
+        const block = ChannelAnalyzer.measureStereo(left, right);
+        const alpha = 1 - Math.exp(-(now - lastTime) / 1000 / CORRELATION_TIME_CONSTANT);
+        lastTime = now;
+        correlation += alpha * (block.correlation - correlation);
+        if (now - lastReadout >= READOUT_INTERVAL) {
+          lastReadout = now;
+          setMetrics({ ...block, correlation });
+        }
+      }
+      if (isPlaying) frame = requestAnimationFrame(loop);
+    };
+    loop();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      try {
+        source.disconnect(splitter);
+      } catch {
+        // Already disconnected when the source was torn down
+      }
+      splitter.disconnect();
+    };
+  }, [audioFile, source, isPlaying, mode, size]);
+
+  return (
+    <div className={`goniometer ${className}`}>
+      <div ref={containerRef} className={`goniometer-scope ${mode}`}>
+        <canvas ref={canvasRef} className="goniometer-canvas" />
+        {!audioFile && !source && <div className="goniometer-empty">Play audio to see the stereo field</div>}
+      </div>
+      <CorrelationMeter metrics={metrics} />
+    </div>
+  );
+};
+
+export default Goniometer;
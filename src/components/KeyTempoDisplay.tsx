@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { FiActivity, FiMusic } from "react-icons/fi";
+import { KeyEstimate, TagComparison } from "@/types/audio";
+import { BeatTracker } from "@/lib/audio/beatTracking";
+import { KeyDetector } from "@/lib/audio/keyDetection";
+import "@/styles/KeyTempoDisplay.css";
+
+export interface KeyTempoDisplayProps {
+  keyEstimate: KeyEstimate;
+  tempo: number;
+  tempoConfidence: number;
+  /** Key and BPM from the file's tags, compared against the detected values */
+  taggedKey?: string;
+  taggedBpm?: number;
+  className?: string;
+}
+
+const ConfidenceBar: React.FC<{ value: number }> = ({ value }) => (
+  <div className="confidence-bar" title={`${(value * 100).toFixed(0)}% confidence`}>
+    <div className="confidence-fill" style={{ width: `${Math.min(1, Math.max(0, value)) * 100}%` }} />
+  </div>
+);
+
+const TAG_COMPARISON_LABELS: Record<Exclude<TagComparison, "unknown">, string> = {
+  match: "matches tag",
+  related: "related to tag",
+  mismatch: "differs from tag",
+};
+
+const TagBadge: React.FC<{ comparison: TagComparison; tagged: string; relatedHint: string }> = ({
+  comparison,
+  tagged,
+  relatedHint,
+}) => {
+  if (comparison === "unknown") return null;
+  return (
+    <span
+      className={`tag-comparison tag-comparison-${comparison}`}
+      title={comparison === "related" ? relatedHint : undefined}
+    >
+      Tag: {tagged} · {TAG_COMPARISON_LABELS[comparison]}
+    </span>
+  );
+};
+
+// Detected key and tempo with how sure each detection is
+export const KeyTempoDisplay: React.FC<KeyTempoDisplayProps> = ({
+  keyEstimate,
+  tempo,
+  tempoConfidence,
+  taggedKey,
+  taggedBpm,
+  className = "",
+}) => {
+  const keyComparison = KeyDetector.compareWithTag(keyEstimate, taggedKey);
+  const tempoComparison = BeatTracker.compareWithTag(tempo, taggedBpm);
+
+  return (
+    <div className={`key-tempo-display ${className}`}>
+      <div className="key-tempo-item">
+        <FiMusic className="key-tempo-icon" />
+        <div className="key-tempo-body">
+          <div className="key-tempo-value">{keyEstimate.name}</div>
+          <div className="key-tempo-label">Key</div>
+          <ConfidenceBar value={keyEstimate.confidence} />
+          {taggedKey && (
+            <TagBadge comparison={keyComparison} tagged={taggedKey} relatedHint="Relative major/minor" />
+          )}
+          {keyEstimate.alternatives.length > 0 && (
+            <div className="key-alternatives">
+              {keyEstimate.alternatives.slice(0, 3).map((candidate) => (
+                <span key={`${candidate.tonic}-${candidate.mode}`} className="key-alternative">
+                  {candidate.tonic} {candidate.mode} ({candidate.correlation.toFixed(2)})
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="key-tempo-item">
+        <FiActivity className="key-tempo-icon" />
+        <div className="key-tempo-body">
+          <div className="key-tempo-value">{tempo > 0 ? `${tempo.toFixed(1)} BPM` : "—"}</div>
+          <div className="key-tempo-label">Tempo</div>
+          <ConfidenceBar value={tempoConfidence} />
+          {taggedBpm !== undefined && (
+            <TagBadge comparison={tempoComparison} tagged={`${taggedBpm} BPM`} relatedHint="Half or double time" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyTempoDisplay;
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { FiDatabase, FiPlay, FiSearch, FiTrash2 } from "react-icons/fi";
+import { AudioFile, WaveformData } from "@/types/audio";
+import { audioUtils } from "@/lib/audio/audioUtils";
+import { AudioLibraryStore } from "@/lib/audio/libraryStore";
+import { SessionLibrary } from "@/lib/audio/sessionLibrary";
+import { useLibraryRecords } from "@/hooks/useAudio";
+import "@/styles/LibraryBrowser.css";
+
+export interface LibraryBrowserProps {
+  onSelect: (audioFile: AudioFile) => void;
+  onError?: (error: string) => void;
+  className?: string;
+}
+
+const THUMBNAIL_POINTS = 120;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Mirrored envelope of the stored overview peaks, downsampled for a list row
+const PeakThumbnail: React.FC<{ peaks: WaveformData }> = ({ peaks }) => {
+  const path = useMemo(() => {
+    const channel = peaks.peaks[0];
+    if (!channel || channel.length === 0) return "";
+
+    const step = channel.length / THUMBNAIL_POINTS;
+    const top: string[] = [];
+    const bottom: string[] = [];
+    for (let i = 0; i < THUMBNAIL_POINTS; i++) {
+      let peak = 0;
+      for (let j = Math.floor(i * step); j < Math.floor((i + 1) * step); j++) {
+        peak = Math.max(peak, channel[j]);
+      }
+      top.push(`${i},${(1 - Math.min(1, peak)) * 10}`);
+      bottom.unshift(`${i},${(1 + Math.min(1, peak)) * 10}`);
+    }
+    return `M${top.join("L")}L${bottom.join("L")}Z`;
+  }, [peaks]);
+
+  return (
+    <svg className="library-thumbnail" viewBox={`0 0 ${THUMBNAIL_POINTS - 1} 20`} preserveAspectRatio="none">
+      <path d={path} />
+    </svg>
+  );
+};
+
+// Files kept in IndexedDB across reloads, searchable by file name and tags
+export const LibraryBrowser: React.FC<LibraryBrowserProps> = ({ onSelect, onError, className = "" }) => {
+  const { records, isLoading, error } = useLibraryRecords();
+  const [query, setQuery] = useState("");
+  const [openingHash, setOpeningHash] = useState<string | null>(null);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+
+  const visible = useMemo(() => AudioLibraryStore.filter(records, query), [records, query]);
+
+  useEffect(() => {
+    AudioLibraryStore.estimateUsage().then(setUsage).catch(() => setUsage(null));
+  }, [records]);
+
+  const openRecord = async (hash: string) => {
+    setOpeningHash(hash);
+    try {
+      const audioFile = await AudioLibraryStore.loadFile(hash);
+      SessionLibrary.getInstance().add(audioFile);
+      onSelect(audioFile);
+    } catch (err) {
+      onError?.(`Failed to open from library: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setOpeningHash(null);
+    }
+  };
+
+  const removeRecord = (hash: string) => {
+    AudioLibraryStore.remove(hash).catch(err =>
+      onError?.(`Failed to remove from library: ${err instanceof Error ? err.message : "Unknown error"}`)
+    );
+  };
+
+  const clearLibrary = () => {
+    if (!window.confirm("Remove every file and cached analysis from the local library?")) return;
+    AudioLibraryStore.clear().catch(err =>
+      onError?.(`Failed to clear the library: ${err instanceof Error ? err.message : "Unknown error"}`)
+    );
+  };
+
+  if (!AudioLibraryStore.isAvailable() || (!isLoading && records.length === 0 && !error)) return null;
+
+  return (
+    <div className={`library-browser ${className}`}>
+      <div className="library-header">
+        <span className="library-title">
+          <FiDatabase /> Local library
+        </span>
+        {usage && <span className="library-usage">{formatBytes(usage.usage)} used</span>}
+        {records.length > 0 && (
+          <button className="library-clear" onClick={clearLibrary}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <label className="library-search">
+        <FiSearch />
+        <input
+          type="search"
+          placeholder="Search by file name, title, artist or album"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </label>
+
+      {error && <span className="library-error">{error}</span>}
+      {isLoading && <span className="library-empty">Opening library...</span>}
+      {!isLoading && records.length > 0 && visible.length === 0 && (
+        <span className="library-empty">No stored files match “{query}”</span>
+      )}
+
+      <ul className="library-items">
+        {visible.map((record) => (
+          <li key={record.hash} className="library-item">
+            <PeakThumbnail peaks={record.peaks} />
+            <div className="library-item-text">
+              <span className="library-item-name">{record.title || record.name}</span>
+              <span className="library-item-details">
+                {[record.artist, record.album].filter(Boolean).join(" · ") || record.name}
+              </span>
+              <span className="library-item-details">
+                {audioUtils.formatTime(record.duration)} · {(record.sampleRate / 1000).toFixed(1)} kHz ·{" "}
+                {formatBytes(record.size)} · opened {new Date(record.lastOpenedAt).toLocaleDateString()}
+              </span>
+            </div>
+            <button
+              className="library-item-open"
+              onClick={() => openRecord(record.hash)}
+              disabled={openingHash !== null}
+              aria-label={`Open ${record.name}`}
+            >
+              {openingHash === record.hash ? <div className="library-spinner" /> : <FiPlay />}
+            </button>
+            <button
+              className="library-item-remove"
+              onClick={() => removeRecord(record.hash)}
+              disabled={openingHash === record.hash}
+              aria-label={`Remove ${record.name} from the library`}
+            >
+              <FiTrash2 />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LibraryBrowser;
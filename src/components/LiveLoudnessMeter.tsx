@@ -0,0 +1,300 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { FiRotateCcw } from "react-icons/fi";
+import { LiveLoudnessReading, LOUDNESS_TARGETS, LoudnessMonitor } from "@/lib/audio/loudnessMonitor";
+import "@/styles/LiveLoudnessMeter.css";
+
+export interface LiveLoudnessMeterProps {
+  /** Node on the playback path to meter; it keeps its other connections */
+  source?: AudioNode | null;
+  isPlaying?: boolean;
+  /** Id of the initially selected entry in LOUDNESS_TARGETS */
+  defaultTarget?: string;
+  className?: string;
+}
+
+// Readings arrive every 100 ms, so this is one minute of history
+const HISTORY_LENGTH = 600;
+const HISTORY_STEP_SECONDS = 0.1;
+const LUFS_FLOOR = -60;
+const LUFS_CEILING = 0;
+const HISTORY_FLOOR = -50;
+const PEAK_FLOOR = -60;
+const PEAK_CEILING = 3;
+// True peaks above this are likely to clip after lossy encoding
+const TRUE_PEAK_LIMIT = -1;
+
+const formatLevel = (value: number) => (Number.isFinite(value) ? value.toFixed(1) : "−∞");
+
+const fraction = (value: number, floor: number, ceiling: number) =>
+  Number.isFinite(value) ? Math.min(1, Math.max(0, (value - floor) / (ceiling - floor))) : 0;
+
+const maxOf = (values: number[]) => values.reduce((max, value) => Math.max(max, value), -Infinity);
+
+interface MeterBarProps {
+  label: string;
+  value: number;
+  floor: number;
+  ceiling: number;
+  target?: number;
+  hold?: number;
+  warnAbove?: number;
+}
+
+const MeterBar: React.FC<MeterBarProps> = ({ label, value, floor, ceiling, target, hold, warnAbove }) => (
+  <div className="loudness-bar">
+    <div className="loudness-bar-track">
+      <div
+        className={`loudness-bar-fill ${warnAbove !== undefined && value > warnAbove ? "over" : ""}`}
+        style={{ height: `${fraction(value, floor, ceiling) * 100}%` }}
+      />
+      {target !== undefined && (
+        <div className="loudness-bar-target" style={{ bottom: `${fraction(target, floor, ceiling) * 100}%` }} />
+      )}
+      {hold !== undefined && Number.isFinite(hold) && (
+        <div
+          className={`loudness-bar-hold ${warnAbove !== undefined && hold > warnAbove ? "over" : ""}`}
+          style={{ bottom: `${fraction(hold, floor, ceiling) * 100}%` }}
+        />
+      )}
+    </div>
+    <span className="loudness-bar-label">{label}</span>
+    <span className="loudness-bar-value">{formatLevel(value)}</span>
+  </div>
+);
+
+interface History {
+  momentary: Float32Array;
+  shortTerm: Float32Array;
+  count: number;
+}
+
+const createHistory = (): History => ({
+  momentary: new Float32Array(HISTORY_LENGTH),
+  shortTerm: new Float32Array(HISTORY_LENGTH),
+  count: 0,
+});
+
+const drawHistory = (canvas: HTMLCanvasElement, history: History, target: number) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const dpr = Math.max(1, window.devicePixelRatio || 1);
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (width === 0 || height === 0) return;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  const y = (lufs: number) => (1 - fraction(lufs, HISTORY_FLOOR, LUFS_CEILING)) * height;
+
+  ctx.font = "10px 'Courier New', monospace";
+  ctx.fillStyle = "#9ca3af";
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.08)";
+  ctx.lineWidth = 1;
+  for (let lufs = HISTORY_FLOOR + 10; lufs < LUFS_CEILING; lufs += 10) {
+    ctx.beginPath();
+    ctx.moveTo(0, y(lufs));
+    ctx.lineTo(width, y(lufs));
+    ctx.stroke();
+    ctx.fillText(`${lufs}`, 4, y(lufs) - 3);
+  }
+
+  ctx.strokeStyle = "rgba(82, 39, 255, 0.9)";
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  ctx.moveTo(0, y(target));
+  ctx.lineTo(width, y(target));
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Newest reading at the right edge, older ones scrolling left
+  const step = width / (HISTORY_LENGTH - 1);
+  const plot = (values: Float32Array, style: string, lineWidth: number) => {
+    ctx.strokeStyle = style;
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    let drawing = false;
+    for (let age = Math.min(history.count, HISTORY_LENGTH) - 1; age >= 0; age--) {
+      const value = values[(history.count - 1 - age) % HISTORY_LENGTH];
+      if (!Number.isFinite(value)) {
+        drawing = false;
+        continue;
+      }
+      const x = width - age * step;
+      if (drawing) ctx.lineTo(x, y(value));
+      else ctx.moveTo(x, y(value));
+      drawing = true;
+    }
+    ctx.stroke();
+  };
+  plot(history.momentary, "rgba(177, 158, 239, 0.4)", 1);
+  plot(history.shortTerm, "#B19EEF", 2);
+};
+
+// Live LUFS and peak metering with a scrolling loudness history and delivery target presets
+export const LiveLoudnessMeter: React.FC<LiveLoudnessMeterProps> = ({
+  source = null,
+  isPlaying = false,
+  defaultTarget = "streaming",
+  className = "",
+}) => {
+  const [monitor, setMonitor] = useState<LoudnessMonitor | null>(null);
+  const [reading, setReading] = useState<LiveLoudnessReading | null>(null);
+  const [truePeakHold, setTruePeakHold] = useState(-Infinity);
+  const [targetId, setTargetId] = useState(defaultTarget);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const historyRef = useRef<History>(createHistory());
+  const isPlayingRef = useRef(isPlaying);
+
+  useEffect(() => {
+    isPlayingRef.current = isPlaying;
+  }, [isPlaying]);
+
+  const target = LOUDNESS_TARGETS.find((preset) => preset.id === targetId) ?? LOUDNESS_TARGETS[0];
+  const context = source?.context ?? null;
+
+  // One worklet per audio context; playback sources come and go underneath it
+  useEffect(() => {
+    if (!context) return;
+    let cancelled = false;
+    let created: LoudnessMonitor | null = null;
+
+    LoudnessMonitor.create(context, (next) => {
+      setReading(next);
+      setTruePeakHold((hold) => Math.max(hold, maxOf(next.truePeak)));
+      // Only playback counts towards the history, so pauses don't flatten it
+      if (isPlayingRef.current) {
+        const history = historyRef.current;
+        const index = history.count % HISTORY_LENGTH;
+        history.momentary[index] = next.momentary;
+        history.shortTerm[index] = next.shortTerm;
+        history.count++;
+      }
+    })
+      .then((next) => {
+        if (cancelled) {
+          next.dispose();
+          return;
+        }
+        created = next;
+        setMonitor(next);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Live loudness metering is unavailable");
+      });
+
+    return () => {
+      cancelled = true;
+      created?.dispose();
+      setMonitor(null);
+    };
+  }, [context]);
+
+  useEffect(() => {
+    if (!monitor || !source) return;
+    monitor.connect(source);
+    return () => monitor.disconnect(source);
+  }, [monitor, source]);
+
+  useEffect(() => {
+    if (canvasRef.current) drawHistory(canvasRef.current, historyRef.current, target.lufs);
+  }, [reading, target.lufs]);
+
+  const reset = () => {
+    monitor?.reset();
+    historyRef.current = createHistory();
+    setReading(null);
+    setTruePeakHold(-Infinity);
+  };
+
+  const momentary = reading?.momentary ?? -Infinity;
+  const shortTerm = reading?.shortTerm ?? -Infinity;
+  const integrated = reading?.integrated ?? -Infinity;
+  const samplePeaks = reading?.samplePeak ?? [-Infinity, -Infinity];
+  const truePeaks = reading?.truePeak ?? [-Infinity, -Infinity];
+  const channelLabel = (channel: number) => (samplePeaks.length === 2 ? (channel === 0 ? "L" : "R") : `${channel + 1}`);
+  const offset = Number.isFinite(integrated) ? integrated - target.lufs : null;
+
+  return (
+    <div className={`live-loudness ${className}`}>
+      <div className="live-loudness-controls">
+        <label>
+          Target
+          <select value={target.id} onChange={(e) => setTargetId(e.target.value)}>
+            {LOUDNESS_TARGETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.label} ({preset.lufs} LUFS)
+              </option>
+            ))}
+          </select>
+        </label>
+        <button className="live-loudness-reset" onClick={reset} title="Reset integrated loudness and history">
+          <FiRotateCcw />
+          Reset
+        </button>
+      </div>
+
+      {error ? (
+        <div className="live-loudness-error">{error}</div>
+      ) : (
+        <div className="live-loudness-body">
+          <div className="live-loudness-bars">
+            <MeterBar label="M" value={momentary} floor={LUFS_FLOOR} ceiling={LUFS_CEILING} target={target.lufs} />
+            <MeterBar label="S" value={shortTerm} floor={LUFS_FLOOR} ceiling={LUFS_CEILING} target={target.lufs} />
+            <div className="live-loudness-divider" />
+            {samplePeaks.map((peak, channel) => (
+              <MeterBar key={`peak-${channel}`} label={`Pk ${channelLabel(channel)}`} value={peak} floor={PEAK_FLOOR} ceiling={PEAK_CEILING} warnAbove={0} />
+            ))}
+            {truePeaks.map((peak, channel) => (
+              <MeterBar
+                key={`tp-${channel}`}
+                label={`TP ${channelLabel(channel)}`}
+                value={peak}
+                floor={PEAK_FLOOR}
+                ceiling={PEAK_CEILING}
+                hold={truePeakHold}
+                warnAbove={TRUE_PEAK_LIMIT}
+              />
+            ))}
+          </div>
+
+          <div className="live-loudness-summary">
+            <div className="live-loudness-integrated">
+              <span className="live-loudness-number">{formatLevel(integrated)}</span>
+              <span className="live-loudness-unit">LUFS integrated</span>
+              {offset !== null && (
+                <span className={`live-loudness-offset ${Math.abs(offset) <= 1 ? "on-target" : ""}`}>
+                  {offset > 0 ? "+" : ""}
+                  {offset.toFixed(1)} LU vs target
+                </span>
+              )}
+            </div>
+            <dl className="live-loudness-stats">
+              <dt>Momentary</dt>
+              <dd>{formatLevel(momentary)} LUFS</dd>
+              <dt>Short-term</dt>
+              <dd>{formatLevel(shortTerm)} LUFS</dd>
+              <dt>Max true peak</dt>
+              <dd className={truePeakHold > TRUE_PEAK_LIMIT ? "over" : ""}>{formatLevel(truePeakHold)} dBTP</dd>
+            </dl>
+          </div>
+        </div>
+      )}
+
+      <div className="live-loudness-history">
+        <canvas ref={canvasRef} />
+        <span className="live-loudness-history-label">Last {Math.round(HISTORY_LENGTH * HISTORY_STEP_SECONDS)} s</span>
+      </div>
+      {!source && !error && <div className="live-loudness-empty">Play audio to start metering</div>}
+    </div>
+  );
+};
+
+export default LiveLoudnessMeter;
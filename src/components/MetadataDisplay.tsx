@@ -0,0 +1,163 @@
+"use client";
+
+import React from "react";
+import { FiBookmark, FiDisc, FiRadio } from "react-icons/fi";
+import { AudioMetadata } from "@/types/audio";
+import { audioUtils } from "@/lib/audio/audioUtils";
+import { useCoverArtUrl } from "@/hooks/useAudio";
+import "@/styles/MetadataDisplay.css";
+
+export interface MetadataDisplayProps {
+  metadata: AudioMetadata;
+  onSeek?: (time: number) => void;
+  className?: string;
+}
+
+const formatTimeReference = (samples: number, sampleRate: number): string => {
+  const totalSeconds = samples / sampleRate;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds
+    .toFixed(3)
+    .padStart(6, "0")}`;
+};
+
+// Embedded tags, cover art, broadcast-wave info and markers of the loaded file
+export const MetadataDisplay: React.FC<MetadataDisplayProps> = ({
+  metadata,
+  onSeek,
+  className = "",
+}) => {
+  const coverUrl = useCoverArtUrl(metadata.coverArt);
+  const { broadcast } = metadata;
+
+  const fields: Array<[string, string | undefined]> = [
+    ["Album", metadata.album],
+    ["Genre", metadata.genre],
+    ["Year", metadata.year],
+    ["Tagged BPM", metadata.bpm !== undefined ? metadata.bpm.toFixed(metadata.bpm % 1 === 0 ? 0 : 2) : undefined],
+    ["Tagged key", metadata.key],
+    ["ISRC", metadata.isrc],
+  ];
+  const presentFields = fields.filter(([, value]) => value);
+
+  if (metadata.sources.length === 0 && metadata.markers.length === 0) {
+    return (
+      <div className={`metadata-display ${className}`}>
+        <span className="metadata-title">Metadata</span>
+        <span className="metadata-empty">No embedded tags found</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`metadata-display ${className}`}>
+      <div className="metadata-header">
+        <span className="metadata-title">Metadata</span>
+        <span className="metadata-sources">{metadata.sources.join(" · ")}</span>
+      </div>
+
+      <div className="metadata-summary">
+        {coverUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img className="metadata-cover" src={coverUrl} alt={metadata.coverArt?.description || "Cover art"} />
+        ) : (
+          <div className="metadata-cover metadata-cover-placeholder">
+            <FiDisc />
+          </div>
+        )}
+        <div className="metadata-identity">
+          <div className="metadata-track-title">{metadata.title || "Untitled"}</div>
+          {metadata.artist && <div className="metadata-artist">{metadata.artist}</div>}
+          {metadata.comment && <div className="metadata-comment">{metadata.comment}</div>}
+        </div>
+      </div>
+
+      {presentFields.length > 0 && (
+        <div className="metadata-fields">
+          {presentFields.map(([label, value]) => (
+            <div key={label} className="metadata-field">
+              <span className="metadata-label">{label}</span>
+              <span className="metadata-value">{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {broadcast && (
+        <div className="metadata-section">
+          <div className="metadata-section-title">
+            <FiRadio /> Broadcast WAV
+          </div>
+          <div className="metadata-fields">
+            {broadcast.description && (
+              <div className="metadata-field">
+                <span className="metadata-label">Description</span>
+                <span className="metadata-value">{broadcast.description}</span>
+              </div>
+            )}
+            {broadcast.originator && (
+              <div className="metadata-field">
+                <span className="metadata-label">Originator</span>
+                <span className="metadata-value">{broadcast.originator}</span>
+              </div>
+            )}
+            {(broadcast.originationDate || broadcast.originationTime) && (
+              <div className="metadata-field">
+                <span className="metadata-label">Originated</span>
+                <span className="metadata-value">
+                  {broadcast.originationDate} {broadcast.originationTime}
+                </span>
+              </div>
+            )}
+            {broadcast.sampleRate > 0 && (
+              <div className="metadata-field">
+                <span className="metadata-label">Time reference</span>
+                <span className="metadata-value">
+                  {formatTimeReference(broadcast.timeReference, broadcast.sampleRate)}
+                </span>
+              </div>
+            )}
+            {broadcast.loudness && (
+              <div className="metadata-field">
+                <span className="metadata-label">Tagged loudness</span>
+                <span className="metadata-value">
+                  {broadcast.loudness.integrated.toFixed(1)} LUFS / {broadcast.loudness.maxTruePeak.toFixed(1)} dBTP
+                </span>
+              </div>
+            )}
+          </div>
+          {broadcast.codingHistory && <pre className="metadata-coding-history">{broadcast.codingHistory}</pre>}
+        </div>
+      )}
+
+      {metadata.markers.length > 0 && (
+        <div className="metadata-section">
+          <div className="metadata-section-title">
+            <FiBookmark /> Markers
+          </div>
+          <ul className="metadata-markers">
+            {metadata.markers.map((marker) => (
+              <li key={marker.id}>
+                <button
+                  className="metadata-marker"
+                  onClick={() => onSeek?.(marker.time)}
+                  disabled={!onSeek}
+                >
+                  <span className="metadata-marker-time">{audioUtils.formatTime(marker.time)}</span>
+                  <span className="metadata-marker-name">{marker.name}</span>
+                  {marker.duration !== undefined && (
+                    <span className="metadata-marker-duration">{marker.duration.toFixed(2)}s</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetadataDisplay;
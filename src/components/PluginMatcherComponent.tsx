@@ -163,6 +163,24 @@ export const PluginMatcherComponent: React.FC<PluginMatcherComponentProps> = ({
                 </div>
               </div>
             </div>
+
+            <div className="feature-group">
+              <h4>Rhythm Features</h4>
+              <div className="feature-items">
+                <div className="feature-item">
+                  <span className="feature-label">Tempo:</span>
+                  <span className="feature-value">{formatFeatureValue(features.rhythmFeatures.tempo, 1)} BPM</span>
+                </div>
+                <div className="feature-item">
+                  <span className="feature-label">Confidence:</span>
+                  <span className="feature-value">{formatFeatureValue(features.rhythmFeatures.tempoConfidence * 100, 0)}%</span>
+                </div>
+                <div className="feature-item">
+                  <span className="feature-label">Beats:</span>
+                  <span className="feature-value">{features.rhythmFeatures.beats.length}</span>
+                </div>
+              </div>
+            </div>
           </div>
         </div>
       )}
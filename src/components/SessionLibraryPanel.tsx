@@ -0,0 +1,94 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { FiMusic, FiTrash2 } from "react-icons/fi";
+import { AudioFile } from "@/types/audio";
+import { audioUtils } from "@/lib/audio/audioUtils";
+import { SessionLibrary } from "@/lib/audio/sessionLibrary";
+import { useBatchQueue, useSessionLibrary } from "@/hooks/useAudio";
+import "@/styles/SessionLibraryPanel.css";
+
+export interface SessionLibraryPanelProps {
+  activeFile?: AudioFile | null;
+  onSelect: (audioFile: AudioFile) => void;
+  onError?: (error: string) => void;
+  className?: string;
+}
+
+// Files loaded this session, on any page, ready to switch to; recently used ones skip re-decoding
+export const SessionLibraryPanel: React.FC<SessionLibraryPanelProps> = ({
+  activeFile = null,
+  onSelect,
+  onError,
+  className = "",
+}) => {
+  const { entries, open, remove, clear } = useSessionLibrary();
+  const { pending } = useBatchQueue();
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const activeId = activeFile ? SessionLibrary.entryId(activeFile) : null;
+
+  // Keeps the shown file decoded and its object URL alive
+  useEffect(() => {
+    const library = SessionLibrary.getInstance();
+    library.setActive(activeId);
+    return () => library.setActive(null);
+  }, [activeId]);
+
+  const select = async (id: string) => {
+    setOpeningId(id);
+    try {
+      onSelect(await open(id));
+    } catch (err) {
+      onError?.(`Failed to open from the session library: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  if (entries.length === 0 && pending === 0) return null;
+
+  return (
+    <div className={`session-library ${className}`}>
+      <div className="session-library-header">
+        <span className="session-library-title">Session library</span>
+        <span className="session-library-count">
+          {entries.length} {entries.length === 1 ? "file" : "files"}
+          {pending > 0 && ` · ${pending} loading`}
+        </span>
+        {entries.length > 0 && (
+          <button className="session-library-clear" onClick={clear}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <ul className="session-library-items">
+        {entries.map(({ id, name, title, duration, sampleRate, channels }) => (
+          <li key={id} className={`session-library-item ${id === activeId ? "active" : ""}`}>
+            <button
+              className="session-library-select"
+              onClick={() => select(id)}
+              disabled={id === activeId || openingId !== null}
+            >
+              {openingId === id ? <div className="session-library-spinner" /> : <FiMusic />}
+              <span className="session-library-name">{title || name}</span>
+              <span className="session-library-details">
+                {audioUtils.formatTime(duration)} · {(sampleRate / 1000).toFixed(1)} kHz ·{" "}
+                {channels === 1 ? "mono" : channels === 2 ? "stereo" : `${channels} ch`}
+              </span>
+            </button>
+            <button
+              className="session-library-remove"
+              onClick={() => remove(id)}
+              aria-label={`Remove ${name} from the library`}
+            >
+              <FiTrash2 />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionLibraryPanel;
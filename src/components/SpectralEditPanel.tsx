@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { FiCheck, FiEdit3, FiMove, FiSquare, FiTrash2, FiX } from "react-icons/fi";
+import { AudioFile } from "@/types/audio";
+import { AudioContextManager, audioUtils } from "@/lib/audio/audioUtils";
+import { AnalysisTask, AnalysisWorkerService, isAbortError } from "@/lib/audio/analysisWorkerService";
+import { FrequencyScale, FrequencyScaleUtils } from "@/lib/audio/frequencyScale";
+import { RegionUtils } from "@/lib/audio/regions";
+import { DEFAULT_SPECTROGRAM_OPTIONS } from "@/lib/audio/spectrogram";
+import { SpectralEdit, SpectralEditOperation, SpectralEditResult, SpectralEditor, SpectralShape } from "@/lib/audio/spectralEdit";
+import { SessionLibrary } from "@/lib/audio/sessionLibrary";
+import { WavEncoder } from "@/lib/audio/wavEncoder";
+import Spectrogram, { SpectrogramSelectionTool } from "./Spectrogram";
+import "@/styles/Spectrogram.css";
+import "@/styles/SpectralEditPanel.css";
+
+export interface SpectralEditPanelProps {
+  audioFile: AudioFile;
+  /** Receives the resynthesized file, which is also added to the session library */
+  onApply?: (audioFile: AudioFile) => void;
+  currentTime?: number;
+  className?: string;
+}
+
+const OPERATION_LABELS: Record<SpectralEditOperation, string> = {
+  attenuate: "Attenuate",
+  boost: "Boost",
+  erase: "Erase",
+};
+
+const describeShape = (shape: SpectralShape): string => {
+  const { start, end } = SpectralEditor.bounds(shape);
+  const frequencies = SpectralEditor.outline(shape).map((point) => point.frequency);
+  const low = FrequencyScaleUtils.formatFrequency(Math.min(...frequencies));
+  const high = FrequencyScaleUtils.formatFrequency(Math.max(...frequencies));
+  return `${start.toFixed(2)}–${end.toFixed(2)} s · ${low}–${high} Hz`;
+};
+
+// Wrap the resynthesized channels in a WAV-backed AudioFile the rest of the app can load
+const toAudioFile = (source: AudioFile, result: SpectralEditResult): AudioFile => {
+  const context = AudioContextManager.getInstance().getContext();
+  const audioBuffer = context.createBuffer(result.channels.length, result.channels[0].length, result.sampleRate);
+  result.channels.forEach((data, channel) => audioBuffer.copyToChannel(data, channel));
+
+  const bytes = WavEncoder.encode(audioBuffer, { format: "float32" });
+  const name = `${source.name.replace(/\.[^/.]+$/, "")}-spectral.wav`;
+  const file = new File([bytes], name, { type: "audio/wav", lastModified: Date.now() });
+  return audioUtils.createAudioFile(file, bytes, audioBuffer);
+};
+
+// Draw time-frequency shapes on the spectrogram, then attenuate, boost or erase what's inside them
+export const SpectralEditPanel: React.FC<SpectralEditPanelProps> = ({
+  audioFile,
+  onApply,
+  currentTime = 0,
+  className = "",
+}) => {
+  const [tool, setTool] = useState<SpectrogramSelectionTool | null>("rectangle");
+  const [operation, setOperation] = useState<SpectralEditOperation>("attenuate");
+  const [amountDb, setAmountDb] = useState(12);
+  const [frequencyScale, setFrequencyScale] = useState<FrequencyScale>("log");
+  const [edits, setEdits] = useState<SpectralEdit[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const taskRef = useRef<AnalysisTask<SpectralEditResult> | null>(null);
+
+  // Shapes belong to the file they were drawn on
+  useEffect(() => {
+    setEdits([]);
+    setSelectedId(null);
+    setError(null);
+    return () => {
+      taskRef.current?.cancel();
+      taskRef.current = null;
+    };
+  }, [audioFile]);
+
+  const selected = edits.find((edit) => edit.id === selectedId) ?? null;
+
+  // The operation and amount controls edit the selected shape, or set up the next one
+  const updateOperation = (next: SpectralEditOperation) => {
+    setOperation(next);
+    if (selected) setEdits((current) => current.map((edit) => (edit.id === selected.id ? { ...edit, operation: next } : edit)));
+  };
+
+  const updateAmount = (next: number) => {
+    setAmountDb(next);
+    if (selected) setEdits((current) => current.map((edit) => (edit.id === selected.id ? { ...edit, amountDb: next } : edit)));
+  };
+
+  const selectEdit = (edit: SpectralEdit) => {
+    setSelectedId(edit.id);
+    setOperation(edit.operation);
+    setAmountDb(edit.amountDb);
+  };
+
+  const addEdit = (shape: SpectralShape) => {
+    const edit: SpectralEdit = { id: RegionUtils.createId("spectral"), shape, operation, amountDb };
+    setEdits((current) => [...current, edit]);
+    setSelectedId(edit.id);
+  };
+
+  const removeEdit = (id: string) => {
+    setEdits((current) => current.filter((edit) => edit.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleApply = () => {
+    if (edits.length === 0 || taskRef.current) return;
+    setError(null);
+    setProgress(0);
+
+    const task = AnalysisWorkerService.applySpectralEdits(audioFile.audioBuffer, edits, DEFAULT_SPECTROGRAM_OPTIONS, {
+      onProgress: (value) => setProgress(value),
+    });
+    taskRef.current = task;
+    task.promise
+      .then((result) => {
+        const edited = toAudioFile(audioFile, result);
+        SessionLibrary.getInstance().add(edited);
+        onApply?.(edited);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : "Resynthesis failed");
+      })
+      .finally(() => {
+        if (taskRef.current === task) taskRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  const handleCancel = () => {
+    taskRef.current?.cancel();
+    taskRef.current = null;
+    setProgress(null);
+  };
+
+  return (
+    <div className={`spectral-edit-panel ${className}`}>
+      <div className="spectral-edit-header">
+        <span className="spectral-edit-title">Spectral editing</span>
+        <div className="spectral-edit-tools" role="group" aria-label="Drawing tool">
+          <button className={tool === null ? "active" : ""} onClick={() => setTool(null)} title="Pan and zoom">
+            <FiMove />
+          </button>
+          <button className={tool === "rectangle" ? "active" : ""} onClick={() => setTool("rectangle")} title="Rectangle">
+            <FiSquare />
+          </button>
+          <button className={tool === "lasso" ? "active" : ""} onClick={() => setTool("lasso")} title="Lasso">
+            <FiEdit3 />
+          </button>
+        </div>
+        <label>
+          Operation
+          <select value={operation} onChange={(e) => updateOperation(e.target.value as SpectralEditOperation)}>
+            {(Object.keys(OPERATION_LABELS) as SpectralEditOperation[]).map((key) => (
+              <option key={key} value={key}>{OPERATION_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Amount
+          <input
+            type="range"
+            min={1}
+            max={40}
+            value={amountDb}
+            disabled={operation === "erase"}
+            onChange={(e) => updateAmount(Number(e.target.value))}
+          />
+          <span className="spectral-edit-value">{operation === "erase" ? "−∞" : `${operation === "boost" ? "+" : "−"}${amountDb}`} dB</span>
+        </label>
+        <label>
+          Scale
+          <select value={frequencyScale} onChange={(e) => setFrequencyScale(e.target.value as FrequencyScale)}>
+            <option value="linear">Linear</option>
+            <option value="log">Log</option>
+            <option value="mel">Mel</option>
+            <option value="bark">Bark</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="spectral-edit-canvas">
+        <Spectrogram
+          audioFile={audioFile}
+          currentTime={currentTime}
+          frequencyScale={frequencyScale}
+          selectionTool={tool}
+          onShapeDrawn={addEdit}
+          spectralEdits={edits}
+          selectedEditId={selectedId}
+        />
+      </div>
+
+      {edits.length > 0 && (
+        <ul className="spectral-edit-list">
+          {edits.map((edit, index) => (
+            <li key={edit.id} className={edit.id === selectedId ? "selected" : ""}>
+              <button className="spectral-edit-select" onClick={() => selectEdit(edit)}>
+                <span className={`spectral-edit-swatch ${edit.operation}`} />
+                #{index + 1} {OPERATION_LABELS[edit.operation]}
+                {edit.operation !== "erase" && ` ${edit.operation === "boost" ? "+" : "−"}${edit.amountDb} dB`}
+                <span className="spectral-edit-details">{describeShape(edit.shape)}</span>
+              </button>
+              <button className="spectral-edit-remove" onClick={() => removeEdit(edit.id)} aria-label="Remove shape">
+                <FiX />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <div className="spectral-edit-error">{error}</div>}
+
+      <div className="spectral-edit-actions">
+        {progress === null ? (
+          <button className="spectral-edit-apply" onClick={handleApply} disabled={edits.length === 0}>
+            <FiCheck />
+            Apply {edits.length > 0 ? `${edits.length} ${edits.length === 1 ? "edit" : "edits"}` : ""}
+          </button>
+        ) : (
+          <>
+            <span className="spectral-edit-progress">Resynthesizing {Math.round(progress * 100)}%</span>
+            <button className="spectral-edit-clear" onClick={handleCancel}>
+              Cancel
+            </button>
+          </>
+        )}
+        {edits.length > 0 && progress === null && (
+          <button className="spectral-edit-clear" onClick={() => { setEdits([]); setSelectedId(null); }}>
+            <FiTrash2 />
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpectralEditPanel;
@@ -1,20 +1,144 @@
 "use client";
 
-import React, { useEffect, useRef } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { AudioFile, TimeView } from "@/types/audio";
+import { WindowType } from "@/lib/audio/fft";
+import { AnalysisWorkerService, isAbortError } from "@/lib/audio/analysisWorkerService";
+import {
+  DEFAULT_SPECTROGRAM_OPTIONS,
+  SpectrogramAnalyzer,
+  SpectrogramColormap,
+  SpectrogramData,
+} from "@/lib/audio/spectrogram";
+import { TimeViewUtils } from "@/lib/audio/timeView";
+import { FrequencyScale, FrequencyScaleUtils } from "@/lib/audio/frequencyScale";
+import { SpectralEdit, SpectralEditor, SpectralPoint, SpectralShape } from "@/lib/audio/spectralEdit";
 import "../styles/Spectrogram.css";
 
+export type SpectrogramSelectionTool = "rectangle" | "lasso";
+
 export interface SpectrogramProps {
-  analyser: AnalyserNode | null;
-  isPlaying: boolean;
+  /** Live mode: scroll the analyser's spectrum while audio plays */
+  analyser?: AnalyserNode | null;
+  isPlaying?: boolean;
+  /** File mode: render the whole file's STFT at once instead of scrolling live */
+  audioFile?: AudioFile;
+  fftSize?: number;
+  /** Fraction of each frame shared with the next */
+  overlap?: number;
+  window?: WindowType;
+  colormap?: SpectrogramColormap;
+  /** Playhead position in file mode, in seconds */
+  currentTime?: number;
+  /** Visible range in file mode; pass with onViewChange to zoom and pan in step with the waveform */
+  view?: TimeView;
+  onViewChange?: (view: TimeView) => void;
+  /** How rows map to frequency */
+  frequencyScale?: FrequencyScale;
+  /** Levels mapped to the bottom and top of the colormap; live mode defaults to the analyser's range */
+  minDb?: number;
+  maxDb?: number;
+  /** Frequency (and, in file mode, time) labels plus the hover readout */
+  showAxes?: boolean;
+  /** File mode: drag draws a time-frequency shape instead of panning; Alt-drag still pans */
+  selectionTool?: SpectrogramSelectionTool | null;
+  onShapeDrawn?: (shape: SpectralShape) => void;
+  /** File mode: shapes to outline over the spectrogram */
+  spectralEdits?: SpectralEdit[];
+  selectedEditId?: string | null;
   width?: number; // optional fixed width; otherwise fills parent
   height?: number; // optional fixed height; otherwise fills parent
   className?: string;
 }
 
+interface Readout {
+  frequency: number;
+  level: number;
+  time?: number;
+}
+
+// Labels closer than this (as a fraction of the axis) to the previous one are dropped
+const MIN_TICK_SPACING = 0.07;
+
+/**
+ * For each pixel row, top to bottom, the FFT bins [low, high) it covers on the given scale
+ */
+const rowBinRanges = (rows: number, binCount: number, sampleRate: number, scale: FrequencyScale) => {
+  const bands = FrequencyScaleUtils.bandBins(rows, binCount, sampleRate, scale);
+  return { low: bands.low.reverse(), high: bands.high.reverse() };
+};
+
+const formatTimeTick = (seconds: number, step: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  const decimals = step >= 1 ? 0 : step >= 0.1 ? 1 : 2;
+  const text = rest.toFixed(decimals).padStart(decimals > 0 ? decimals + 3 : 2, "0");
+  return `${minutes}:${text}`;
+};
+
+const FrequencyAxis: React.FC<{ scale: FrequencyScale; sampleRate: number }> = ({ scale, sampleRate }) => {
+  const nyquist = sampleRate / 2;
+  const minHz = FrequencyScaleUtils.minFrequency(scale);
+  let previous = -1;
+  const ticks = FrequencyScaleUtils.ticks(scale, Math.max(minHz, 1), nyquist)
+    .map((hz) => ({ hz, position: FrequencyScaleUtils.position(hz, scale, minHz, nyquist) }))
+    .filter(({ position }) => {
+      if (position < 0.02 || position > 0.98 || position - previous < MIN_TICK_SPACING) return false;
+      previous = position;
+      return true;
+    });
+
+  return (
+    <div className="spectrogram-axis frequency">
+      {ticks.map(({ hz, position }) => (
+        <span key={hz} style={{ bottom: `${position * 100}%` }}>
+          {FrequencyScaleUtils.formatFrequency(hz)}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const TimeAxis: React.FC<{ view: TimeView; pixelWidth: number }> = ({ view, pixelWidth }) => {
+  const rough = view.duration / Math.max(2, Math.floor(pixelWidth / 90));
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let time = Math.ceil(view.start / step) * step; time <= view.start + view.duration; time += step) {
+    ticks.push(time);
+  }
+
+  return (
+    <div className="spectrogram-axis time">
+      {ticks.map((time) => (
+        <span key={time} style={{ left: `${((time - view.start) / view.duration) * 100}%` }}>
+          {formatTimeTick(time, step)}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const ReadoutBox: React.FC<{ readout: Readout }> = ({ readout }) => {
+  const note = FrequencyScaleUtils.noteName(readout.frequency);
+  return (
+    <div className="spectrogram-readout">
+      {readout.time !== undefined && <span>{readout.time.toFixed(3)} s</span>}
+      <span>{readout.frequency >= 1000 ? `${(readout.frequency / 1000).toFixed(2)} kHz` : `${Math.round(readout.frequency)} Hz`}</span>
+      {note && <span>{note.name} {note.cents >= 0 ? "+" : ""}{note.cents}¢</span>}
+      <span>{Number.isFinite(readout.level) ? `${readout.level.toFixed(1)} dB` : "−∞ dB"}</span>
+    </div>
+  );
+};
+
 // Simple real-time spectrogram that scrolls left and draws new frequency column at the right
-export const Spectrogram: React.FC<SpectrogramProps> = ({
-  analyser,
-  isPlaying,
+const LiveSpectrogram: React.FC<SpectrogramProps> = ({
+  analyser = null,
+  isPlaying = false,
+  frequencyScale = "linear",
+  minDb,
+  maxDb,
+  showAxes = true,
   width,
   height,
   className = "",
@@ -22,6 +146,8 @@ export const Spectrogram: React.FC<SpectrogramProps> = ({
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const rafRef = useRef<number | null>(null);
   const freqDataRef = useRef<Float32Array | null>(null);
+  const rowBinsRef = useRef<{ key: string; low: Int32Array } | null>(null);
+  const [readout, setReadout] = useState<Readout | null>(null);
 
   // Resize canvas to parent size if width/height not provided
   useEffect(() => {
@@ -77,19 +203,26 @@ export const Spectrogram: React.FC<SpectrogramProps> = ({
       const data = freqDataRef.current as Float32Array;
 
       const bins = data.length;
+      const floorDb = minDb ?? analyser.minDecibels ?? -100;
+      const ceilingDb = maxDb ?? analyser.maxDecibels ?? -30;
 
       if (isPlaying) {
+        // Row-to-bin table for the chosen frequency scale, rebuilt when the canvas or scale changes
+        const sampleRate = analyser.context.sampleRate;
+        const key = `${canvas.height}:${bins}:${sampleRate}:${frequencyScale}`;
+        if (rowBinsRef.current?.key !== key) {
+          rowBinsRef.current = { key, low: rowBinRanges(canvas.height, bins, sampleRate, frequencyScale).low };
+        }
+        const rowBins = rowBinsRef.current.low;
+
         // Draw just the new column at the right edge for scrolling effect
         const colX = canvas.width - 1;
         for (let y = 0; y < canvas.height; y++) {
-          // Invert so low frequencies at the bottom, highs at the top
-          const t = 1 - y / (canvas.height - 1);
-          const bin = Math.min(bins - 1, Math.floor(t * bins));
-          // data are decibels (negative values). Map to 0..1 based on analyser's range
+          // Rows run top to bottom, so low frequencies land at the bottom
+          const bin = rowBins[y];
+          // data are decibels (negative values). Map to 0..1 based on the display range
           const vDb = data[bin];
-          const minDb = analyser.minDecibels ?? -100;
-          const maxDb = analyser.maxDecibels ?? -30;
-          const norm = Math.min(1, Math.max(0, (vDb - minDb) / (maxDb - minDb)));
+          const norm = Math.min(1, Math.max(0, (vDb - floorDb) / (ceilingDb - floorDb)));
 
         // Enhanced color mapping for better visibility
         // Use a jet-like colormap (blue -> cyan -> green -> yellow -> red)
@@ -135,11 +268,9 @@ export const Spectrogram: React.FC<SpectrogramProps> = ({
         const barWidth = Math.max(1, Math.floor(canvas.width / bins));
         
         for (let bin = 0; bin < bins; bin++) {
-          // data are decibels (negative values). Map to 0..1 based on analyser's range
+          // data are decibels (negative values). Map to 0..1 based on the display range
           const vDb = data[bin];
-          const minDb = analyser.minDecibels ?? -100;
-          const maxDb = analyser.maxDecibels ?? -30;
-          const norm = Math.min(1, Math.max(0, (vDb - minDb) / (maxDb - minDb)));
+          const norm = Math.min(1, Math.max(0, (vDb - floorDb) / (ceilingDb - floorDb)));
           
           // Enhanced color mapping for better visibility
           let r, g, b;
@@ -195,11 +326,30 @@ export const Spectrogram: React.FC<SpectrogramProps> = ({
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
       rafRef.current = null;
     }
-  }, [analyser, isPlaying]);
+  }, [analyser, isPlaying, frequencyScale, minDb, maxDb]);
+
+  // Read the latest frame under the cursor
+  const handleHover = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const data = freqDataRef.current;
+    if (!showAxes || !analyser || !data) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const nyquist = analyser.context.sampleRate / 2;
+    const position = 1 - (event.clientY - rect.top) / rect.height;
+    const frequency = FrequencyScaleUtils.frequencyAt(position, frequencyScale, FrequencyScaleUtils.minFrequency(frequencyScale), nyquist);
+    const bin = Math.min(data.length - 1, Math.max(0, Math.round((frequency / nyquist) * data.length)));
+    setReadout({ frequency, level: data[bin] });
+  };
 
   return (
     <div className={`spectrogram-container ${className}`}>
-      <canvas ref={canvasRef} className="spectrogram-canvas" />
+      <canvas
+        ref={canvasRef}
+        className="spectrogram-canvas"
+        onPointerMove={handleHover}
+        onPointerLeave={() => setReadout(null)}
+      />
+      {showAxes && analyser && <FrequencyAxis scale={frequencyScale} sampleRate={analyser.context.sampleRate} />}
+      {readout && <ReadoutBox readout={readout} />}
       <div className="spectrogram-label">
         {analyser ? (
           <span className="spectrogram-status status-active"></span>
@@ -211,4 +361,347 @@ export const Spectrogram: React.FC<SpectrogramProps> = ({
   );
 };
 
+// Frames sampled per column (and bins per row) when zoomed out far enough that several share a pixel
+const MAX_CELLS_PER_PIXEL = 8;
+const DRAG_THRESHOLD = 3;
+// Deepest zoom, in screen pixels per STFT frame
+const MAX_PIXELS_PER_FRAME = 8;
+const DEFAULT_FILE_MIN_DB = -100;
+const DEFAULT_FILE_MAX_DB = 0;
+// Lasso points closer than this, in CSS pixels, to the previous one are skipped
+const LASSO_POINT_SPACING = 3;
+
+// Whole-file STFT computed off the main thread, drawn for the visible time range
+const FileSpectrogram: React.FC<SpectrogramProps & { audioFile: AudioFile }> = ({
+  audioFile,
+  fftSize = DEFAULT_SPECTROGRAM_OPTIONS.fftSize,
+  overlap = DEFAULT_SPECTROGRAM_OPTIONS.overlap,
+  window: windowType = DEFAULT_SPECTROGRAM_OPTIONS.window,
+  colormap = "magma",
+  currentTime = 0,
+  view: controlledView,
+  onViewChange,
+  frequencyScale = "linear",
+  minDb = DEFAULT_FILE_MIN_DB,
+  maxDb = DEFAULT_FILE_MAX_DB,
+  showAxes = true,
+  selectionTool = null,
+  onShapeDrawn,
+  spectralEdits = [],
+  selectedEditId = null,
+  width,
+  height,
+  className = "",
+}) => {
+  const [readout, setReadout] = useState<Readout | null>(null);
+  const [draft, setDraft] = useState<SpectralShape | null>(null);
+  const drawRef = useRef<{ pointerId: number; origin: SpectralPoint; points: SpectralPoint[] } | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [spectrogram, setSpectrogram] = useState<SpectrogramData | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [size, setSize] = useState({ width: width ?? 0, height: height ?? 0 });
+  const [internalView, setInternalView] = useState<TimeView>(TimeViewUtils.full(audioFile.duration));
+  const view = controlledView ?? internalView;
+  const viewRef = useRef(view);
+  const dragRef = useRef<{ pointerId: number; startX: number; startView: TimeView; moved: boolean } | null>(null);
+  const totalDuration = audioFile.duration;
+
+  viewRef.current = view;
+
+  useEffect(() => {
+    setInternalView(TimeViewUtils.full(audioFile.duration));
+  }, [audioFile]);
+
+  // Recompute whenever the file or the analysis settings change; a new job cancels the old one
+  useEffect(() => {
+    setSpectrogram(null);
+    setError(null);
+    setProgress(0);
+
+    const task = AnalysisWorkerService.computeSpectrogram(
+      audioFile.audioBuffer,
+      { fftSize, overlap, window: windowType },
+      { onProgress: (value) => setProgress(value) }
+    );
+    task.promise
+      .then((result) => {
+        setSpectrogram(result);
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : "Spectrogram failed");
+        setProgress(null);
+      });
+
+    return () => task.cancel();
+  }, [audioFile, fftSize, overlap, windowType]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateSize = () => {
+      setSize({ width: width ?? container.clientWidth, height: height ?? container.clientHeight });
+    };
+    updateSize();
+
+    const observer = new ResizeObserver(updateSize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [width, height]);
+
+  const minViewDuration = useCallback(() => {
+    const secondsPerFrame = (spectrogram?.hopSize ?? fftSize / 4) / audioFile.sampleRate;
+    return Math.min(totalDuration, (Math.max(1, size.width) / MAX_PIXELS_PER_FRAME) * secondsPerFrame);
+  }, [spectrogram, fftSize, audioFile.sampleRate, totalDuration, size.width]);
+
+  const updateView = useCallback((next: TimeView) => {
+    const clamped = TimeViewUtils.clamp(next, totalDuration, minViewDuration());
+    viewRef.current = clamped;
+    setInternalView(clamped);
+    onViewChange?.(clamped);
+  }, [totalDuration, minViewDuration, onViewChange]);
+
+  // Draw the visible frames, taking the loudest cell wherever several land on one pixel
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !spectrogram || size.width === 0 || size.height === 0) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const dpr = Math.max(1, window.devicePixelRatio || 1);
+    const pixelWidth = Math.max(1, Math.floor(size.width * dpr));
+    const pixelHeight = Math.max(1, Math.floor(size.height * dpr));
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    canvas.style.width = `${size.width}px`;
+    canvas.style.height = `${size.height}px`;
+
+    const { data, binCount, frameCount } = spectrogram;
+    const lut = SpectrogramAnalyzer.colormapLut(colormap);
+    const image = ctx.createImageData(pixelWidth, pixelHeight);
+    const pixels = image.data;
+
+    // Row y covers bins [rowLow[y], rowHigh[y]), low frequencies at the bottom
+    const { low: rowLow, high: rowHigh } = rowBinRanges(pixelHeight, binCount, spectrogram.sampleRate, frequencyScale);
+
+    // Stretch the display range over the whole colormap
+    const levels = new Uint8Array(256);
+    const range = Math.max(1, maxDb - minDb);
+    for (let i = 0; i < 256; i++) {
+      const db = SpectrogramAnalyzer.toDb(spectrogram, i);
+      levels[i] = Math.round(Math.min(1, Math.max(0, (db - minDb) / range)) * 255);
+    }
+
+    for (let x = 0; x < pixelWidth; x++) {
+      const t0 = view.start + (x / pixelWidth) * view.duration;
+      const t1 = view.start + ((x + 1) / pixelWidth) * view.duration;
+      const firstFrame = Math.max(0, SpectrogramAnalyzer.frameAt(spectrogram, t0));
+      const lastFrame = Math.min(frameCount, Math.max(firstFrame + 1, SpectrogramAnalyzer.frameAt(spectrogram, t1)));
+      if (firstFrame >= frameCount || t0 > spectrogram.duration) continue;
+      const frameStep = Math.max(1, Math.ceil((lastFrame - firstFrame) / MAX_CELLS_PER_PIXEL));
+
+      for (let y = 0; y < pixelHeight; y++) {
+        const low = rowLow[y];
+        const high = rowHigh[y];
+        const binStep = Math.max(1, Math.ceil((high - low) / MAX_CELLS_PER_PIXEL));
+        let value = 0;
+        for (let frame = firstFrame; frame < lastFrame; frame += frameStep) {
+          const offset = frame * binCount;
+          for (let bin = low; bin < high; bin += binStep) {
+            const cell = data[offset + bin];
+            if (cell > value) value = cell;
+          }
+        }
+        const pixel = (y * pixelWidth + x) * 4;
+        const level = levels[value] * 4;
+        pixels[pixel] = lut[level];
+        pixels[pixel + 1] = lut[level + 1];
+        pixels[pixel + 2] = lut[level + 2];
+        pixels[pixel + 3] = 255;
+      }
+    }
+
+    ctx.putImageData(image, 0, 0);
+  }, [spectrogram, size, view, colormap, frequencyScale, minDb, maxDb]);
+
+  // Wheel zooms around the cursor, shift or horizontal wheel pans
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchor = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+      updateView(TimeViewUtils.zoomFromWheel(viewRef.current, event, anchor, rect.width, totalDuration, minViewDuration()));
+    };
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [totalDuration, minViewDuration, updateView]);
+
+  const nyquist = (spectrogram?.sampleRate ?? audioFile.sampleRate) / 2;
+  const minHz = FrequencyScaleUtils.minFrequency(frequencyScale);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>): SpectralPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    return {
+      time: view.start + x * view.duration,
+      frequency: FrequencyScaleUtils.frequencyAt(1 - y, frequencyScale, minHz, nyquist),
+    };
+  };
+
+  const toScreen = (point: SpectralPoint) => ({
+    x: ((point.time - view.start) / view.duration) * size.width,
+    y: (1 - FrequencyScaleUtils.position(Math.max(minHz, point.frequency), frequencyScale, minHz, nyquist)) * size.height,
+  });
+
+  const draftShape = (origin: SpectralPoint, points: SpectralPoint[]): SpectralShape => {
+    if (selectionTool === "lasso") return { kind: "lasso", points, scale: frequencyScale };
+    const corner = points[points.length - 1];
+    return {
+      kind: "rectangle",
+      start: Math.min(origin.time, corner.time),
+      end: Math.max(origin.time, corner.time),
+      lowHz: Math.min(origin.frequency, corner.frequency),
+      highHz: Math.max(origin.frequency, corner.frequency),
+    };
+  };
+
+  const finishDrawing = (commit: boolean) => {
+    const drawing = drawRef.current;
+    drawRef.current = null;
+    setDraft(null);
+    if (!commit || !drawing) return;
+
+    const shape = draftShape(drawing.origin, drawing.points);
+    const outline = SpectralEditor.outline(shape).map(toScreen);
+    const xs = outline.map((point) => point.x);
+    const ys = outline.map((point) => point.y);
+    const large = Math.max(...xs) - Math.min(...xs) >= DRAG_THRESHOLD && Math.max(...ys) - Math.min(...ys) >= DRAG_THRESHOLD;
+    if (large && (shape.kind === "rectangle" || shape.points.length >= 3)) onShapeDrawn?.(shape);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    if (selectionTool && !event.altKey) {
+      const origin = pointAt(event);
+      drawRef.current = { pointerId: event.pointerId, origin, points: [origin] };
+      return;
+    }
+    dragRef.current = { pointerId: event.pointerId, startX: event.clientX, startView: viewRef.current, moved: false };
+  };
+
+  // Time, frequency and level of the cell under the cursor
+  const updateReadout = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!showAxes || !spectrogram) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const time = view.start + (x / rect.width) * view.duration;
+    const nyquist = spectrogram.sampleRate / 2;
+    const frequency = FrequencyScaleUtils.frequencyAt(1 - y / rect.height, frequencyScale, FrequencyScaleUtils.minFrequency(frequencyScale), nyquist);
+    const frame = Math.min(spectrogram.frameCount - 1, Math.max(0, SpectrogramAnalyzer.frameAt(spectrogram, time)));
+    const bin = Math.min(spectrogram.binCount - 1, Math.max(0, Math.round((frequency / nyquist) * spectrogram.binCount)));
+    const level = SpectrogramAnalyzer.toDb(spectrogram, spectrogram.data[frame * spectrogram.binCount + bin]);
+    setReadout({ time, frequency, level });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drawing = drawRef.current;
+    if (drawing && drawing.pointerId === event.pointerId) {
+      const point = pointAt(event);
+      const last = toScreen(drawing.points[drawing.points.length - 1]);
+      const next = toScreen(point);
+      if (selectionTool === "lasso" && Math.hypot(next.x - last.x, next.y - last.y) < LASSO_POINT_SPACING) return;
+      drawing.points = selectionTool === "lasso" ? [...drawing.points, point] : [drawing.origin, point];
+      setDraft(draftShape(drawing.origin, drawing.points));
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag) updateReadout(event);
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const dx = event.clientX - drag.startX;
+    if (!drag.moved && Math.abs(dx) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    updateView(TimeViewUtils.panBy(drag.startView, dx, event.currentTarget.getBoundingClientRect().width));
+  };
+
+  const playheadPercent = ((currentTime - view.start) / view.duration) * 100;
+
+  return (
+    <div ref={containerRef} className={`spectrogram-file ${selectionTool ? "drawing" : ""} ${className}`}>
+      <canvas
+        ref={canvasRef}
+        className="spectrogram-canvas"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; finishDrawing(true); }}
+        onPointerCancel={() => { dragRef.current = null; finishDrawing(false); }}
+        onPointerLeave={() => setReadout(null)}
+      />
+
+      {(spectralEdits.length > 0 || draft) && (
+        <svg className="spectrogram-shapes" width={size.width} height={size.height}>
+          {spectralEdits.map((edit) => (
+            <polygon
+              key={edit.id}
+              className={`spectrogram-shape ${edit.operation}${edit.id === selectedEditId ? " selected" : ""}`}
+              points={SpectralEditor.outline(edit.shape).map(toScreen).map(({ x, y }) => `${x},${y}`).join(" ")}
+            />
+          ))}
+          {draft && (
+            <polygon
+              className="spectrogram-shape draft"
+              points={SpectralEditor.outline(draft).map(toScreen).map(({ x, y }) => `${x},${y}`).join(" ")}
+            />
+          )}
+        </svg>
+      )}
+
+      {showAxes && spectrogram && (
+        <>
+          <FrequencyAxis scale={frequencyScale} sampleRate={spectrogram.sampleRate} />
+          <TimeAxis view={view} pixelWidth={size.width} />
+        </>
+      )}
+      {readout && <ReadoutBox readout={readout} />}
+
+      {playheadPercent >= 0 && playheadPercent <= 100 && (
+        <div className="spectrogram-playhead" style={{ left: `${playheadPercent}%` }} />
+      )}
+
+      {spectrogram && (
+        <div className="spectrogram-info">
+          {spectrogram.fftSize}-pt · hop {spectrogram.hopSize} ·{" "}
+          {((spectrogram.hopSize / spectrogram.sampleRate) * 1000).toFixed(1)} ms ·{" "}
+          {(spectrogram.sampleRate / spectrogram.fftSize).toFixed(1)} Hz
+        </div>
+      )}
+
+      {progress !== null && (
+        <div className="spectrogram-progress">
+          <span>Computing spectrogram {Math.round(progress * 100)}%</span>
+          <div className="spectrogram-progress-track">
+            <div className="spectrogram-progress-fill" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && <div className="spectrogram-error">{error}</div>}
+    </div>
+  );
+};
+
+export const Spectrogram: React.FC<SpectrogramProps> = (props) =>
+  props.audioFile ? <FileSpectrogram {...props} audioFile={props.audioFile} /> : <LiveSpectrogram {...props} />;
+
 export default Spectrogram;
@@ -2,19 +2,44 @@
 
 import React, { useEffect, useRef, useCallback, useState } from "react";
 import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { FiRotateCcw } from "react-icons/fi";
+import { AudioFile, TimeRange } from "@/types/audio";
+import { AnalysisWorkerService, isAbortError } from "@/lib/audio/analysisWorkerService";
+import { FrequencyScale, FrequencyScaleUtils } from "@/lib/audio/frequencyScale";
+import {
+  DEFAULT_SPECTROGRAM_OPTIONS,
+  SpectrogramAnalyzer,
+  SpectrogramColormap,
+  SpectrogramData,
+} from "@/lib/audio/spectrogram";
+import { WebGLSupport } from "@/lib/webgl";
 import "../styles/Spectrogram3D.css";
 
 export interface Spectrogram3DProps {
   className?: string;
   analyser?: AnalyserNode | null;
   isPlaying?: boolean;
+  /** File mode: render this file's STFT as a static terrain instead of following the analyser */
+  audioFile?: AudioFile;
+  /** Span of the file to show in file mode, in seconds; the whole file when unset */
+  timeRange?: TimeRange | null;
+  /** Playback position in file mode, drawn as a cursor across the terrain */
+  currentTime?: number;
+  fftSize?: number;
+  frequencyScale?: FrequencyScale;
+  colormap?: SpectrogramColormap;
+  /** Levels mapped to the floor and the peaks of the terrain */
+  minDb?: number;
+  maxDb?: number;
 }
 
 // 3D Spectrogram visualization component using Three.js
-export const Spectrogram3D: React.FC<Spectrogram3DProps> = ({
+const LiveSpectrogram3D: React.FC<Spectrogram3DProps & { onWebGLUnavailable: () => void }> = ({
   className = "",
   analyser = null,
   isPlaying = false,
+  onWebGLUnavailable,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -46,6 +71,13 @@ export const Spectrogram3D: React.FC<Spectrogram3DProps> = ({
   const initThreeJS = useCallback(() => {
     if (!containerRef.current) return;
 
+    // Create renderer first; without WebGL the 2D waterfall takes over
+    const renderer = WebGLSupport.tryCreate(() => new THREE.WebGLRenderer({ antialias: true }));
+    if (!renderer) {
+      onWebGLUnavailable();
+      return;
+    }
+
     // Create the scene
     const scene = new THREE.Scene();
     scene.background = new THREE.Color(0x111111);
@@ -61,15 +93,12 @@ export const Spectrogram3D: React.FC<Spectrogram3DProps> = ({
     camera.position.set(0, 4, 25);
     cameraRef.current = camera;
 
-    // Create renderer
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
     renderer.setSize(containerRef.current.clientWidth, containerRef.current.clientHeight);
     renderer.setPixelRatio(window.devicePixelRatio);
     containerRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
-    // We're not using OrbitControls to avoid importing the dependency
-    // Simple camera rotation instead
+    // The live view drives the camera itself; file mode has orbit controls instead
     camera.lookAt(0, 0, 0);
     controlsRef.current = null;
 
@@ -196,7 +225,7 @@ export const Spectrogram3D: React.FC<Spectrogram3DProps> = ({
 
     // Initial render
     renderer.render(scene, camera);
-  }, [FREQUENCY_SAMPLES, YSIZE, XHALFSIZE, YHALFSIZE, XSEGMENTS, YSEGMENTS, XSEGMENTSIZE, N_VERTICES]);
+  }, [FREQUENCY_SAMPLES, YSIZE, XHALFSIZE, YHALFSIZE, XSEGMENTS, YSEGMENTS, XSEGMENTSIZE, N_VERTICES, onWebGLUnavailable]);
 
   // Generate a color map similar to the "jet" colormap with enhanced visibility
   const generateJetColormap = (numColors: number): [number, number, number][] => {
@@ -593,4 +622,554 @@ export const Spectrogram3D: React.FC<Spectrogram3DProps> = ({
   );
 };
 
+// Terrain size in world units: time runs along x, frequency along z (low at the front), level up y
+const TERRAIN_WIDTH = 20;
+const TERRAIN_DEPTH = 12;
+const TERRAIN_HEIGHT = 4;
+const MAX_TIME_COLUMNS = 256;
+const FREQUENCY_ROWS = 128;
+const MAX_TIME_TICKS = 8;
+const CAMERA_POSITION = new THREE.Vector3(0, 14, 20);
+const CAMERA_TARGET = new THREE.Vector3(0, 0, 0);
+
+// Text sprite for axis labels, sized in world units
+const createLabel = (text: string, height = 0.45): THREE.Sprite => {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  const fontSize = 48;
+  canvas.height = fontSize + 16;
+  if (context) {
+    context.font = `${fontSize}px 'Courier New', monospace`;
+    canvas.width = Math.ceil(context.measureText(text).width) + 16;
+    // Resizing the canvas resets the context, so the font has to be set again
+    context.font = `${fontSize}px 'Courier New', monospace`;
+    context.fillStyle = "#e2e8f0";
+    context.textBaseline = "middle";
+    context.fillText(text, 8, canvas.height / 2);
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, transparent: true, depthWrite: false }));
+  sprite.scale.set((height * canvas.width) / canvas.height, height, 1);
+  return sprite;
+};
+
+const disposeObject = (object: THREE.Object3D) => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments || child instanceof THREE.Sprite) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((material: THREE.Material) => {
+        if (material instanceof THREE.SpriteMaterial) material.map?.dispose();
+        material.dispose();
+      });
+    }
+  });
+};
+
+const timeTickStep = (duration: number): number => {
+  const rough = duration / MAX_TIME_TICKS;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  return [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? rough;
+};
+
+/**
+ * Level (0 to 1) of each cell of a grid over the window, taking the loudest frame and bin each cell
+ * covers. Cells are stored column by column, lowest band first; there are never more columns than frames
+ */
+const terrainLevels = (
+  spectrogram: SpectrogramData,
+  start: number,
+  end: number,
+  maxColumns: number,
+  rows: number,
+  scale: FrequencyScale,
+  minDb: number,
+  maxDb: number
+): { levels: Float32Array; columns: number } => {
+  const firstFrame = Math.max(0, SpectrogramAnalyzer.frameAt(spectrogram, start));
+  const lastFrame = Math.min(spectrogram.frameCount, Math.max(firstFrame + 1, SpectrogramAnalyzer.frameAt(spectrogram, end) + 1));
+  const columns = Math.max(2, Math.min(maxColumns, lastFrame - firstFrame));
+  const bands = FrequencyScaleUtils.bandBins(rows, spectrogram.binCount, spectrogram.sampleRate, scale);
+  const range = Math.max(1, maxDb - minDb);
+  const levels = new Float32Array(columns * rows);
+  const { data, binCount } = spectrogram;
+
+  for (let column = 0; column < columns; column++) {
+    const frameStart = firstFrame + Math.floor((column / columns) * (lastFrame - firstFrame));
+    const frameEnd = Math.max(frameStart + 1, firstFrame + Math.floor(((column + 1) / columns) * (lastFrame - firstFrame)));
+    for (let row = 0; row < rows; row++) {
+      let value = 0;
+      for (let frame = frameStart; frame < Math.min(frameEnd, spectrogram.frameCount); frame++) {
+        const offset = frame * binCount;
+        for (let bin = bands.low[row]; bin < bands.high[row]; bin++) {
+          if (data[offset + bin] > value) value = data[offset + bin];
+        }
+      }
+      levels[column * rows + row] = Math.min(1, Math.max(0, (SpectrogramAnalyzer.toDb(spectrogram, value) - minDb) / range));
+    }
+  }
+
+  return { levels, columns };
+};
+
+// Waterfall slices and depth offsets as fractions of the canvas
+const WATERFALL_DEPTH_X = 0.22;
+const WATERFALL_DEPTH_Y = 0.45;
+const WATERFALL_AMPLITUDE = 0.3;
+const WATERFALL_MARGIN = 28;
+
+interface WaterfallLabels {
+  /** Frequency labels along the front edge, at positions 0 to 1 */
+  frequencies: { position: number; text: string }[];
+  /** Labels for the back and front slices */
+  back?: string;
+  front?: string;
+}
+
+/**
+ * Isometric 2D waterfall for when WebGL is missing: each slice (levels 0 to 1 per band, lowest band
+ * first) is a spectrum, and slices recede up and to the right. Drawn back to front so nearer slices
+ * hide what is behind them
+ */
+const drawWaterfall = (
+  canvas: HTMLCanvasElement,
+  slices: Float32Array[],
+  lut: Uint8ClampedArray,
+  labels: WaterfallLabels,
+  highlight = -1
+) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const dpr = Math.max(1, window.devicePixelRatio || 1);
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (canvas.width !== Math.floor(width * dpr) || canvas.height !== Math.floor(height * dpr)) {
+    canvas.width = Math.floor(width * dpr);
+    canvas.height = Math.floor(height * dpr);
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.fillStyle = "#111111";
+  ctx.fillRect(0, 0, width, height);
+  if (slices.length === 0) return;
+
+  const left = WATERFALL_MARGIN;
+  const baseline = height - WATERFALL_MARGIN;
+  const depthX = width * WATERFALL_DEPTH_X;
+  const depthY = height * WATERFALL_DEPTH_Y;
+  const plotWidth = width - left - depthX - WATERFALL_MARGIN / 2;
+  const amplitude = height * WATERFALL_AMPLITUDE;
+
+  slices.forEach((slice, index) => {
+    const depth = slices.length === 1 ? 0 : (slices.length - 1 - index) / (slices.length - 1);
+    const x0 = left + depth * depthX;
+    const y0 = baseline - depth * depthY;
+    const step = plotWidth / Math.max(1, slice.length - 1);
+
+    ctx.beginPath();
+    ctx.moveTo(x0, y0);
+    for (let band = 0; band < slice.length; band++) {
+      ctx.lineTo(x0 + band * step, y0 - slice[band] * amplitude);
+    }
+    ctx.lineTo(x0 + plotWidth, y0);
+    ctx.closePath();
+    ctx.fillStyle = "#111111";
+    ctx.fill();
+
+    for (let band = 1; band < slice.length; band++) {
+      const level = index === highlight ? 255 : Math.round(Math.max(slice[band - 1], slice[band]) * 255);
+      ctx.strokeStyle = index === highlight
+        ? "#ffffff"
+        : `rgb(${lut[level * 4]}, ${lut[level * 4 + 1]}, ${lut[level * 4 + 2]})`;
+      ctx.beginPath();
+      ctx.moveTo(x0 + (band - 1) * step, y0 - slice[band - 1] * amplitude);
+      ctx.lineTo(x0 + band * step, y0 - slice[band] * amplitude);
+      ctx.stroke();
+    }
+  });
+
+  ctx.fillStyle = "#9ca3af";
+  ctx.font = "10px 'Courier New', monospace";
+  ctx.textAlign = "center";
+  for (const { position, text } of labels.frequencies) {
+    ctx.fillText(text, left + position * plotWidth, baseline + 14);
+  }
+  ctx.textAlign = "right";
+  if (labels.front) ctx.fillText(labels.front, left - 4, baseline);
+  if (labels.back) ctx.fillText(labels.back, left + depthX - 4, baseline - depthY);
+};
+
+const waterfallFrequencyLabels = (scale: FrequencyScale, sampleRate: number): WaterfallLabels["frequencies"] => {
+  const nyquist = sampleRate / 2;
+  const minHz = FrequencyScaleUtils.minFrequency(scale);
+  let previous = -1;
+  return FrequencyScaleUtils.ticks(scale, Math.max(minHz, 1), nyquist)
+    .map((hz) => ({ position: FrequencyScaleUtils.position(hz, scale, minHz, nyquist), text: FrequencyScaleUtils.formatFrequency(hz) }))
+    .filter(({ position }) => {
+      if (position < 0.02 || position > 0.98 || position - previous < 0.1) return false;
+      previous = position;
+      return true;
+    });
+};
+
+const WATERFALL_BANDS = 96;
+const LIVE_WATERFALL_SLICES = 48;
+const FILE_WATERFALL_SLICES = 64;
+
+// Scrolling 2D waterfall fed by the analyser, used in place of the live 3D view without WebGL
+const LiveWaterfall: React.FC<Spectrogram3DProps> = ({ className = "", analyser = null, isPlaying = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const lut = SpectrogramAnalyzer.colormapLut("jet");
+    const slices: Float32Array[] = [];
+    const data = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
+    const bands = analyser
+      ? FrequencyScaleUtils.bandBins(WATERFALL_BANDS, analyser.frequencyBinCount, analyser.context.sampleRate, "log")
+      : null;
+    const labels: WaterfallLabels = {
+      frequencies: analyser ? waterfallFrequencyLabels("log", analyser.context.sampleRate) : [],
+    };
+    let frame = 0;
+    // Only redraw when a slice arrives or the canvas changes size
+    let dirty = true;
+    const observer = new ResizeObserver(() => { dirty = true; });
+    observer.observe(canvas);
+
+    const loop = () => {
+      if (analyser && data && bands && isPlaying) {
+        analyser.getByteFrequencyData(data);
+        const slice = new Float32Array(WATERFALL_BANDS);
+        for (let band = 0; band < WATERFALL_BANDS; band++) {
+          let value = 0;
+          for (let bin = bands.low[band]; bin < bands.high[band]; bin++) value = Math.max(value, data[bin]);
+          slice[band] = value / 255;
+        }
+        slices.push(slice);
+        if (slices.length > LIVE_WATERFALL_SLICES) slices.shift();
+        dirty = true;
+      }
+      if (dirty) drawWaterfall(canvas, slices, lut, labels);
+      dirty = false;
+      frame = requestAnimationFrame(loop);
+    };
+    loop();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+    };
+  }, [analyser, isPlaying]);
+
+  return (
+    <div className={`spectrogram-3d-container ${className}`} style={{ width: "100%", height: "100%" }}>
+      <canvas ref={canvasRef} className="spectrogram-3d-fallback" />
+      <div className="spectrogram-3d-notice">WebGL unavailable · 2D waterfall</div>
+      {!analyser && (
+        <div className="spectrogram-3d-overlay">
+          <p className="spectrogram-3d-description">Play audio to visualize the frequency spectrum</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Whole-file STFT as a static terrain with orbit, zoom and pan
+const FileSpectrogram3D: React.FC<Spectrogram3DProps & { audioFile: AudioFile }> = ({
+  className = "",
+  audioFile,
+  timeRange = null,
+  currentTime = 0,
+  fftSize = DEFAULT_SPECTROGRAM_OPTIONS.fftSize,
+  frequencyScale = "log",
+  colormap = "magma",
+  minDb = -100,
+  maxDb = 0,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const sceneRef = useRef<THREE.Scene | null>(null);
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const controlsRef = useRef<OrbitControls | null>(null);
+  const terrainRef = useRef<THREE.Group | null>(null);
+  const cursorRef = useRef<THREE.Mesh | null>(null);
+  const frameRequestRef = useRef<number | null>(null);
+  const [spectrogram, setSpectrogram] = useState<SpectrogramData | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [webglAvailable, setWebglAvailable] = useState(true);
+  const fallbackCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const start = Math.max(0, Math.min(timeRange?.start ?? 0, audioFile.duration));
+  const end = Math.min(audioFile.duration, Math.max(timeRange?.end ?? audioFile.duration, start));
+  const span = end - start;
+
+  // Coalesce render requests from the controls, resizes and prop changes into one frame
+  const requestRender = useCallback(() => {
+    if (frameRequestRef.current !== null) return;
+    frameRequestRef.current = requestAnimationFrame(() => {
+      frameRequestRef.current = null;
+      if (rendererRef.current && sceneRef.current && cameraRef.current) {
+        rendererRef.current.render(sceneRef.current, cameraRef.current);
+      }
+    });
+  }, []);
+
+  // Scene, camera, renderer and controls live as long as the component
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x111111);
+    const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 1000);
+    camera.position.copy(CAMERA_POSITION);
+
+    const renderer = WebGLSupport.tryCreate(() => new THREE.WebGLRenderer({ antialias: true }));
+    if (!renderer) {
+      setWebglAvailable(false);
+      return;
+    }
+    renderer.setPixelRatio(window.devicePixelRatio);
+    container.appendChild(renderer.domElement);
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.target.copy(CAMERA_TARGET);
+    controls.minDistance = 4;
+    controls.maxDistance = 80;
+    controls.maxPolarAngle = Math.PI / 2 - 0.02;
+    controls.screenSpacePanning = true;
+    controls.update();
+    controls.addEventListener("change", requestRender);
+
+    const cursor = new THREE.Mesh(
+      new THREE.PlaneGeometry(TERRAIN_DEPTH, TERRAIN_HEIGHT * 1.25),
+      new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.25, side: THREE.DoubleSide, depthWrite: false })
+    );
+    cursor.rotation.y = Math.PI / 2;
+    cursor.position.y = (TERRAIN_HEIGHT * 1.25) / 2;
+    cursor.visible = false;
+    scene.add(cursor);
+
+    sceneRef.current = scene;
+    cameraRef.current = camera;
+    rendererRef.current = renderer;
+    controlsRef.current = controls;
+    cursorRef.current = cursor;
+
+    const resize = () => {
+      const width = Math.max(1, container.clientWidth);
+      const height = Math.max(1, container.clientHeight);
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      renderer.setSize(width, height, false);
+      requestRender();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      if (frameRequestRef.current !== null) {
+        cancelAnimationFrame(frameRequestRef.current);
+        frameRequestRef.current = null;
+      }
+      controls.removeEventListener("change", requestRender);
+      controls.dispose();
+      disposeObject(scene);
+      scene.clear();
+      renderer.dispose();
+      container.removeChild(renderer.domElement);
+      sceneRef.current = null;
+      cameraRef.current = null;
+      rendererRef.current = null;
+      controlsRef.current = null;
+      terrainRef.current = null;
+      cursorRef.current = null;
+    };
+  }, [requestRender]);
+
+  useEffect(() => {
+    setSpectrogram(null);
+    setError(null);
+    setProgress(0);
+
+    const task = AnalysisWorkerService.computeSpectrogram(
+      audioFile.audioBuffer,
+      { ...DEFAULT_SPECTROGRAM_OPTIONS, fftSize },
+      { onProgress: (value) => setProgress(value) }
+    );
+    task.promise
+      .then((result) => {
+        setSpectrogram(result);
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : "Spectrogram failed");
+        setProgress(null);
+      });
+
+    return () => task.cancel();
+  }, [audioFile, fftSize]);
+
+  // Rebuild the terrain and its axis grid for the current window and display settings
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !spectrogram || span <= 0) return;
+
+    if (terrainRef.current) {
+      scene.remove(terrainRef.current);
+      disposeObject(terrainRef.current);
+    }
+    const terrain = new THREE.Group();
+
+    const rows = FREQUENCY_ROWS;
+    const { levels, columns } = terrainLevels(spectrogram, start, end, MAX_TIME_COLUMNS, rows, frequencyScale, minDb, maxDb);
+    const lut = SpectrogramAnalyzer.colormapLut(colormap);
+
+    // One vertex per cell
+    const geometry = new THREE.PlaneGeometry(TERRAIN_WIDTH, TERRAIN_DEPTH, columns - 1, rows - 1);
+    geometry.rotateX(-Math.PI / 2);
+    const positions = geometry.getAttribute("position") as THREE.BufferAttribute;
+    const colors = new Float32Array(positions.count * 3);
+
+    for (let column = 0; column < columns; column++) {
+      for (let row = 0; row < rows; row++) {
+        const level = levels[column * rows + row];
+        // Plane rows run back to front after the rotation, so the lowest band is the last row
+        const vertex = (rows - 1 - row) * columns + column;
+        positions.setY(vertex, level * TERRAIN_HEIGHT);
+        const index = Math.round(level * 255) * 4;
+        colors[vertex * 3] = lut[index] / 255;
+        colors[vertex * 3 + 1] = lut[index + 1] / 255;
+        colors[vertex * 3 + 2] = lut[index + 2] / 255;
+      }
+    }
+    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    geometry.computeVertexNormals();
+    terrain.add(new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide })));
+
+    // Floor grid lines at the labelled times and frequencies
+    const halfWidth = TERRAIN_WIDTH / 2;
+    const halfDepth = TERRAIN_DEPTH / 2;
+    const gridPoints: number[] = [];
+    const step = timeTickStep(span);
+    for (let time = Math.ceil(start / step) * step; time <= end + 1e-9; time += step) {
+      const x = ((time - start) / span) * TERRAIN_WIDTH - halfWidth;
+      gridPoints.push(x, 0, -halfDepth, x, 0, halfDepth);
+      const label = createLabel(`${time.toFixed(step >= 1 ? 0 : step >= 0.1 ? 1 : 2)} s`);
+      label.position.set(x, 0, halfDepth + 0.7);
+      terrain.add(label);
+    }
+
+    const nyquist = spectrogram.sampleRate / 2;
+    const minHz = FrequencyScaleUtils.minFrequency(frequencyScale);
+    let previous = -1;
+    for (const hz of FrequencyScaleUtils.ticks(frequencyScale, Math.max(minHz, 1), nyquist)) {
+      const position = FrequencyScaleUtils.position(hz, frequencyScale, minHz, nyquist);
+      if (position < 0.02 || position > 0.98 || position - previous < 0.07) continue;
+      previous = position;
+      const z = halfDepth - position * TERRAIN_DEPTH;
+      gridPoints.push(-halfWidth, 0, z, halfWidth, 0, z);
+      const label = createLabel(`${FrequencyScaleUtils.formatFrequency(hz)}Hz`);
+      label.position.set(-halfWidth - 1.1, 0, z);
+      terrain.add(label);
+    }
+    gridPoints.push(-halfWidth, 0, -halfDepth, -halfWidth, 0, halfDepth, halfWidth, 0, -halfDepth, halfWidth, 0, halfDepth);
+
+    const gridGeometry = new THREE.BufferGeometry();
+    gridGeometry.setAttribute("position", new THREE.Float32BufferAttribute(gridPoints, 3));
+    terrain.add(new THREE.LineSegments(gridGeometry, new THREE.LineBasicMaterial({ color: 0x555555 })));
+
+    scene.add(terrain);
+    terrainRef.current = terrain;
+    requestRender();
+  }, [spectrogram, start, end, span, frequencyScale, colormap, minDb, maxDb, requestRender]);
+
+  // Without WebGL, draw the window as a 2D waterfall: one slice per column, earliest at the back
+  useEffect(() => {
+    const canvas = fallbackCanvasRef.current;
+    if (webglAvailable || !canvas || !spectrogram || span <= 0) return;
+
+    const { levels, columns } = terrainLevels(
+      spectrogram, start, end, FILE_WATERFALL_SLICES, WATERFALL_BANDS, frequencyScale, minDb, maxDb
+    );
+    const slices = Array.from({ length: columns }, (_, column) =>
+      levels.subarray(column * WATERFALL_BANDS, (column + 1) * WATERFALL_BANDS)
+    );
+    const labels: WaterfallLabels = {
+      frequencies: waterfallFrequencyLabels(frequencyScale, spectrogram.sampleRate),
+      back: `${start.toFixed(1)} s`,
+      front: `${end.toFixed(1)} s`,
+    };
+    const lut = SpectrogramAnalyzer.colormapLut(colormap);
+    const cursor = currentTime >= start && currentTime <= end
+      ? Math.min(columns - 1, Math.floor(((currentTime - start) / span) * columns))
+      : -1;
+    const draw = () => drawWaterfall(canvas, slices, lut, labels, cursor);
+    draw();
+
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [webglAvailable, spectrogram, start, end, span, frequencyScale, colormap, minDb, maxDb, currentTime]);
+
+  // Follow the playback position across the terrain
+  useEffect(() => {
+    const cursor = cursorRef.current;
+    if (!cursor) return;
+    const visible = span > 0 && currentTime >= start && currentTime <= end;
+    cursor.visible = visible;
+    if (visible) cursor.position.x = ((currentTime - start) / span) * TERRAIN_WIDTH - TERRAIN_WIDTH / 2;
+    requestRender();
+  }, [currentTime, start, end, span, requestRender]);
+
+  const resetCamera = () => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
+    camera.position.copy(CAMERA_POSITION);
+    controls.target.copy(CAMERA_TARGET);
+    controls.update();
+  };
+
+  return (
+    <div ref={containerRef} className={`spectrogram-3d-container spectrogram-3d-file ${className}`}>
+      {!webglAvailable && <canvas ref={fallbackCanvasRef} className="spectrogram-3d-fallback" />}
+      <div className="spectrogram-3d-toolbar">
+        <span>{start.toFixed(2)}–{end.toFixed(2)} s</span>
+        {webglAvailable && (
+          <button onClick={resetCamera} title="Reset camera" aria-label="Reset camera">
+            <FiRotateCcw />
+          </button>
+        )}
+      </div>
+      {!webglAvailable && <div className="spectrogram-3d-notice">WebGL unavailable · 2D waterfall</div>}
+      {progress !== null && (
+        <div className="spectrogram-3d-overlay">
+          <p className="spectrogram-3d-description">Computing spectrogram {Math.round(progress * 100)}%</p>
+        </div>
+      )}
+      {error && (
+        <div className="spectrogram-3d-overlay">
+          <p className="spectrogram-3d-error">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const Spectrogram3D: React.FC<Spectrogram3DProps> = (props) => {
+  const [webglFailed, setWebglFailed] = useState(false);
+  const handleWebGLUnavailable = useCallback(() => setWebglFailed(true), []);
+
+  if (props.audioFile) return <FileSpectrogram3D {...props} audioFile={props.audioFile} />;
+  if (webglFailed) return <LiveWaterfall {...props} />;
+  return <LiveSpectrogram3D {...props} onWebGLUnavailable={handleWebGLUnavailable} />;
+};
+
 export default Spectrogram3D;
\ No newline at end of file
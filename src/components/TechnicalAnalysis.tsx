@@ -0,0 +1,133 @@
+"use client";
+
+import React from "react";
+import { LoudnessMeasurement, StereoMetrics } from "@/types/audio";
+import "@/styles/TechnicalAnalysis.css";
+
+export interface TechnicalAnalysisProps {
+  loudness: LoudnessMeasurement;
+  stereo?: StereoMetrics | null;
+  className?: string;
+}
+
+const GAUGE_MIN_LUFS = -40;
+const GAUGE_MAX_LUFS = 0;
+const TRUE_PEAK_CEILING = -1;
+
+const formatLevel = (value: number, unit: string): string =>
+  Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+
+const formatBalance = (balance: number): string => {
+  if (Math.abs(balance) < 0.005) return "C";
+  return `${(Math.abs(balance) * 100).toFixed(0)}% ${balance < 0 ? "L" : "R"}`;
+};
+
+// Producer-facing summary: integrated LUFS gauge, LRA, true peak and stereo field
+export const TechnicalAnalysis: React.FC<TechnicalAnalysisProps> = ({
+  loudness,
+  stereo = null,
+  className = "",
+}) => {
+  const gaugePosition = Number.isFinite(loudness.integrated)
+    ? Math.min(1, Math.max(0, (loudness.integrated - GAUGE_MIN_LUFS) / (GAUGE_MAX_LUFS - GAUGE_MIN_LUFS)))
+    : 0;
+  const isClipping = loudness.truePeak > TRUE_PEAK_CEILING;
+
+  return (
+    <div className={`technical-analysis ${className}`}>
+      <div className="technical-header">
+        <span className="technical-title">Technical Analysis</span>
+      </div>
+
+      <div className="lufs-gauge">
+        <div className="lufs-gauge-track">
+          <div className="lufs-gauge-fill" style={{ width: `${gaugePosition * 100}%` }} />
+        </div>
+        <div className="lufs-gauge-scale">
+          <span>{GAUGE_MIN_LUFS}</span>
+          <span className="lufs-gauge-value">{formatLevel(loudness.integrated, "LUFS")}</span>
+          <span>{GAUGE_MAX_LUFS}</span>
+        </div>
+      </div>
+
+      <div className="technical-metrics">
+        <div className="technical-metric">
+          <span className="technical-label">Short-term max</span>
+          <span className="technical-value">{formatLevel(loudness.shortTermMax, "LUFS")}</span>
+        </div>
+        <div className="technical-metric">
+          <span className="technical-label">Momentary max</span>
+          <span className="technical-value">{formatLevel(loudness.momentaryMax, "LUFS")}</span>
+        </div>
+        <div className="technical-metric">
+          <span className="technical-label">Loudness range</span>
+          <span className="technical-value">{loudness.loudnessRange.toFixed(1)} LU</span>
+        </div>
+        <div className="technical-metric">
+          <span className="technical-label">True peak</span>
+          <span className={`technical-value ${isClipping ? "technical-warning" : ""}`}>
+            {formatLevel(loudness.truePeak, "dBTP")}
+          </span>
+        </div>
+      </div>
+
+      {stereo && (
+        <div className="stereo-metrics">
+          <div className="stereo-meter">
+            <span className="technical-label">Stereo width</span>
+            <div className="stereo-meter-track">
+              <div className="stereo-meter-fill" style={{ width: `${stereo.width * 100}%` }} />
+            </div>
+            <span className="technical-value">{(stereo.width * 100).toFixed(0)}%</span>
+          </div>
+          <div className="stereo-meter">
+            <span className="technical-label">Correlation</span>
+            <div className="stereo-meter-track stereo-meter-bipolar">
+              <div
+                className={`stereo-meter-marker ${stereo.correlation < 0 ? "technical-warning" : ""}`}
+                style={{ left: `${((stereo.correlation + 1) / 2) * 100}%` }}
+              />
+            </div>
+            <span className="technical-value">{stereo.correlation.toFixed(2)}</span>
+          </div>
+          <div className="technical-metrics">
+            <div className="technical-metric">
+              <span className="technical-label">Balance</span>
+              <span className="technical-value">{formatBalance(stereo.balance)}</span>
+            </div>
+            <div className="technical-metric">
+              <span className="technical-label">Mono compatibility</span>
+              <span className={`technical-value ${stereo.monoCompatibility < 0.5 ? "technical-warning" : ""}`}>
+                {(stereo.monoCompatibility * 100).toFixed(0)}%
+              </span>
+            </div>
+            <div className="technical-metric">
+              <span className="technical-label">Mid level</span>
+              <span className="technical-value">{formatLevel(stereo.midLevel, "dB")}</span>
+            </div>
+            <div className="technical-metric">
+              <span className="technical-label">Side level</span>
+              <span className="technical-value">{formatLevel(stereo.sideLevel, "dB")}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loudness.channels.length > 1 && (
+        <div className="technical-channels">
+          {loudness.channels.map((channel, index) => (
+            <div key={index} className="technical-channel">
+              <span className="technical-label">Ch {index + 1}</span>
+              <span className="technical-value">{formatLevel(channel.integrated, "LUFS")}</span>
+              <span className={`technical-value ${channel.truePeak > TRUE_PEAK_CEILING ? "technical-warning" : ""}`}>
+                {formatLevel(channel.truePeak, "dBTP")}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TechnicalAnalysis;
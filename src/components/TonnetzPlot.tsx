@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FeatureTracks } from "@/types/audio";
+import { TONNETZ_CIRCLES, TonalCentroid } from "@/lib/audio/tonnetz";
+import "@/styles/TonnetzPlot.css";
+
+export interface TonnetzPlotProps {
+  tracks: FeatureTracks;
+  currentTime?: number;
+  /** Seconds of recent movement drawn behind the current position */
+  trailSeconds?: number;
+  /** Width in seconds of the moving average applied to the centroid */
+  smoothingSeconds?: number;
+  className?: string;
+}
+
+const TITLE_HEIGHT = 18;
+const LABEL_MARGIN = 22;
+
+// Tonal centroid at the playhead on the fifths, minor-thirds and major-thirds circles, with a fading trail
+export const TonnetzPlot: React.FC<TonnetzPlotProps> = ({
+  tracks,
+  currentTime = 0,
+  trailSeconds = 3,
+  smoothingSeconds = 0.5,
+  className = "",
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track the canvas' parent size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const parent = canvas?.parentElement;
+    if (!canvas || !parent) return;
+
+    const updateSize = () => {
+      setSize({ width: parent.clientWidth, height: parent.clientHeight });
+    };
+
+    updateSize();
+    const resizeObserver = new ResizeObserver(updateSize);
+    resizeObserver.observe(parent);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  const frameSeconds = tracks.hopSize / tracks.sampleRate;
+  const centroids = useMemo(
+    () => TonalCentroid.track(tracks.chroma, Math.round(smoothingSeconds / 2 / frameSeconds)),
+    [tracks, smoothingSeconds, frameSeconds]
+  );
+  const labels = useMemo(() => TONNETZ_CIRCLES.map((circle) => TonalCentroid.circleLabels(circle)), []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0 || size.height === 0) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const dpr = Math.max(1, window.devicePixelRatio || 1);
+    canvas.width = Math.floor(size.width * dpr);
+    canvas.height = Math.floor(size.height * dpr);
+    canvas.style.width = `${size.width}px`;
+    canvas.style.height = `${size.height}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (centroids.length === 0) return;
+
+    const current = Math.min(centroids.length - 1, Math.max(0, Math.floor(currentTime / frameSeconds)));
+    const first = Math.max(0, current - Math.round(trailSeconds / frameSeconds));
+    const cellWidth = size.width / TONNETZ_CIRCLES.length;
+    const radius = Math.max(4, Math.min(cellWidth, size.height - TITLE_HEIGHT) / 2 - LABEL_MARGIN);
+
+    ctx.font = "10px 'Courier New', monospace";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    TONNETZ_CIRCLES.forEach((circle, index) => {
+      const cx = (index + 0.5) * cellWidth;
+      const cy = TITLE_HEIGHT + (size.height - TITLE_HEIGHT) / 2;
+      // Each circle fills its cell; the major-thirds radius only matters for distances between centroids
+      const point = (frame: number): [number, number] => [
+        cx + (centroids[frame][index * 2] / circle.radius) * radius,
+        cy - (centroids[frame][index * 2 + 1] / circle.radius) * radius,
+      ];
+
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.15)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+      ctx.moveTo(cx - 4, cy);
+      ctx.lineTo(cx + 4, cy);
+      ctx.moveTo(cx, cy - 4);
+      ctx.lineTo(cx, cy + 4);
+      ctx.stroke();
+
+      ctx.fillStyle = "#e2e8f0";
+      ctx.fillText(circle.label, cx, TITLE_HEIGHT / 2);
+      ctx.fillStyle = "#9ca3af";
+      for (const label of labels[index]) {
+        // Shared positions list several names, so push those further out
+        const distance = radius + (label.names.length > 1 ? LABEL_MARGIN * 0.6 : LABEL_MARGIN * 0.45);
+        ctx.fillText(label.names.join(" "), cx + label.x * distance, cy - label.y * distance);
+      }
+
+      // Older segments fade out
+      ctx.lineWidth = 2;
+      for (let frame = first + 1; frame <= current; frame++) {
+        const [x0, y0] = point(frame - 1);
+        const [x1, y1] = point(frame);
+        ctx.strokeStyle = `rgba(177, 158, 239, ${(0.8 * (frame - first)) / (current - first + 1)})`;
+        ctx.beginPath();
+        ctx.moveTo(x0, y0);
+        ctx.lineTo(x1, y1);
+        ctx.stroke();
+      }
+
+      const [x, y] = point(current);
+      ctx.fillStyle = "#B19EEF";
+      ctx.shadowColor = "rgba(177, 158, 239, 0.8)";
+      ctx.shadowBlur = 8;
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+    });
+  }, [centroids, labels, size, currentTime, frameSeconds, trailSeconds]);
+
+  return (
+    <div className={`tonnetz-plot ${className}`}>
+      <canvas ref={canvasRef} className="tonnetz-canvas" />
+    </div>
+  );
+};
+
+export default TonnetzPlot;
@@ -1,6 +1,10 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { AudioFile, WaveformData } from '@/types/audio';
+import { AudioFile, AudioMarker, AudioRegion, TimeRange, TimeView } from '@/types/audio';
 import { audioUtils } from '@/lib/audio/audioUtils';
+import { PeakPyramid } from '@/lib/audio/peakPyramid';
+import { RangeEdge, RegionUtils } from '@/lib/audio/regions';
+import { TimeViewUtils } from '@/lib/audio/timeView';
+import { isAbortError } from '@/lib/audio/analysisWorkerService';
 
 interface WaveformVisualizerProps {
   audioFile: AudioFile;
@@ -11,11 +15,124 @@ interface WaveformVisualizerProps {
   currentTime?: number;
   onSeek?: (time: number) => void;
   className?: string;
+  /** @deprecated Peaks are read from a multi-resolution pyramid at the canvas resolution */
   samples?: number;
   showProgress?: boolean;
   interactive?: boolean;
+  zoomable?: boolean;
+  showMinimap?: boolean;
+  /** Selected range; dragging on the waveform selects when onSelectionChange is set (Alt+drag then pans) */
+  selection?: TimeRange | null;
+  onSelectionChange?: (selection: TimeRange | null) => void;
+  /** Point markers; editable (drag, rename, delete, double-click to add) when onMarkersChange is set */
+  markers?: AudioMarker[];
+  onMarkersChange?: (markers: AudioMarker[]) => void;
+  /** Loop regions; editable when onLoopRegionsChange is set, clicking one toggles it as the active loop */
+  loopRegions?: AudioRegion[];
+  onLoopRegionsChange?: (regions: AudioRegion[]) => void;
+  activeLoopId?: string | null;
+  onActiveLoopChange?: (id: string | null) => void;
+  /** 'single' draws the first channel, 'channels' one lane per channel, 'midSide' mid and side lanes */
+  laneMode?: WaveformLaneMode;
+  amplitudeScale?: WaveformAmplitudeScale;
+  /** Draw the RMS level under the peak envelope */
+  showRms?: boolean;
+  /** Mark columns whose source samples reach full scale */
+  showClipping?: boolean;
+  /** Visible range; pass with onViewChange to keep other timelines zoomed and panned in step */
+  view?: TimeView;
+  onViewChange?: (view: TimeView) => void;
 }
 
+export type WaveformLaneMode = 'single' | 'channels' | 'midSide';
+export type WaveformAmplitudeScale = 'linear' | 'db';
+
+interface DragState {
+  pointerId: number;
+  startX: number;
+  startView: TimeView;
+  moved: boolean;
+}
+
+/**
+ * What a pointer drag on the waveform or one of its overlays is editing
+ */
+type EditTarget =
+  | { kind: 'select'; anchor: number }
+  | { kind: 'selection'; edge: RangeEdge; origin: TimeRange }
+  | { kind: 'region'; edge: RangeEdge; origin: AudioRegion }
+  | { kind: 'marker'; origin: AudioMarker };
+
+interface EditState {
+  pointerId: number;
+  startX: number;
+  moved: boolean;
+  target: EditTarget;
+}
+
+/**
+ * Per-column buffers reused between redraws
+ */
+interface ColumnBuffers {
+  min: Float32Array;
+  max: Float32Array;
+  rms: Float32Array;
+  clipped: Uint8Array;
+}
+
+const NO_MARKERS: AudioMarker[] = [];
+const NO_REGIONS: AudioRegion[] = [];
+
+// Deepest zoom, in screen pixels per sample
+const MAX_PIXELS_PER_SAMPLE = 16;
+// Pixels per sample above which individual samples get a marker
+const SAMPLE_MARKER_THRESHOLD = 6;
+const DRAG_THRESHOLD = 3;
+const MINIMAP_HEIGHT = 14;
+// Samples at or beyond this magnitude count as clipped
+const CLIP_LEVEL = 0.999;
+// Bottom of the dB scale; quieter samples sit on the lane's centre line
+const DB_FLOOR = -60;
+const DB_GRID = [-6, -12, -24, -48];
+const LINEAR_GRID = [0.5];
+const CLIP_COLOR = '#ff6b6b';
+
+const SURROUND_LABELS = ['L', 'R', 'C', 'LFE', 'Ls', 'Rs', 'Lb', 'Rb'];
+
+const channelLabel = (channel: number, count: number): string => {
+  if (count === 1) return 'Mono';
+  if (count === 2 || count === 6 || count === 8) return SURROUND_LABELS[channel];
+  return `Ch ${channel + 1}`;
+};
+
+// Map a sample value to -1..1 lane units on the chosen vertical scale, keeping its sign
+const scaleAmplitude = (value: number, scale: WaveformAmplitudeScale): number => {
+  if (scale === 'linear') return value;
+  const magnitude = Math.abs(value);
+  if (magnitude === 0) return 0;
+  const normalized = Math.max(0, 1 - (20 * Math.log10(magnitude)) / DB_FLOOR);
+  return value < 0 ? -normalized : normalized;
+};
+
+// Inline editor for a marker or region name; Enter or blur commits, Escape cancels
+const RenameInput: React.FC<{ value: string; onCommit: (name: string) => void; onCancel: () => void }> = ({
+  value,
+  onCommit,
+  onCancel,
+}) => (
+  <input
+    className="waveform-rename"
+    defaultValue={value}
+    autoFocus
+    onPointerDown={(e) => e.stopPropagation()}
+    onBlur={(e) => onCommit(e.currentTarget.value)}
+    onKeyDown={(e) => {
+      if (e.key === 'Enter') e.currentTarget.blur();
+      if (e.key === 'Escape') onCancel();
+    }}
+  />
+);
+
 export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
   audioFile,
   width = 800,
@@ -25,32 +142,81 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
   currentTime = 0,
   onSeek,
   className = '',
-  samples = 1000,
   showProgress = true,
   interactive = true,
+  zoomable = true,
+  showMinimap = true,
+  laneMode = 'single',
+  amplitudeScale = 'linear',
+  showRms = true,
+  showClipping = true,
+  view: controlledView,
+  onViewChange,
+  selection = null,
+  onSelectionChange,
+  markers = NO_MARKERS,
+  onMarkersChange,
+  loopRegions = NO_REGIONS,
+  onLoopRegionsChange,
+  activeLoopId = null,
+  onActiveLoopChange,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [waveformData, setWaveformData] = useState<WaveformData | null>(null);
+  const [pyramid, setPyramid] = useState<PeakPyramid | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [canvasSize, setCanvasSize] = useState({ width, height });
+  const [internalView, setInternalView] = useState<TimeView>(TimeViewUtils.full(audioFile.duration));
+  const view = controlledView ?? internalView;
+  const viewRef = useRef(view);
+  const dragRef = useRef<DragState | null>(null);
+  const editRef = useRef<EditState | null>(null);
+  const [renaming, setRenaming] = useState<{ kind: 'marker' | 'region'; id: string } | null>(null);
+  const columnsRef = useRef<ColumnBuffers | null>(null);
+  const [midSidePyramid, setMidSidePyramid] = useState<PeakPyramid | null>(null);
+  const previousTimeRef = useRef(currentTime);
 
-  // Generate waveform data
+  viewRef.current = view;
+  const totalDuration = audioFile.duration;
+  const isZoomed = TimeViewUtils.isZoomed(view, totalDuration);
+
+  // Build the peak pyramid in slices so long files do not block the page
   useEffect(() => {
-    const generateWaveform = async () => {
-      setIsLoading(true);
-      try {
-        const data = audioUtils.generateWaveformData(audioFile.audioBuffer, samples);
-        setWaveformData(data);
-      } catch (error) {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setPyramid(null);
+    setInternalView(TimeViewUtils.full(audioFile.duration));
+
+    PeakPyramid.build(audioFile.audioBuffer, controller.signal)
+      .then((result) => {
+        setPyramid(result);
+        setIsLoading(false);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
         console.error('Error generating waveform:', error);
-      } finally {
         setIsLoading(false);
-      }
-    };
+      });
+
+    return () => controller.abort();
+  }, [audioFile]);
+
+  // Mid/side lanes need their own pyramid, built only when asked for
+  const wantsMidSide = laneMode === 'midSide' && audioFile.audioBuffer.numberOfChannels >= 2;
+  useEffect(() => {
+    setMidSidePyramid(null);
+    if (!wantsMidSide) return;
+
+    const controller = new AbortController();
+    PeakPyramid.buildMidSide(audioFile.audioBuffer, controller.signal)
+      .then(setMidSidePyramid)
+      .catch((error) => {
+        if (!isAbortError(error)) console.error('Error generating mid/side waveform:', error);
+      });
 
-    generateWaveform();
-  }, [audioFile, samples]);
+    return () => controller.abort();
+  }, [audioFile, wantsMidSide]);
 
   // Handle container resize with ResizeObserver for better responsiveness
   useEffect(() => {
@@ -76,95 +242,493 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
     // Fallback to window resize event
     updateSize();
     window.addEventListener('resize', updateSize);
-    
+
     return () => {
       window.removeEventListener('resize', updateSize);
       if (resizeObserver) {
         resizeObserver.disconnect();
       }
     };
-  }, [height]);
+  }, [height, isLoading]);
+
+  // Shortest view allowed: MAX_PIXELS_PER_SAMPLE screen pixels per sample
+  const minViewDuration = useCallback(() => {
+    const sampleRate = audioFile.audioBuffer.sampleRate;
+    return Math.min(totalDuration, Math.max(1, canvasSize.width) / MAX_PIXELS_PER_SAMPLE / sampleRate);
+  }, [audioFile, totalDuration, canvasSize.width]);
+
+  const updateView = useCallback((next: TimeView) => {
+    const clamped = TimeViewUtils.clamp(next, totalDuration, minViewDuration());
+    viewRef.current = clamped;
+    setInternalView(clamped);
+    onViewChange?.(clamped);
+  }, [totalDuration, minViewDuration, onViewChange]);
 
   // Draw waveform
   const drawWaveform = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !waveformData) return;
+    if (!canvas || !pyramid) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    const dpr = window.devicePixelRatio || 1;
     const { width: canvasWidth, height: canvasHeight } = canvasSize;
-    canvas.width = canvasWidth * window.devicePixelRatio;
-    canvas.height = canvasHeight * window.devicePixelRatio;
+    const pixelWidth = Math.max(1, Math.floor(canvasWidth * dpr));
+    const pixelHeight = Math.max(1, Math.floor(canvasHeight * dpr));
+    if (canvas.width !== pixelWidth) canvas.width = pixelWidth;
+    if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
     canvas.style.width = `${canvasWidth}px`;
     canvas.style.height = `${canvasHeight}px`;
-    
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
-    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+
+    // Work in device pixels so each column maps to exactly one pyramid query
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, pixelWidth, pixelHeight);
 
     // Draw background
     if (backgroundColor !== 'transparent') {
       ctx.fillStyle = backgroundColor;
-      ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+      ctx.fillRect(0, 0, pixelWidth, pixelHeight);
     }
 
-    // Get peak data for the first channel (or average if stereo)
-    const peaks = waveformData.peaks[0];
-    const barWidth = canvasWidth / peaks.length;
-    const centerY = canvasHeight / 2;
-    const maxAmplitude = canvasHeight / 2 - 2;
+    // Mid/side lanes draw from their own pyramid once it is ready, and a single lane until then
+    const lanes: { source: PeakPyramid; channel: number; label: string }[] =
+      laneMode === 'channels'
+        ? Array.from({ length: pyramid.numberOfChannels }, (_, channel) => ({
+            source: pyramid,
+            channel,
+            label: channelLabel(channel, pyramid.numberOfChannels),
+          }))
+        : laneMode === 'midSide' && midSidePyramid
+          ? [{ source: midSidePyramid, channel: 0, label: 'M' }, { source: midSidePyramid, channel: 1, label: 'S' }]
+          : [{ source: pyramid, channel: 0, label: '' }];
 
-    // Draw waveform bars
-    ctx.fillStyle = color;
-    for (let i = 0; i < peaks.length; i++) {
-      const amplitude = peaks[i] * maxAmplitude;
-      const x = i * barWidth;
-      
-      // Draw bar from center going up and down
-      if (amplitude > 0) {
-        ctx.fillRect(x, centerY - amplitude, Math.max(barWidth - 1, 1), amplitude * 2);
-      } else {
-        ctx.fillRect(x, centerY - 1, Math.max(barWidth - 1, 1), 2);
+    const startSample = view.start * pyramid.sampleRate;
+    const samplesPerColumn = (view.duration * pyramid.sampleRate) / pixelWidth;
+    const laneHeight = pixelHeight / lanes.length;
+    const showGrid = laneHeight >= 48 * dpr;
+
+    if (!columnsRef.current || columnsRef.current.min.length !== pixelWidth) {
+      columnsRef.current = {
+        min: new Float32Array(pixelWidth),
+        max: new Float32Array(pixelWidth),
+        rms: new Float32Array(pixelWidth),
+        clipped: new Uint8Array(pixelWidth),
+      };
+    }
+    const { min, max, rms, clipped } = columnsRef.current;
+
+    // Mid and side never reach full scale on their own, so their lanes flag clipping in either source channel
+    const sharedClipping = lanes[0].source !== pyramid;
+    if (showClipping && sharedClipping) {
+      clipped.fill(0);
+      for (let channel = 0; channel < Math.min(2, pyramid.numberOfChannels); channel++) {
+        pyramid.query(channel, startSample, samplesPerColumn, min, max);
+        for (let x = 0; x < pixelWidth; x++) {
+          if (max[x] >= CLIP_LEVEL || min[x] <= -CLIP_LEVEL) clipped[x] = 1;
+        }
       }
     }
 
+    lanes.forEach((lane, index) => {
+      const top = index * laneHeight;
+      const centerY = top + laneHeight / 2;
+      const maxAmplitude = laneHeight / 2 - 2 * dpr;
+      const toY = (value: number) => centerY - scaleAmplitude(value, amplitudeScale) * maxAmplitude;
+
+      if (index > 0) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+        ctx.fillRect(0, Math.round(top), pixelWidth, dpr);
+      }
+
+      if (showGrid) {
+        const levels = amplitudeScale === 'db' ? DB_GRID.map(db => 10 ** (db / 20)) : LINEAR_GRID;
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+        ctx.lineWidth = dpr;
+        ctx.beginPath();
+        for (const level of levels) {
+          for (const y of [toY(level), toY(-level)]) {
+            ctx.moveTo(0, Math.round(y) + 0.5);
+            ctx.lineTo(pixelWidth, Math.round(y) + 0.5);
+          }
+        }
+        ctx.stroke();
+
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.45)';
+        ctx.font = `${9 * dpr}px sans-serif`;
+        ctx.textAlign = 'right';
+        levels.forEach((level, i) => {
+          const text = amplitudeScale === 'db' ? `${DB_GRID[i]} dB` : level.toFixed(1);
+          ctx.fillText(text, pixelWidth - 4 * dpr, toY(level) - 2 * dpr);
+        });
+        ctx.textAlign = 'left';
+      }
+
+      lane.source.query(lane.channel, startSample, samplesPerColumn, min, max, showRms ? rms : undefined);
+
+      if (samplesPerColumn >= 1) {
+        // Peak envelope, one min/max bar per device-pixel column, dimmed when RMS is drawn over it
+        ctx.fillStyle = color;
+        ctx.globalAlpha = showRms ? 0.45 : 1;
+        for (let x = 0; x < pixelWidth; x++) {
+          const barTop = toY(max[x]);
+          ctx.fillRect(x, barTop, 1, Math.max(dpr, toY(min[x]) - barTop));
+        }
+        ctx.globalAlpha = 1;
+
+        if (showRms) {
+          for (let x = 0; x < pixelWidth; x++) {
+            const extent = scaleAmplitude(rms[x], amplitudeScale) * maxAmplitude;
+            if (extent > 0) ctx.fillRect(x, centerY - extent, 1, 2 * extent);
+          }
+        }
+      } else {
+        // Sample level: connect the individual samples, marking each once they are far enough apart
+        const data = lane.source.channels[lane.channel];
+        const pixelsPerSample = 1 / samplesPerColumn;
+        const first = Math.max(0, Math.floor(startSample));
+        const last = Math.min(lane.source.length - 1, Math.ceil(startSample + pixelWidth * samplesPerColumn));
+
+        ctx.strokeStyle = color;
+        ctx.lineWidth = dpr;
+        ctx.beginPath();
+        for (let n = first; n <= last; n++) {
+          const x = (n - startSample) * pixelsPerSample;
+          const y = toY(data[n]);
+          if (n === first) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+
+        if (pixelsPerSample >= SAMPLE_MARKER_THRESHOLD * dpr) {
+          ctx.fillStyle = color;
+          const size = 3 * dpr;
+          for (let n = first; n <= last; n++) {
+            const x = (n - startSample) * pixelsPerSample;
+            ctx.fillRect(x - size / 2, toY(data[n]) - size / 2, size, size);
+          }
+        }
+      }
+
+      if (showClipping) {
+        ctx.fillStyle = CLIP_COLOR;
+        const mark = 3 * dpr;
+        for (let x = 0; x < pixelWidth; x++) {
+          const isClipped = sharedClipping ? clipped[x] === 1 : max[x] >= CLIP_LEVEL || min[x] <= -CLIP_LEVEL;
+          if (!isClipped) continue;
+          ctx.fillRect(x, top, 1, mark);
+          ctx.fillRect(x, top + laneHeight - mark, 1, mark);
+        }
+      }
+
+      if (lane.label) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.font = `${10 * dpr}px sans-serif`;
+        ctx.fillText(lane.label, 4 * dpr, top + 12 * dpr);
+      }
+    });
+
     // Draw progress indicator
-    if (showProgress && audioFile.duration > 0) {
-      const progressX = (currentTime / audioFile.duration) * canvasWidth;
-      
+    if (showProgress && totalDuration > 0) {
+      const progressX = ((currentTime - view.start) / view.duration) * pixelWidth;
+
       // Draw progress overlay
       ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-      ctx.fillRect(0, 0, progressX, canvasHeight);
-      
+      ctx.fillRect(0, 0, Math.min(pixelWidth, Math.max(0, progressX)), pixelHeight);
+
       // Draw progress line
-      ctx.strokeStyle = '#fff';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(progressX, 0);
-      ctx.lineTo(progressX, canvasHeight);
-      ctx.stroke();
+      if (progressX >= 0 && progressX <= pixelWidth) {
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 2 * dpr;
+        ctx.beginPath();
+        ctx.moveTo(progressX, 0);
+        ctx.lineTo(progressX, pixelHeight);
+        ctx.stroke();
+      }
+    }
+  }, [
+    pyramid,
+    midSidePyramid,
+    canvasSize,
+    color,
+    backgroundColor,
+    currentTime,
+    totalDuration,
+    showProgress,
+    view,
+    laneMode,
+    amplitudeScale,
+    showRms,
+    showClipping,
+  ]);
+
+  // Whole-file overview with the visible range outlined
+  const drawMinimap = useCallback(() => {
+    const canvas = minimapRef.current;
+    if (!canvas || !pyramid) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const pixelWidth = Math.max(1, Math.floor(canvasSize.width * dpr));
+    const pixelHeight = Math.floor(MINIMAP_HEIGHT * dpr);
+    if (canvas.width !== pixelWidth) canvas.width = pixelWidth;
+    if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
+    canvas.style.width = `${canvasSize.width}px`;
+    canvas.style.height = `${MINIMAP_HEIGHT}px`;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, pixelWidth, pixelHeight);
+
+    const min = new Float32Array(pixelWidth);
+    const max = new Float32Array(pixelWidth);
+    pyramid.query(0, 0, pyramid.length / pixelWidth, min, max);
+
+    const centerY = pixelHeight / 2;
+    ctx.fillStyle = color;
+    ctx.globalAlpha = 0.6;
+    for (let x = 0; x < pixelWidth; x++) {
+      const top = centerY - max[x] * centerY;
+      ctx.fillRect(x, top, 1, Math.max(1, (max[x] - min[x]) * centerY));
+    }
+    ctx.globalAlpha = 1;
+
+    const viewX = (view.start / totalDuration) * pixelWidth;
+    const viewWidth = Math.max(2 * dpr, (view.duration / totalDuration) * pixelWidth);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.fillRect(viewX, 0, viewWidth, pixelHeight);
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = dpr;
+    ctx.strokeRect(viewX + dpr / 2, dpr / 2, viewWidth - dpr, pixelHeight - dpr);
+
+    if (showProgress) {
+      const progressX = (currentTime / totalDuration) * pixelWidth;
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(progressX, 0, dpr, pixelHeight);
     }
-  }, [waveformData, canvasSize, color, backgroundColor, currentTime, audioFile.duration, showProgress]);
+  }, [pyramid, canvasSize.width, color, view, totalDuration, currentTime, showProgress]);
 
   // Redraw when dependencies change
   useEffect(() => {
     drawWaveform();
   }, [drawWaveform]);
 
-  // Handle canvas click for seeking
-  const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!interactive || !onSeek || !audioFile.duration) return;
+  useEffect(() => {
+    if (showMinimap && isZoomed) drawMinimap();
+  }, [drawMinimap, showMinimap, isZoomed]);
+
+  // Page the view forward when playback runs off its right edge
+  useEffect(() => {
+    const previous = previousTimeRef.current;
+    previousTimeRef.current = currentTime;
+    if (dragRef.current || editRef.current) return;
+
+    const { start, duration } = viewRef.current;
+    const end = start + duration;
+    if (duration < totalDuration && previous >= start && previous <= end && currentTime > end) {
+      updateView({ start: currentTime, duration });
+    }
+  }, [currentTime, totalDuration, updateView]);
 
+  // Wheel zooms around the cursor; horizontal or shift+wheel pans. Needs a non-passive listener to stop page scroll
+  useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !zoomable) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!totalDuration) return;
+      event.preventDefault();
+
+      const rect = canvas.getBoundingClientRect();
+      const anchor = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+      updateView(TimeViewUtils.zoomFromWheel(viewRef.current, event, anchor, rect.width, totalDuration, minViewDuration()));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomable, totalDuration, minViewDuration, updateView, isLoading]);
 
+  const timeAtClientX = useCallback((clientX: number): number => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 0;
     const rect = canvas.getBoundingClientRect();
-    const clickX = event.clientX - rect.left;
-    const progress = clickX / rect.width;
-    const seekTime = progress * audioFile.duration;
-    
-    onSeek(Math.max(0, Math.min(seekTime, audioFile.duration)));
-  }, [interactive, onSeek, audioFile.duration]);
+    const current = viewRef.current;
+    return current.start + ((clientX - rect.left) / rect.width) * current.duration;
+  }, []);
+
+  const selectable = interactive && !!onSelectionChange;
+
+  const clampTime = useCallback((time: number) => Math.max(0, Math.min(time, totalDuration)), [totalDuration]);
+
+  const applyEdit = useCallback((edit: EditState, clientX: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const delta = ((clientX - edit.startX) / canvas.getBoundingClientRect().width) * viewRef.current.duration;
+    const { target } = edit;
+
+    switch (target.kind) {
+      case 'select':
+        onSelectionChange?.(RegionUtils.normalize({ start: target.anchor, end: timeAtClientX(clientX) }, totalDuration));
+        break;
+      case 'selection':
+        onSelectionChange?.(RegionUtils.resize(target.origin, target.edge, delta, totalDuration));
+        break;
+      case 'region': {
+        const moved = RegionUtils.resize(target.origin, target.edge, delta, totalDuration);
+        onLoopRegionsChange?.(loopRegions.map(region => (region.id === moved.id ? moved : region)));
+        break;
+      }
+      case 'marker': {
+        const time = clampTime(target.origin.time + delta);
+        onMarkersChange?.(markers.map(marker => (marker.id === target.origin.id ? { ...marker, time } : marker)));
+        break;
+      }
+    }
+  }, [onSelectionChange, onLoopRegionsChange, onMarkersChange, loopRegions, markers, totalDuration, timeAtClientX, clampTime]);
+
+  // A press that never moved far enough to count as a drag
+  const clickEdit = useCallback((edit: EditState, clientX: number) => {
+    const { target } = edit;
+    switch (target.kind) {
+      case 'select':
+        if (selection) onSelectionChange?.(null);
+        onSeek?.(clampTime(timeAtClientX(clientX)));
+        break;
+      case 'region':
+        onActiveLoopChange?.(activeLoopId === target.origin.id ? null : target.origin.id);
+        break;
+      case 'marker':
+        onSeek?.(target.origin.time);
+        break;
+      case 'selection':
+        onSeek?.(target.origin.start);
+        break;
+    }
+  }, [selection, onSelectionChange, onSeek, onActiveLoopChange, activeLoopId, timeAtClientX, clampTime]);
+
+  const startEdit = useCallback((event: React.PointerEvent<HTMLElement>, target: EditTarget) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    editRef.current = { pointerId: event.pointerId, startX: event.clientX, moved: false, target };
+  }, []);
+
+  const handleEditPointerMove = useCallback((event: React.PointerEvent<HTMLElement>) => {
+    const edit = editRef.current;
+    if (!edit || edit.pointerId !== event.pointerId) return;
+    if (!edit.moved && Math.abs(event.clientX - edit.startX) < DRAG_THRESHOLD) return;
+    edit.moved = true;
+    applyEdit(edit, event.clientX);
+  }, [applyEdit]);
+
+  const handleEditPointerUp = useCallback((event: React.PointerEvent<HTMLElement>) => {
+    const edit = editRef.current;
+    if (!edit || edit.pointerId !== event.pointerId) return;
+    editRef.current = null;
+    if (!edit.moved) clickEdit(edit, event.clientX);
+  }, [clickEdit]);
+
+  const cancelEdit = useCallback(() => {
+    editRef.current = null;
+  }, []);
+
+  // Drag selects when selection is enabled, otherwise (or with Alt or the middle button) it pans;
+  // a press without movement seeks
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0 && event.button !== 1) return;
+    if (selectable && event.button === 0 && !event.altKey) {
+      startEdit(event, { kind: 'select', anchor: clampTime(timeAtClientX(event.clientX)) });
+      return;
+    }
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, startX: event.clientX, startView: viewRef.current, moved: false };
+  }, [selectable, startEdit, clampTime, timeAtClientX]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (editRef.current) {
+      handleEditPointerMove(event);
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+
+    const dx = event.clientX - drag.startX;
+    if (!drag.moved && Math.abs(dx) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+
+    if (zoomable) {
+      updateView(TimeViewUtils.panBy(drag.startView, dx, event.currentTarget.getBoundingClientRect().width));
+    }
+  }, [zoomable, updateView, handleEditPointerMove]);
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (editRef.current) {
+      handleEditPointerUp(event);
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    dragRef.current = null;
+
+    if (!drag.moved && interactive && onSeek && totalDuration) {
+      onSeek(clampTime(timeAtClientX(event.clientX)));
+    }
+  }, [interactive, onSeek, totalDuration, timeAtClientX, clampTime, handleEditPointerUp]);
+
+  // Double-click drops a marker where it landed
+  const handleDoubleClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!interactive || !onMarkersChange || !totalDuration) return;
+    const marker = RegionUtils.createMarker(markers, clampTime(timeAtClientX(event.clientX)));
+    onMarkersChange([...markers, marker].sort((a, b) => a.time - b.time));
+  }, [interactive, onMarkersChange, markers, totalDuration, timeAtClientX, clampTime]);
+
+  const deleteMarker = useCallback((id: string) => {
+    onMarkersChange?.(markers.filter(marker => marker.id !== id));
+  }, [onMarkersChange, markers]);
+
+  const deleteRegion = useCallback((id: string) => {
+    onLoopRegionsChange?.(loopRegions.filter(region => region.id !== id));
+    if (id === activeLoopId) onActiveLoopChange?.(null);
+  }, [onLoopRegionsChange, loopRegions, activeLoopId, onActiveLoopChange]);
+
+  const commitRename = useCallback((name: string) => {
+    const target = renaming;
+    setRenaming(null);
+    const trimmed = name.trim();
+    if (!target || !trimmed) return;
+
+    if (target.kind === 'marker') {
+      onMarkersChange?.(markers.map(marker => (marker.id === target.id ? { ...marker, name: trimmed } : marker)));
+    } else {
+      onLoopRegionsChange?.(loopRegions.map(region => (region.id === target.id ? { ...region, name: trimmed } : region)));
+    }
+  }, [renaming, markers, loopRegions, onMarkersChange, onLoopRegionsChange]);
+
+  // Clicking or dragging on the minimap centres the view there
+  const centerViewAt = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const time = ((event.clientX - rect.left) / rect.width) * totalDuration;
+    const current = viewRef.current;
+    updateView({ start: time - current.duration / 2, duration: current.duration });
+  }, [totalDuration, updateView]);
+
+  const handleMinimapPointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    centerViewAt(event);
+  }, [centerViewAt]);
+
+  const handleMinimapPointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) centerViewAt(event);
+  }, [centerViewAt]);
+
+  const toPercent = (time: number) => (100 * (time - view.start)) / view.duration;
 
   if (isLoading) {
     return (
@@ -178,20 +742,150 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
   return (
     <div
       ref={containerRef}
-      className={`waveform-container ${className}`}
+      className={`waveform-container ${isZoomed && showMinimap ? 'zoomed' : ''} ${laneMode !== 'single' ? 'multi-lane' : ''} ${className}`}
       style={{ width: width || '100%', height }}
     >
       <canvas
         ref={canvasRef}
         className={`waveform-canvas ${interactive ? 'interactive' : ''}`}
-        onClick={handleCanvasClick}
-        style={{ cursor: interactive ? 'pointer' : 'default' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; editRef.current = null; }}
+        onDoubleClick={handleDoubleClick}
+        style={{
+          cursor: selectable ? 'text' : interactive ? 'pointer' : 'default',
+          touchAction: zoomable || selectable ? 'none' : 'auto',
+        }}
       />
-      
+
+      <div className="waveform-overlays">
+        {loopRegions.map((region) => {
+          const editable = interactive && !!onLoopRegionsChange;
+          const isActive = region.id === activeLoopId;
+          return (
+            <div
+              key={region.id}
+              className={`waveform-region ${isActive ? 'active' : ''} ${editable ? 'editable' : ''}`}
+              style={{
+                left: `${toPercent(region.start)}%`,
+                width: `${(100 * (region.end - region.start)) / view.duration}%`,
+                '--region-color': region.color ?? '#B19EEF',
+              } as React.CSSProperties}
+              title={isActive ? `${region.name} (looping)` : region.name}
+              onPointerMove={editable ? handleEditPointerMove : undefined}
+              onPointerUp={handleEditPointerUp}
+              onPointerCancel={cancelEdit}
+            >
+              {editable && (
+                <>
+                  <span className="waveform-region-handle start" onPointerDown={(e) => startEdit(e, { kind: 'region', edge: 'start', origin: region })} />
+                  <span className="waveform-region-handle end" onPointerDown={(e) => startEdit(e, { kind: 'region', edge: 'end', origin: region })} />
+                </>
+              )}
+              <span
+                className="waveform-region-label"
+                onPointerDown={(e) => interactive && startEdit(e, { kind: 'region', edge: 'body', origin: region })}
+                onDoubleClick={() => editable && setRenaming({ kind: 'region', id: region.id })}
+              >
+                {renaming?.kind === 'region' && renaming.id === region.id ? (
+                  <RenameInput value={region.name} onCommit={commitRename} onCancel={() => setRenaming(null)} />
+                ) : (
+                  region.name
+                )}
+                {editable && (
+                  <button
+                    className="waveform-delete"
+                    aria-label={`Delete ${region.name}`}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => deleteRegion(region.id)}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+
+        {selection && (
+          <div
+            className="waveform-selection"
+            style={{
+              left: `${toPercent(selection.start)}%`,
+              width: `${(100 * (selection.end - selection.start)) / view.duration}%`,
+            }}
+            onPointerMove={handleEditPointerMove}
+            onPointerUp={handleEditPointerUp}
+            onPointerCancel={cancelEdit}
+          >
+            {selectable && (
+              <>
+                <span className="waveform-region-handle start" onPointerDown={(e) => startEdit(e, { kind: 'selection', edge: 'start', origin: selection })} />
+                <span className="waveform-region-handle end" onPointerDown={(e) => startEdit(e, { kind: 'selection', edge: 'end', origin: selection })} />
+              </>
+            )}
+          </div>
+        )}
+
+        {markers.map((marker) => {
+          const editable = interactive && !!onMarkersChange;
+          return (
+            <div
+              key={marker.id}
+              className={`waveform-marker ${editable ? 'editable' : ''}`}
+              style={{ left: `${toPercent(marker.time)}%` }}
+            >
+              <span
+                className="waveform-marker-flag"
+                title={`${marker.name} · ${audioUtils.formatTime(marker.time)}`}
+                onPointerDown={(e) => interactive && startEdit(e, { kind: 'marker', origin: marker })}
+                onPointerMove={editable ? handleEditPointerMove : undefined}
+                onPointerUp={handleEditPointerUp}
+                onPointerCancel={cancelEdit}
+                onDoubleClick={() => editable && setRenaming({ kind: 'marker', id: marker.id })}
+              >
+                {renaming?.kind === 'marker' && renaming.id === marker.id ? (
+                  <RenameInput value={marker.name} onCommit={commitRename} onCancel={() => setRenaming(null)} />
+                ) : (
+                  marker.name
+                )}
+                {editable && (
+                  <button
+                    className="waveform-delete"
+                    aria-label={`Delete ${marker.name}`}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => deleteMarker(marker.id)}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {showMinimap && isZoomed && (
+        <canvas
+          ref={minimapRef}
+          className="waveform-minimap"
+          onPointerDown={handleMinimapPointerDown}
+          onPointerMove={handleMinimapPointerMove}
+        />
+      )}
+
+      {zoomable && isZoomed && (
+        <div className="waveform-zoom">
+          <span>×{(totalDuration / view.duration).toFixed(totalDuration / view.duration < 10 ? 1 : 0)}</span>
+          <button onClick={() => updateView(TimeViewUtils.full(totalDuration))}>Fit</button>
+        </div>
+      )}
+
       {/* Time markers */}
       <div className="waveform-timeline">
         {Array.from({ length: 5 }, (_, i) => {
-          const time = (audioFile.duration / 4) * i;
+          const time = view.start + (view.duration / 4) * i;
           const position = (i / 4) * 100;
           return (
             <div
@@ -208,4 +902,4 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
   );
 };
 
-export default WaveformVisualizer;
\ No newline at end of file
+export default WaveformVisualizer;
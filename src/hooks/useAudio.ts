@@ -1,6 +1,11 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { AudioFile, AudioAnalysis, FrequencyData } from '@/types/audio';
+import { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import { AudioFile, AudioAnalysis, AudioMarker, AudioRegion, CoverArt, FrequencyData, TimeRange } from '@/types/audio';
 import { audioUtils, AudioContextManager } from '@/lib/audio/audioUtils';
+import { AnalysisTask, AnalysisWorkerService, isAbortError } from '@/lib/audio/analysisWorkerService';
+import { SessionLibrary, SessionLibraryEntry } from '@/lib/audio/sessionLibrary';
+import { BatchItem, BatchLoadQueue } from '@/lib/audio/batchLoader';
+import { AudioLibraryStore, LibraryRecord } from '@/lib/audio/libraryStore';
+import { RegionUtils } from '@/lib/audio/regions';
 
 /**
  * Hook for loading and analyzing audio files
@@ -15,7 +20,8 @@ export const useAudioLoader = () => {
     setError(null);
     
     try {
-      const loadedAudio = await audioUtils.loadAudioFile(file);
+      const loadedAudio = await AudioLibraryStore.openFile(file);
+      SessionLibrary.getInstance().add(loadedAudio);
       setAudioFile(loadedAudio);
       return loadedAudio;
     } catch (err) {
@@ -45,27 +51,55 @@ export const useAudioLoader = () => {
 };
 
 /**
- * Hook for real-time audio analysis
+ * Hook for whole-file audio analysis, run in a Web Worker
  */
 export const useAudioAnalysis = (audioFile: AudioFile | null) => {
   const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [stage, setStage] = useState<string | null>(null);
+  const taskRef = useRef<AnalysisTask<AudioAnalysis> | null>(null);
+
+  const cancel = useCallback(() => {
+    taskRef.current?.cancel();
+    taskRef.current = null;
+  }, []);
 
   const analyzeAudio = useCallback(async () => {
     if (!audioFile) return null;
 
+    cancel();
+    const task = AnalysisWorkerService.analyze(audioFile.audioBuffer, {
+      onProgress: (value, currentStage) => {
+        setProgress(value);
+        setStage(currentStage);
+      },
+    });
+    taskRef.current = task;
+
     setIsAnalyzing(true);
+    setProgress(0);
+    setStage(null);
     try {
-      const result = audioUtils.analyzeAudio(audioFile.audioBuffer);
+      const result = await task.promise;
       setAnalysis(result);
       return result;
     } catch (error) {
-      console.error('Error analyzing audio:', error);
+      if (!isAbortError(error)) {
+        console.error('Error analyzing audio:', error);
+      }
       return null;
     } finally {
-      setIsAnalyzing(false);
+      // A newer run may have replaced this one while it was in flight
+      if (taskRef.current === task) {
+        taskRef.current = null;
+        setIsAnalyzing(false);
+        setStage(null);
+      } else if (!taskRef.current) {
+        setIsAnalyzing(false);
+      }
     }
-  }, [audioFile]);
+  }, [audioFile, cancel]);
 
   useEffect(() => {
     if (audioFile) {
@@ -73,12 +107,16 @@ export const useAudioAnalysis = (audioFile: AudioFile | null) => {
     } else {
       setAnalysis(null);
     }
-  }, [audioFile, analyzeAudio]);
+    return cancel;
+  }, [audioFile, analyzeAudio, cancel]);
 
   return {
     analysis,
     isAnalyzing,
+    progress,
+    stage,
     analyzeAudio,
+    cancel,
   };
 };
 
@@ -411,4 +449,124 @@ export const useAudioVisualization = (audioFile: AudioFile | null, samples: numb
     isGenerating,
     regenerate: generateWaveform,
   };
-};
\ No newline at end of file
+};
+/**
+ * Hook exposing embedded cover art as an object URL, revoked when the art changes or on unmount
+ */
+export const useCoverArtUrl = (coverArt: CoverArt | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!coverArt) {
+      setUrl(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(
+      new Blob([coverArt.data as Uint8Array<ArrayBuffer>], { type: coverArt.mimeType })
+    );
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [coverArt]);
+
+  return url;
+};
+
+const EMPTY_LIBRARY: SessionLibraryEntry[] = [];
+const EMPTY_QUEUE: BatchItem[] = [];
+
+/**
+ * Hook exposing the session library of loaded files, shared across pages
+ */
+export const useSessionLibrary = () => {
+  const library = SessionLibrary.getInstance();
+  const entries = useSyncExternalStore(library.subscribe, library.getEntries, () => EMPTY_LIBRARY);
+
+  const open = useCallback((id: string) => library.open(id), [library]);
+  const remove = useCallback((id: string) => library.remove(id), [library]);
+  const clear = useCallback(() => library.clear(), [library]);
+
+  return {
+    entries,
+    open,
+    remove,
+    clear,
+  };
+};
+
+/**
+ * Hook exposing the shared batch load queue and its per-file status
+ */
+export const useBatchQueue = () => {
+  const queue = BatchLoadQueue.getInstance();
+  const items = useSyncExternalStore(queue.subscribe, queue.getItems, () => EMPTY_QUEUE);
+  const pending = items.filter(item => item.status === 'queued' || item.status === 'reading' || item.status === 'decoding').length;
+
+  return {
+    items,
+    pending,
+    queue,
+  };
+};
+
+/**
+ * Hook listing the persistent library, refreshed whenever it changes
+ */
+export const useLibraryRecords = () => {
+  const [records, setRecords] = useState<LibraryRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await AudioLibraryStore.list());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the audio library');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return AudioLibraryStore.subscribe(refresh);
+  }, [refresh]);
+
+  return {
+    records,
+    isLoading,
+    error,
+    refresh,
+  };
+};
+
+/**
+ * Hook holding the waveform selection, markers and loop regions for a file, seeded from the
+ * markers in its tags. The returned object spreads straight onto AudioPlayer or WaveformVisualizer
+ */
+export const useWaveformRegions = (audioFile: AudioFile | null) => {
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [markers, setMarkers] = useState<AudioMarker[]>([]);
+  const [loopRegions, setLoopRegions] = useState<AudioRegion[]>([]);
+  const [activeLoopId, setActiveLoopId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const seeded = audioFile ? RegionUtils.fromMetadata(audioFile.metadata, audioFile.duration) : null;
+    setSelection(null);
+    setMarkers(seeded?.markers ?? []);
+    setLoopRegions(seeded?.loopRegions ?? []);
+    setActiveLoopId(null);
+  }, [audioFile]);
+
+  return {
+    selection,
+    onSelectionChange: setSelection,
+    markers,
+    onMarkersChange: setMarkers,
+    loopRegions,
+    onLoopRegionsChange: setLoopRegions,
+    activeLoopId,
+    onActiveLoopChange: setActiveLoopId,
+  };
+};
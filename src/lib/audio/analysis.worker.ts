@@ -0,0 +1,45 @@
+import {
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  AnalysisWorkerService,
+  createBufferLike,
+} from './analysisWorkerService';
+
+// The project compiles against the DOM lib, so describe the dedicated worker scope locally
+interface AnalysisWorkerScope {
+  onmessage: ((event: MessageEvent<AnalysisWorkerRequest>) => void) | null;
+  postMessage(message: AnalysisWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as AnalysisWorkerScope;
+
+// Forward at most one progress message per percent; the frame loops report up to a hundred steps per stage
+const PROGRESS_STEP = 0.01;
+
+scope.onmessage = (event) => {
+  const { kind, sampleRate, channels, options } = event.data;
+  let lastProgress = -1;
+
+  try {
+    const audioBuffer = createBufferLike(channels, sampleRate);
+    const result = AnalysisWorkerService.runJob(kind, audioBuffer, (progress, stage) => {
+      if (progress - lastProgress < PROGRESS_STEP && progress < 1) return;
+      lastProgress = progress;
+      scope.postMessage({ type: 'progress', progress, stage });
+    }, options);
+    // Spectrograms and resynthesized audio can run to tens of megabytes, so hand them over instead of copying
+    const transfer: Transferable[] = [];
+    if ('data' in result && result.data instanceof Uint8Array) transfer.push(result.data.buffer);
+    if (kind === 'spectralEdit' && 'channels' in result) {
+      for (const channel of result.channels) {
+        if (channel instanceof Float32Array) transfer.push(channel.buffer);
+      }
+    }
+    scope.postMessage({ type: 'result', result }, transfer);
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Analysis failed',
+    });
+  }
+};
@@ -0,0 +1,254 @@
+import {
+  AudioAnalysis,
+  AudioBufferLike,
+  AudioFile,
+  AnalysisProgressCallback,
+  LoudnessMeasurement,
+  MLAudioFeatures,
+} from '@/types/audio';
+import { audioUtils } from './audioUtils';
+import { MLAudioAnalyzer } from './mlAudioAnalysis';
+import { DEFAULT_SPECTROGRAM_OPTIONS, SpectrogramAnalyzer, SpectrogramData, SpectrogramOptions } from './spectrogram';
+import { SpectralEdit, SpectralEditResult, SpectralEditor } from './spectralEdit';
+
+export type AnalysisJobKind = 'features' | 'analysis' | 'loudness' | 'spectrogram' | 'spectralEdit';
+
+interface AnalysisJobResults {
+  features: MLAudioFeatures;
+  analysis: AudioAnalysis;
+  loudness: LoudnessMeasurement;
+  spectrogram: SpectrogramData;
+  spectralEdit: SpectralEditResult;
+}
+
+/**
+ * Settings for the jobs that take any
+ */
+export interface AnalysisJobOptions {
+  spectrogram?: SpectrogramOptions;
+  spectralEdits?: SpectralEdit[];
+}
+
+/**
+ * Message posted to the analysis worker. Channel buffers are transferred, not copied.
+ */
+export interface AnalysisWorkerRequest {
+  kind: AnalysisJobKind;
+  sampleRate: number;
+  channels: Float32Array<ArrayBuffer>[];
+  options?: AnalysisJobOptions;
+}
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: number; stage: string }
+  | { type: 'result'; result: AnalysisJobResults[AnalysisJobKind] }
+  | { type: 'error'; message: string };
+
+/**
+ * A running analysis job. Cancelling rejects the promise with an AbortError.
+ */
+export interface AnalysisTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export interface AnalysisTaskOptions {
+  onProgress?: AnalysisProgressCallback;
+  jobOptions?: AnalysisJobOptions;
+}
+
+/**
+ * Wrap transferred channel arrays in the subset of the AudioBuffer interface the analysers use
+ */
+export const createBufferLike = (channels: Float32Array<ArrayBuffer>[], sampleRate: number): AudioBufferLike => {
+  const length = channels[0]?.length ?? 0;
+  return {
+    numberOfChannels: channels.length,
+    length,
+    sampleRate,
+    duration: length / sampleRate,
+    getChannelData: (channel: number) => {
+      if (channel < 0 || channel >= channels.length) {
+        throw new RangeError(`Channel index ${channel} out of range`);
+      }
+      return channels[channel];
+    },
+  };
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Runs whole-file analysis in a dedicated Web Worker so the UI stays responsive.
+ * Each job gets its own worker, which is terminated on completion or cancellation.
+ */
+export class AnalysisWorkerService {
+  static extractFeatures(audioFile: AudioFile, options: AnalysisTaskOptions = {}): AnalysisTask<MLAudioFeatures> {
+    return this.run('features', audioFile.audioBuffer, options);
+  }
+
+  static analyze(audioBuffer: AudioBuffer, options: AnalysisTaskOptions = {}): AnalysisTask<AudioAnalysis> {
+    return this.run('analysis', audioBuffer, options);
+  }
+
+  static measureLoudness(audioBuffer: AudioBuffer, options: AnalysisTaskOptions = {}): AnalysisTask<LoudnessMeasurement> {
+    return this.run('loudness', audioBuffer, options);
+  }
+
+  static computeSpectrogram(
+    audioBuffer: AudioBuffer,
+    spectrogram: SpectrogramOptions,
+    options: AnalysisTaskOptions = {}
+  ): AnalysisTask<SpectrogramData> {
+    return this.run('spectrogram', audioBuffer, { ...options, jobOptions: { ...options.jobOptions, spectrogram } });
+  }
+
+  /**
+   * Resynthesize the buffer with the edits applied, using the given STFT settings
+   */
+  static applySpectralEdits(
+    audioBuffer: AudioBuffer,
+    edits: SpectralEdit[],
+    spectrogram: SpectrogramOptions,
+    options: AnalysisTaskOptions = {}
+  ): AnalysisTask<SpectralEditResult> {
+    return this.run('spectralEdit', audioBuffer, {
+      ...options,
+      jobOptions: { ...options.jobOptions, spectrogram, spectralEdits: edits },
+    });
+  }
+
+  /**
+   * Execute a job synchronously; used by the worker itself and where workers are unavailable
+   */
+  static runJob<K extends AnalysisJobKind>(
+    kind: K,
+    audioBuffer: AudioBufferLike,
+    onProgress?: AnalysisProgressCallback,
+    options: AnalysisJobOptions = {}
+  ): AnalysisJobResults[K] {
+    switch (kind) {
+      case 'features':
+        return MLAudioAnalyzer.extractFeaturesFromBuffer(audioBuffer, onProgress) as AnalysisJobResults[K];
+      case 'analysis':
+        return audioUtils.analyzeAudio(audioBuffer, onProgress) as AnalysisJobResults[K];
+      case 'loudness': {
+        onProgress?.(0, 'Measuring loudness');
+        const loudness = audioUtils.measureLoudness(audioBuffer);
+        onProgress?.(1, 'Done');
+        return loudness as AnalysisJobResults[K];
+      }
+      case 'spectrogram':
+        return SpectrogramAnalyzer.compute(
+          audioBuffer,
+          options.spectrogram ?? DEFAULT_SPECTROGRAM_OPTIONS,
+          onProgress
+        ) as AnalysisJobResults[K];
+      case 'spectralEdit':
+        return SpectralEditor.apply(
+          audioBuffer,
+          options.spectralEdits ?? [],
+          options.spectrogram ?? DEFAULT_SPECTROGRAM_OPTIONS,
+          onProgress
+        ) as AnalysisJobResults[K];
+      default:
+        throw new Error(`Unknown analysis job: ${kind}`);
+    }
+  }
+
+  private static run<K extends AnalysisJobKind>(
+    kind: K,
+    audioBuffer: AudioBuffer,
+    { onProgress, jobOptions }: AnalysisTaskOptions
+  ): AnalysisTask<AnalysisJobResults[K]> {
+    if (typeof Worker === 'undefined') {
+      return this.runOnMainThread(kind, audioBuffer, onProgress, jobOptions);
+    }
+
+    let worker: Worker | null = new Worker(new URL('./analysis.worker.ts', import.meta.url));
+    let rejectTask: (reason: unknown) => void = () => {};
+
+    const finish = () => {
+      worker?.terminate();
+      worker = null;
+    };
+
+    const promise = new Promise<AnalysisJobResults[K]>((resolve, reject) => {
+      rejectTask = reject;
+
+      worker!.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.progress, message.stage);
+            break;
+          case 'result':
+            finish();
+            resolve(message.result as AnalysisJobResults[K]);
+            break;
+          case 'error':
+            finish();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      worker!.onerror = (event: ErrorEvent) => {
+        finish();
+        reject(new Error(event.message || 'Analysis worker failed'));
+      };
+
+      // Copy each channel so the AudioBuffer stays usable for playback, then transfer the copies
+      const channels: Float32Array<ArrayBuffer>[] = [];
+      for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+        channels.push(audioBuffer.getChannelData(channel).slice());
+      }
+      const request: AnalysisWorkerRequest = { kind, sampleRate: audioBuffer.sampleRate, channels, options: jobOptions };
+      worker!.postMessage(request, channels.map(data => data.buffer));
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        if (!worker) return;
+        finish();
+        rejectTask(new DOMException('Analysis cancelled', 'AbortError'));
+      },
+    };
+  }
+
+  /**
+   * Fallback for environments without Web Workers. Deferred a tick so cancel can still win.
+   */
+  private static runOnMainThread<K extends AnalysisJobKind>(
+    kind: K,
+    audioBuffer: AudioBuffer,
+    onProgress?: AnalysisProgressCallback,
+    jobOptions?: AnalysisJobOptions
+  ): AnalysisTask<AnalysisJobResults[K]> {
+    let cancelled = false;
+    let rejectTask: (reason: unknown) => void = () => {};
+
+    const promise = new Promise<AnalysisJobResults[K]>((resolve, reject) => {
+      rejectTask = reject;
+      setTimeout(() => {
+        if (cancelled) return;
+        try {
+          resolve(this.runJob(kind, audioBuffer, onProgress, jobOptions));
+        } catch (error) {
+          reject(error);
+        }
+      }, 0);
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        if (cancelled) return;
+        cancelled = true;
+        rejectTask(new DOMException('Analysis cancelled', 'AbortError'));
+      },
+    };
+  }
+}
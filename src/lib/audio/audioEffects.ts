@@ -5,11 +5,14 @@ import { AudioContextManager } from './audioUtils';
  * Audio effects processing utilities
  */
 export class AudioEffectProcessor {
-  private context: AudioContext;
+  private context: BaseAudioContext;
   private effectNodes: Map<string, AudioNode> = new Map();
 
-  constructor() {
-    this.context = AudioContextManager.getInstance().getContext();
+  /**
+   * Build nodes on the shared playback context, or on a given (e.g. offline) context
+   */
+  constructor(context?: BaseAudioContext) {
+    this.context = context ?? AudioContextManager.getInstance().getContext();
   }
 
   /**
@@ -96,11 +99,20 @@ export class AudioEffectProcessor {
     const length = sampleRate * decay;
     const impulse = this.context.createBuffer(2, length, sampleRate);
 
+    // Seeded noise keeps the impulse, and therefore offline renders, reproducible
+    let seed = 0x9e3779b9;
+    const random = () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
     for (let channel = 0; channel < 2; channel++) {
       const channelData = impulse.getChannelData(channel);
       for (let i = 0; i < length; i++) {
         const n = length - i;
-        channelData[i] = (Math.random() * 2 - 1) * Math.pow(n / length, roomSize);
+        channelData[i] = (random() * 2 - 1) * Math.pow(n / length, roomSize);
       }
     }
 
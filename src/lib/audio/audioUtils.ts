@@ -1,4 +1,23 @@
-import { AudioFile, WaveformData, AudioAnalysis } from '@/types/audio';
+import {
+  AudioFile,
+  WaveformData,
+  AudioAnalysis,
+  AudioBufferLike,
+  AnalysisProgressCallback,
+  TempoEstimate,
+  LoudnessMeasurement,
+  FeatureTracks,
+  KeyEstimate,
+} from '@/types/audio';
+import { BeatTracker } from './beatTracking';
+import { ChannelAnalyzer } from './channelAnalysis';
+import { FFT, nextPowerOfTwo } from './fft';
+import { FeatureTrackExtractor } from './featureTracks';
+import { KeyDetector } from './keyDetection';
+import { LoudnessMeter } from './loudness';
+import { MetadataParser } from './metadataParser';
+import { PcmDecoder } from './pcmDecoder';
+import { STFT } from './stft';
 
 /**
  * AudioContext singleton manager
@@ -189,13 +208,19 @@ class AudioContextManager {
  */
 export const audioUtils = {
   /**
-   * Load audio file and create AudioFile object
+   * Load audio file and create AudioFile object. Pass the bytes when the caller has already read them
    */
-  async loadAudioFile(file: File): Promise<AudioFile> {
-    const buffer = await file.arrayBuffer();
+  async loadAudioFile(file: File, preloaded?: ArrayBuffer): Promise<AudioFile> {
+    const buffer = preloaded ?? await file.arrayBuffer();
     const audioContext = AudioContextManager.getInstance().getContext();
-    const audioBuffer = await audioContext.decodeAudioData(buffer.slice(0));
+    const audioBuffer = await this.decodeAudio(buffer, audioContext);
+    return this.createAudioFile(file, buffer, audioBuffer);
+  },
 
+  /**
+   * Assemble an AudioFile from its bytes and already decoded samples
+   */
+  createAudioFile(file: File, buffer: ArrayBuffer, audioBuffer: AudioBuffer): AudioFile {
     return {
       file,
       buffer,
@@ -207,9 +232,27 @@ export const audioUtils = {
       name: file.name,
       size: file.size,
       lastModified: file.lastModified,
+      metadata: MetadataParser.parse(buffer),
     };
   },
 
+  /**
+   * Decode with the browser first, falling back to the built-in WAV/AIFF decoder
+   * for containers and encodings the browser rejects (RF64, µ-law, AIFF, ...)
+   */
+  async decodeAudio(buffer: ArrayBuffer, audioContext: BaseAudioContext): Promise<AudioBuffer> {
+    try {
+      return await audioContext.decodeAudioData(buffer.slice(0));
+    } catch (browserError) {
+      if (!PcmDecoder.canDecode(buffer)) {
+        const reason = browserError instanceof Error && browserError.message ? `: ${browserError.message}` : '';
+        throw new Error(`The browser could not decode this file${reason}`);
+      }
+      // AudioDecodeError carries a specific reason, so let it propagate as-is
+      return PcmDecoder.toAudioBuffer(PcmDecoder.decode(buffer), audioContext);
+    }
+  },
+
   /**
    * Generate waveform data from audio buffer
    */
@@ -252,10 +295,12 @@ export const audioUtils = {
   /**
    * Analyze audio buffer for various audio features
    */
-  analyzeAudio(audioBuffer: AudioBuffer): AudioAnalysis {
-    const channelData = audioBuffer.getChannelData(0);
+  analyzeAudio(audioBuffer: AudioBufferLike, onProgress?: AnalysisProgressCallback): AudioAnalysis {
+    // File-level features describe the mono downmix; per-channel results are kept separately
+    const channelData = STFT.downmix(audioBuffer);
     const length = channelData.length;
     const sampleRate = audioBuffer.sampleRate;
+    onProgress?.(0, 'Measuring levels');
 
     // RMS (Root Mean Square)
     let rmsSum = 0;
@@ -275,47 +320,57 @@ export const audioUtils = {
     const rms = Math.sqrt(rmsSum / length);
     const zeroCrossingRate = zeroCrossings / (length / sampleRate);
 
-    // FFT for spectral analysis
-    const fftSize = 2048;
-    const fftData = this.performFFT(channelData.slice(0, fftSize));
-    const spectralCentroid = this.calculateSpectralCentroid(fftData, sampleRate);
-    const spectralRolloff = this.calculateSpectralRolloff(fftData, sampleRate);
+    // Per-frame feature tracks over the whole file
+    onProgress?.(0.05, 'Extracting feature tracks');
+    const tracks = FeatureTrackExtractor.extract(
+      channelData,
+      sampleRate,
+      { fftSize: 2048, hopSize: 1024 },
+      (progress, stage) => onProgress?.(0.05 + progress * 0.3, stage)
+    );
+    const statistics = FeatureTrackExtractor.summarize(tracks);
+
+    onProgress?.(0.35, 'Tracking tempo');
+    const tempo = this.estimateTempo(channelData, sampleRate);
+    onProgress?.(0.5, 'Detecting key');
+    const key = this.estimateKey(tracks);
+    onProgress?.(0.55, 'Measuring loudness');
+    const loudness = this.measureLoudness(audioBuffer);
+    onProgress?.(0.8, 'Analysing channels');
+    const multichannel = ChannelAnalyzer.analyze(audioBuffer);
+    onProgress?.(1, 'Done');
 
     return {
       rms,
       peak,
-      spectralCentroid,
-      spectralRolloff,
+      spectralCentroid: statistics.centroid.mean,
+      spectralRolloff: statistics.rolloff.mean,
       zeroCrossingRate,
-      mfcc: this.calculateMFCC(fftData),
-      chroma: this.calculateChroma(fftData, sampleRate),
-      tempo: this.estimateTempo(channelData, sampleRate),
-      key: this.estimateKey(fftData, sampleRate),
-      loudness: this.calculateLoudness(rms),
+      mfcc: statistics.mfcc,
+      chroma: statistics.chroma,
+      tempo,
+      key,
+      loudness,
+      tracks,
+      statistics,
+      multichannel,
     };
   },
 
   /**
-   * Simple FFT implementation for spectral analysis
+   * Magnitude spectrum of a signal, zero-padded to the next power of two
    */
   performFFT(signal: Float32Array): Float32Array {
-    const N = signal.length;
-    const spectrum = new Float32Array(N / 2);
-    
-    // Simple magnitude spectrum calculation
-    for (let k = 0; k < N / 2; k++) {
-      let real = 0;
-      let imag = 0;
-      
-      for (let n = 0; n < N; n++) {
-        const angle = -2 * Math.PI * k * n / N;
-        real += signal[n] * Math.cos(angle);
-        imag += signal[n] * Math.sin(angle);
-      }
-      
-      spectrum[k] = Math.sqrt(real * real + imag * imag);
-    }
-    
+    const size = nextPowerOfTwo(Math.max(2, signal.length));
+    const fft = new FFT(size);
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+    real.set(signal);
+
+    fft.forward(real, imag);
+
+    const spectrum = new Float32Array(size / 2);
+    fft.magnitudes(real, imag, spectrum);
     return spectrum;
   },
 
@@ -395,39 +450,24 @@ export const audioUtils = {
   },
 
   /**
-   * Estimate tempo using autocorrelation
+   * Estimate tempo and beat positions using onset-strength autocorrelation
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  estimateTempo(_signal: Float32Array, _sampleRate: number): number {
-    // This is a simplified tempo estimation
-    // Real implementation would use onset detection and autocorrelation
-    // For now, return a default tempo
-    return 120;
+  estimateTempo(signal: Float32Array, sampleRate: number): TempoEstimate {
+    return BeatTracker.analyze(signal, sampleRate);
   },
 
   /**
-   * Estimate musical key
+   * Estimate musical key by correlating the whole-file chromagram with key profiles
    */
-  estimateKey(spectrum: Float32Array, sampleRate: number): string {
-    const chroma = this.calculateChroma(spectrum, sampleRate);
-    const keys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-    
-    // Find the chroma bin with maximum energy
-    let maxIndex = 0;
-    for (let i = 1; i < chroma.length; i++) {
-      if (chroma[i] > chroma[maxIndex]) {
-        maxIndex = i;
-      }
-    }
-    
-    return keys[maxIndex];
+  estimateKey(tracks: FeatureTracks): KeyEstimate {
+    return KeyDetector.detectFromTracks(tracks);
   },
 
   /**
-   * Calculate loudness in LUFS (simplified)
+   * Measure BS.1770 loudness (LUFS), loudness range and true peak
    */
-  calculateLoudness(rms: number): number {
-    return 20 * Math.log10(rms + 1e-10);
+  measureLoudness(audioBuffer: AudioBufferLike): LoudnessMeasurement {
+    return LoudnessMeter.measure(audioBuffer);
   },
 
   /**
@@ -499,6 +539,21 @@ export const audioUtils = {
     return fadedBuffer;
   },
 
+  /**
+   * Save a Blob to disk through a temporary download link
+   */
+  downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  },
+
   /**
    * Convert time to samples
    */
@@ -0,0 +1,265 @@
+import { AudioFile } from '@/types/audio';
+import { FormatSniffer, FormatSummary } from './formatSniffer';
+import { AudioLibraryStore } from './libraryStore';
+import { SessionLibrary } from './sessionLibrary';
+
+export type BatchItemStatus = 'queued' | 'reading' | 'decoding' | 'done' | 'error' | 'skipped' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  path: string;
+  status: BatchItemStatus;
+  progress: number;
+  summary?: FormatSummary;
+  error?: string;
+}
+
+/**
+ * A file collected from a drop or file input, with its path inside any dropped folder
+ */
+export interface BatchSource {
+  file: File;
+  path: string;
+  fromFolder: boolean;
+}
+
+export interface BatchEnqueueOptions {
+  maxSize?: number;
+  onLoaded?: (audioFile: AudioFile, item: BatchItem) => void;
+  onError?: (message: string, item: BatchItem) => void;
+}
+
+interface BatchJob {
+  fromFolder: boolean;
+  options: BatchEnqueueOptions;
+}
+
+type Listener = () => void;
+
+// Reading is a known fraction of the work; decodeAudioData reports nothing until it finishes
+const READ_PROGRESS_SHARE = 0.6;
+
+const FINISHED_STATUSES: BatchItemStatus[] = ['done', 'error', 'skipped', 'cancelled'];
+
+/**
+ * Shared queue that reads, sniffs and decodes many files with limited concurrency.
+ * Loaded files go into the SessionLibrary; the queue outlives the component that filled it
+ */
+export class BatchLoadQueue {
+  private static instance: BatchLoadQueue;
+  private items: BatchItem[] = [];
+  private jobs = new Map<string, BatchJob>();
+  private listeners = new Set<Listener>();
+  private running = 0;
+  private nextId = 0;
+  private concurrency = 2;
+
+  private constructor() {}
+
+  static getInstance(): BatchLoadQueue {
+    if (!BatchLoadQueue.instance) {
+      BatchLoadQueue.instance = new BatchLoadQueue();
+    }
+    return BatchLoadQueue.instance;
+  }
+
+  getItems = (): BatchItem[] => this.items;
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Number of files decoded at once. Each decode holds the whole file and its PCM in memory
+   */
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  enqueue(sources: BatchSource[], options: BatchEnqueueOptions = {}): string[] {
+    const added = sources.map((source): BatchItem => {
+      const id = `batch-${this.nextId++}`;
+      this.jobs.set(id, { fromFolder: source.fromFolder, options });
+      return { id, file: source.file, path: source.path, status: 'queued', progress: 0 };
+    });
+
+    this.items = [...this.items, ...added];
+    this.notify();
+    this.pump();
+    return added.map(item => item.id);
+  }
+
+  /**
+   * Cancel a queued or in-flight item. A decode already handed to the browser runs on, but its result is dropped
+   */
+  cancel(id: string): void {
+    const item = this.items.find(candidate => candidate.id === id);
+    if (!item || FINISHED_STATUSES.includes(item.status)) return;
+    this.update(id, { status: 'cancelled' });
+  }
+
+  cancelAll(): void {
+    this.items
+      .filter(item => !FINISHED_STATUSES.includes(item.status))
+      .forEach(item => this.update(item.id, { status: 'cancelled' }));
+  }
+
+  clearFinished(): void {
+    this.items = this.items.filter(item => {
+      const finished = FINISHED_STATUSES.includes(item.status);
+      if (finished) this.jobs.delete(item.id);
+      return !finished;
+    });
+    this.notify();
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency) {
+      const next = this.items.find(item => item.status === 'queued');
+      if (!next) return;
+
+      this.running++;
+      this.update(next.id, { status: 'reading' });
+      this.load(next).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async load(item: BatchItem): Promise<void> {
+    const job = this.jobs.get(item.id);
+    const maxSize = job?.options.maxSize ?? Infinity;
+
+    if (item.file.size > maxSize) {
+      this.fail(item, `File size must be less than ${Math.round(maxSize / (1024 * 1024))}MB`);
+      return;
+    }
+
+    try {
+      const buffer = await this.readWithProgress(item);
+      if (!buffer) return;
+
+      // Folders often hold cover art and text files; skip those quietly instead of flagging an error
+      if (job?.fromFolder && FormatSniffer.detect(buffer) === null) {
+        this.update(item.id, { status: 'skipped', progress: 1, error: 'Not an audio file' });
+        return;
+      }
+
+      // Null for unrecognised bytes that might still decode; the decoder then has the final say
+      const summary = FormatSniffer.probe(buffer) ?? undefined;
+      this.update(item.id, { status: 'decoding', progress: READ_PROGRESS_SHARE, summary });
+
+      const audioFile = await AudioLibraryStore.openFile(item.file, buffer);
+      if (this.isCancelled(item.id)) return;
+
+      SessionLibrary.getInstance().add(audioFile);
+      this.update(item.id, { status: 'done', progress: 1 });
+      job?.options.onLoaded?.(audioFile, this.items.find(candidate => candidate.id === item.id) ?? item);
+    } catch (error) {
+      if (this.isCancelled(item.id)) return;
+      this.fail(item, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private fail(item: BatchItem, message: string): void {
+    this.update(item.id, { status: 'error', error: message });
+    this.jobs.get(item.id)?.options.onError?.(message, item);
+  }
+
+  /**
+   * Read the file through its stream so progress can be reported; resolves null if cancelled midway
+   */
+  private async readWithProgress(item: BatchItem): Promise<ArrayBuffer | null> {
+    const { file } = item;
+    if (typeof file.stream !== 'function') {
+      return file.arrayBuffer();
+    }
+
+    const bytes = new Uint8Array(file.size);
+    const reader = file.stream().getReader();
+    let received = 0;
+    let lastReported = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (this.isCancelled(item.id)) {
+        await reader.cancel();
+        return null;
+      }
+
+      bytes.set(value, received);
+      received += value.length;
+      if (received - lastReported > file.size / 50) {
+        lastReported = received;
+        this.update(item.id, { progress: (received / Math.max(1, file.size)) * READ_PROGRESS_SHARE });
+      }
+    }
+
+    return bytes.buffer;
+  }
+
+  private isCancelled(id: string): boolean {
+    return this.items.find(item => item.id === id)?.status === 'cancelled';
+  }
+
+  private update(id: string, patch: Partial<BatchItem>): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...patch } : item));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Expand a drop into files, walking any dropped folders. Entries must be taken synchronously
+ * inside the drop handler, since the DataTransfer is emptied once the event returns
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<BatchSource[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  // Without the entries API, fall back to the flat file list
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name, fromFolder: false }));
+  }
+
+  const sources: BatchSource[] = [];
+  for (const entry of entries as FileSystemEntry[]) {
+    await walkEntry(entry, '', false, sources);
+  }
+  return sources.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+}
+
+async function walkEntry(entry: FileSystemEntry, prefix: string, fromFolder: boolean, sources: BatchSource[]): Promise<void> {
+  // Hidden files such as .DS_Store never hold audio
+  if (fromFolder && entry.name.startsWith('.')) return;
+  const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    sources.push({ file, path, fromFolder });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most ~100 entries per call; keep reading until it returns none
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      for (const child of batch) {
+        await walkEntry(child, path, true, sources);
+      }
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { TagComparison, TempoEstimate } from '@/types/audio';
+import { STFT } from './stft';
+
+/**
+ * Options for tempo estimation and beat tracking
+ */
+export interface BeatTrackingOptions {
+  frameSize?: number;
+  hopSize?: number;
+  minBpm?: number;
+  maxBpm?: number;
+  /** Centre of the log-Gaussian tempo prior */
+  preferredBpm?: number;
+  /** How strongly beats are held to the detected period */
+  tightness?: number;
+}
+
+const DEFAULT_OPTIONS: Required<BeatTrackingOptions> = {
+  frameSize: 1024,
+  hopSize: 512,
+  minBpm: 60,
+  maxBpm: 200,
+  preferredBpm: 120,
+  tightness: 100,
+};
+
+/**
+ * Onset-strength based tempo estimation and dynamic-programming beat tracking
+ */
+export class BeatTracker {
+  /**
+   * Estimate tempo and beat positions of a signal
+   */
+  static analyze(
+    signal: Float32Array,
+    sampleRate: number,
+    options: BeatTrackingOptions = {}
+  ): TempoEstimate {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const onsetEnvelope = this.computeOnsetEnvelope(signal, sampleRate, opts.frameSize, opts.hopSize);
+    const frameRate = sampleRate / opts.hopSize;
+
+    const { period, confidence } = this.estimatePeriod(onsetEnvelope, frameRate, opts);
+    if (period <= 0) {
+      return { bpm: 0, confidence: 0, beats: [] };
+    }
+
+    const beatFrames = this.trackBeats(onsetEnvelope, period, opts.tightness);
+
+    return {
+      bpm: (60 * frameRate) / period,
+      confidence,
+      // Report each beat at the centre of its analysis frame
+      beats: beatFrames.map(frame => (frame * opts.hopSize + opts.frameSize / 2) / sampleRate),
+    };
+  }
+
+  /**
+   * Compare a detected tempo with a tagged one, allowing 2% drift; half or double time counts as related
+   */
+  static compareWithTag(bpm: number, taggedBpm: number | undefined): TagComparison {
+    if (!taggedBpm || bpm <= 0) return 'unknown';
+    const within = (ratio: number) => Math.abs(bpm / taggedBpm - ratio) <= 0.02 * ratio;
+    if (within(1)) return 'match';
+    return within(2) || within(0.5) ? 'related' : 'mismatch';
+  }
+
+  /**
+   * Compute an onset-strength envelope from half-wave rectified log-spectral flux
+   */
+  static computeOnsetEnvelope(
+    signal: Float32Array,
+    sampleRate: number,
+    frameSize: number,
+    hopSize: number
+  ): Float32Array {
+    const stft = new STFT({ fftSize: frameSize, hopSize, window: 'hann' });
+    const envelope = new Float32Array(stft.frameCount(signal.length));
+    const previous = new Float32Array(frameSize / 2);
+
+    for (const frame of stft.frames(signal, sampleRate)) {
+      let flux = 0;
+      for (let k = 0; k < previous.length; k++) {
+        const logMagnitude = Math.log(1 + 100 * frame.magnitudes[k]);
+        if (frame.index > 0) {
+          flux += Math.max(0, logMagnitude - previous[k]);
+        }
+        previous[k] = logMagnitude;
+      }
+      envelope[frame.index] = flux;
+    }
+
+    return this.removeLocalMean(envelope, 16);
+  }
+
+  /**
+   * Subtract a moving average so only peaks above the local level remain
+   */
+  private static removeLocalMean(envelope: Float32Array, radius: number): Float32Array {
+    const output = new Float32Array(envelope.length);
+    let windowSum = 0;
+    let windowStart = 0;
+    let windowEnd = 0;
+
+    for (let i = 0; i < envelope.length; i++) {
+      const lo = Math.max(0, i - radius);
+      const hi = Math.min(envelope.length, i + radius + 1);
+      while (windowEnd < hi) windowSum += envelope[windowEnd++];
+      while (windowStart < lo) windowSum -= envelope[windowStart++];
+
+      output[i] = Math.max(0, envelope[i] - windowSum / (hi - lo));
+    }
+
+    return output;
+  }
+
+  /**
+   * Find the dominant beat period (in frames) by autocorrelation with a tempo prior
+   */
+  private static estimatePeriod(
+    envelope: Float32Array,
+    frameRate: number,
+    opts: Required<BeatTrackingOptions>
+  ): { period: number; confidence: number } {
+    const minLag = Math.max(1, Math.floor((60 * frameRate) / opts.maxBpm));
+    const maxLag = Math.min(envelope.length - 1, Math.ceil((60 * frameRate) / opts.minBpm));
+    if (maxLag <= minLag) return { period: 0, confidence: 0 };
+
+    const autocorrelation = new Float32Array(maxLag + 2);
+    for (let lag = 0; lag <= maxLag + 1 && lag < envelope.length; lag++) {
+      let sum = 0;
+      for (let i = lag; i < envelope.length; i++) {
+        sum += envelope[i] * envelope[i - lag];
+      }
+      autocorrelation[lag] = sum / (envelope.length - lag);
+    }
+
+    if (autocorrelation[0] <= 0) return { period: 0, confidence: 0 };
+
+    const preferredLag = (60 * frameRate) / opts.preferredBpm;
+    let bestLag = minLag;
+    let bestScore = -Infinity;
+
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const octaves = Math.log2(lag / preferredLag);
+      const weight = Math.exp(-0.5 * octaves * octaves);
+      const score = autocorrelation[lag] * weight;
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    // Parabolic interpolation around the peak for sub-frame precision
+    let period = bestLag;
+    if (bestLag > minLag && bestLag < maxLag) {
+      const left = autocorrelation[bestLag - 1];
+      const centre = autocorrelation[bestLag];
+      const right = autocorrelation[bestLag + 1];
+      const denominator = left - 2 * centre + right;
+      if (denominator < 0) {
+        period += 0.5 * (left - right) / denominator;
+      }
+    }
+
+    const confidence = Math.min(1, Math.max(0, autocorrelation[bestLag] / autocorrelation[0]));
+    return { period, confidence };
+  }
+
+  /**
+   * Pick beat frames that balance onset strength against tempo consistency
+   */
+  private static trackBeats(envelope: Float32Array, period: number, tightness: number): number[] {
+    const length = envelope.length;
+    if (length === 0) return [];
+
+    // Normalise the envelope so the tightness penalty is scale independent
+    let mean = 0;
+    for (let i = 0; i < length; i++) mean += envelope[i];
+    mean /= length;
+    let variance = 0;
+    for (let i = 0; i < length; i++) variance += (envelope[i] - mean) ** 2;
+    const std = Math.sqrt(variance / length) || 1;
+
+    const score = new Float32Array(length);
+    const backlink = new Int32Array(length).fill(-1);
+    const minStep = Math.max(1, Math.round(period / 2));
+    const maxStep = Math.max(minStep, Math.round(period * 2));
+
+    for (let t = 0; t < length; t++) {
+      const localScore = envelope[t] / std;
+      let bestPrevious = -Infinity;
+      let bestIndex = -1;
+
+      for (let prev = t - maxStep; prev <= t - minStep; prev++) {
+        if (prev < 0) continue;
+        const deviation = Math.log((t - prev) / period);
+        const candidate = score[prev] - tightness * deviation * deviation;
+        if (candidate > bestPrevious) {
+          bestPrevious = candidate;
+          bestIndex = prev;
+        }
+      }
+
+      if (bestIndex >= 0 && bestPrevious > 0) {
+        score[t] = localScore + bestPrevious;
+        backlink[t] = bestIndex;
+      } else {
+        score[t] = localScore;
+      }
+    }
+
+    // Start backtracking from the strongest frame in the final beat period
+    let last = length - 1;
+    for (let t = Math.max(0, length - Math.ceil(period)); t < length; t++) {
+      if (score[t] > score[last]) last = t;
+    }
+
+    const beats: number[] = [];
+    for (let t = last; t >= 0; t = backlink[t]) {
+      beats.push(t);
+    }
+
+    return beats.reverse();
+  }
+}
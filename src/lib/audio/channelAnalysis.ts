@@ -0,0 +1,140 @@
+import { AudioBufferLike, ChannelAnalysis, MultichannelAnalysis, StereoMetrics } from '@/types/audio';
+import { STFT } from './stft';
+
+/**
+ * Per-channel, mid/side and stereo-field analysis
+ */
+export class ChannelAnalyzer {
+  /**
+   * Analyse every channel of an AudioBuffer, plus mid/side and stereo metrics for the first two
+   */
+  static analyze(audioBuffer: AudioBufferLike): MultichannelAnalysis {
+    const sampleRate = audioBuffer.sampleRate;
+    const channels: ChannelAnalysis[] = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      channels.push(this.analyzeSignal(audioBuffer.getChannelData(channel), sampleRate));
+    }
+
+    if (audioBuffer.numberOfChannels < 2) {
+      return { channels, midSide: null, stereo: null };
+    }
+
+    const left = audioBuffer.getChannelData(0);
+    const right = audioBuffer.getChannelData(1);
+    const { mid, side } = this.toMidSide(left, right);
+
+    return {
+      channels,
+      midSide: {
+        mid: this.analyzeSignal(mid, sampleRate),
+        side: this.analyzeSignal(side, sampleRate),
+      },
+      stereo: this.measureStereo(left, right),
+    };
+  }
+
+  /**
+   * Level, zero crossing and average spectral shape of a single signal
+   */
+  static analyzeSignal(signal: Float32Array, sampleRate: number): ChannelAnalysis {
+    let sumSquares = 0;
+    let peak = 0;
+    let zeroCrossings = 0;
+
+    for (let i = 0; i < signal.length; i++) {
+      const sample = signal[i];
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+      if (i > 0 && (signal[i - 1] > 0) !== (sample > 0)) {
+        zeroCrossings++;
+      }
+    }
+
+    const length = Math.max(1, signal.length);
+    const stft = new STFT({ fftSize: 2048, hopSize: 1024, window: 'hann' });
+    const spectrum = stft.averageSpectrum(signal, sampleRate);
+    const binWidth = sampleRate / stft.fftSize;
+
+    // Centroid and 85% energy rolloff of the average spectrum
+    let weightedSum = 0;
+    let magnitudeSum = 0;
+    let totalEnergy = 0;
+    for (let k = 0; k < spectrum.length; k++) {
+      weightedSum += k * binWidth * spectrum[k];
+      magnitudeSum += spectrum[k];
+      totalEnergy += spectrum[k] * spectrum[k];
+    }
+
+    let rolloffBin = spectrum.length - 1;
+    let cumulativeEnergy = 0;
+    for (let k = 0; k < spectrum.length; k++) {
+      cumulativeEnergy += spectrum[k] * spectrum[k];
+      if (cumulativeEnergy >= totalEnergy * 0.85) {
+        rolloffBin = k;
+        break;
+      }
+    }
+
+    return {
+      rms: Math.sqrt(sumSquares / length),
+      peak,
+      zeroCrossingRate: zeroCrossings / (length / sampleRate),
+      spectralCentroid: magnitudeSum > 0 ? weightedSum / magnitudeSum : 0,
+      spectralRolloff: rolloffBin * binWidth,
+    };
+  }
+
+  /**
+   * Correlation, width, balance and mono compatibility of a left/right pair
+   */
+  static measureStereo(left: Float32Array, right: Float32Array): StereoMetrics {
+    const length = Math.min(left.length, right.length);
+    let leftEnergy = 0;
+    let rightEnergy = 0;
+    let crossEnergy = 0;
+    let midEnergy = 0;
+    let sideEnergy = 0;
+
+    for (let i = 0; i < length; i++) {
+      const l = left[i];
+      const r = right[i];
+      const mid = (l + r) / 2;
+      const side = (l - r) / 2;
+      leftEnergy += l * l;
+      rightEnergy += r * r;
+      crossEnergy += l * r;
+      midEnergy += mid * mid;
+      sideEnergy += side * side;
+    }
+
+    const correlationDenominator = Math.sqrt(leftEnergy * rightEnergy);
+    const leftRms = Math.sqrt(leftEnergy / Math.max(1, length));
+    const rightRms = Math.sqrt(rightEnergy / Math.max(1, length));
+    const midRms = Math.sqrt(midEnergy / Math.max(1, length));
+    const sideRms = Math.sqrt(sideEnergy / Math.max(1, length));
+    const totalEnergy = midEnergy + sideEnergy;
+
+    return {
+      correlation: correlationDenominator > 0 ? crossEnergy / correlationDenominator : 1,
+      width: midRms + sideRms > 0 ? sideRms / (midRms + sideRms) : 0,
+      balance: leftRms + rightRms > 0 ? (rightRms - leftRms) / (leftRms + rightRms) : 0,
+      monoCompatibility: totalEnergy > 0 ? midEnergy / totalEnergy : 1,
+      midLevel: midRms > 0 ? 20 * Math.log10(midRms) : -Infinity,
+      sideLevel: sideRms > 0 ? 20 * Math.log10(sideRms) : -Infinity,
+    };
+  }
+
+  /**
+   * Split a left/right pair into mid (L + R) / 2 and side (L - R) / 2 signals
+   */
+  static toMidSide(left: Float32Array, right: Float32Array): { mid: Float32Array; side: Float32Array } {
+    const length = Math.min(left.length, right.length);
+    const mid = new Float32Array(length);
+    const side = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      mid[i] = (left[i] + right[i]) / 2;
+      side[i] = (left[i] - right[i]) / 2;
+    }
+    return { mid, side };
+  }
+}
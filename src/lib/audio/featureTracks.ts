@@ -0,0 +1,300 @@
+import { AnalysisProgressCallback, FeatureStatistics, FeatureTrackSummary, FeatureTracks } from '@/types/audio';
+import { STFT, STFTOptions } from './stft';
+
+/**
+ * Options for frame-wise feature extraction
+ */
+export interface FeatureTrackOptions extends STFTOptions {
+  numMfcc?: number;
+  numMelFilters?: number;
+  rolloffThreshold?: number;
+}
+
+interface MelFilter {
+  start: number;
+  weights: Float32Array;
+}
+
+/**
+ * Convert Hz to Mel scale
+ */
+export function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+/**
+ * Convert Mel scale to Hz
+ */
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+/**
+ * Per-frame spectral and temporal feature tracks over a whole signal
+ */
+export class FeatureTrackExtractor {
+  /**
+   * Extract time-varying feature tracks from a signal. Progress runs from 0 to 1 over the frames
+   */
+  static extract(
+    signal: Float32Array,
+    sampleRate: number,
+    options: FeatureTrackOptions = {},
+    onProgress?: AnalysisProgressCallback
+  ): FeatureTracks {
+    const stft = new STFT({
+      fftSize: options.fftSize ?? 2048,
+      hopSize: options.hopSize ?? 1024,
+      window: options.window ?? 'hann',
+    });
+    const numMfcc = options.numMfcc ?? 13;
+    const rolloffThreshold = options.rolloffThreshold ?? 0.85;
+
+    const numBins = stft.fftSize / 2;
+    const binWidth = sampleRate / stft.fftSize;
+    const melFilters = this.createMelFilters(numBins, sampleRate, options.numMelFilters ?? 26);
+    const chromaMap = this.createChromaMap(numBins, sampleRate);
+    const numFrames = stft.frameCount(signal.length);
+
+    const tracks: FeatureTracks = {
+      sampleRate,
+      fftSize: stft.fftSize,
+      hopSize: stft.hopSize,
+      times: new Float32Array(numFrames),
+      centroid: new Float32Array(numFrames),
+      rolloff: new Float32Array(numFrames),
+      flux: new Float32Array(numFrames),
+      rms: new Float32Array(numFrames),
+      zcr: new Float32Array(numFrames),
+      mfcc: [],
+      chroma: [],
+    };
+
+    const previous = new Float32Array(numBins);
+    const logMel = new Float32Array(melFilters.length);
+
+    const progressStep = Math.max(1, Math.floor(numFrames / 100));
+
+    for (const frame of stft.frames(signal, sampleRate)) {
+      const { index, magnitudes } = frame;
+      tracks.times[index] = frame.time;
+      if (index % progressStep === 0) {
+        onProgress?.(index / numFrames, 'Extracting feature tracks');
+      }
+
+      // Spectral centroid, rolloff and flux
+      let weightedSum = 0;
+      let magnitudeSum = 0;
+      let energySum = 0;
+      let flux = 0;
+      for (let k = 0; k < numBins; k++) {
+        const magnitude = magnitudes[k];
+        weightedSum += k * binWidth * magnitude;
+        magnitudeSum += magnitude;
+        energySum += magnitude * magnitude;
+
+        const rise = magnitude - previous[k];
+        if (index > 0 && rise > 0) flux += rise * rise;
+        previous[k] = magnitude;
+      }
+      tracks.centroid[index] = magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+      tracks.flux[index] = Math.sqrt(flux);
+
+      const rolloffEnergy = energySum * rolloffThreshold;
+      let cumulativeEnergy = 0;
+      let rolloffBin = numBins - 1;
+      for (let k = 0; k < numBins; k++) {
+        cumulativeEnergy += magnitudes[k] * magnitudes[k];
+        if (cumulativeEnergy >= rolloffEnergy) {
+          rolloffBin = k;
+          break;
+        }
+      }
+      tracks.rolloff[index] = rolloffBin * binWidth;
+
+      // RMS and zero crossing rate on the raw samples of this frame
+      const start = index * stft.hopSize;
+      const end = Math.min(signal.length, start + stft.fftSize);
+      let sumSquares = 0;
+      let crossings = 0;
+      for (let i = start; i < end; i++) {
+        sumSquares += signal[i] * signal[i];
+        if (i > start && (signal[i] > 0) !== (signal[i - 1] > 0)) crossings++;
+      }
+      const frameLength = Math.max(1, end - start);
+      tracks.rms[index] = Math.sqrt(sumSquares / frameLength);
+      tracks.zcr[index] = crossings / (frameLength / sampleRate);
+
+      // MFCC from log mel energies
+      for (let f = 0; f < melFilters.length; f++) {
+        const { start: filterStart, weights } = melFilters[f];
+        let sum = 0;
+        for (let w = 0; w < weights.length; w++) {
+          sum += magnitudes[filterStart + w] * weights[w];
+        }
+        logMel[f] = Math.log(sum + 1e-10);
+      }
+      tracks.mfcc.push(this.discreteCosineTransform(logMel, numMfcc));
+
+      // Chroma folded onto twelve pitch classes
+      const chroma = new Float32Array(12);
+      let chromaSum = 0;
+      for (let k = 1; k < numBins; k++) {
+        const pitchClass = chromaMap[k];
+        if (pitchClass >= 0) {
+          chroma[pitchClass] += magnitudes[k];
+          chromaSum += magnitudes[k];
+        }
+      }
+      if (chromaSum > 0) {
+        for (let c = 0; c < 12; c++) chroma[c] /= chromaSum;
+      }
+      tracks.chroma.push(chroma);
+    }
+
+    return tracks;
+  }
+
+  /**
+   * File-level statistics for every track
+   */
+  static summarize(tracks: FeatureTracks): FeatureTrackSummary {
+    return {
+      centroid: this.computeStatistics(tracks.centroid),
+      rolloff: this.computeStatistics(tracks.rolloff),
+      flux: this.computeStatistics(tracks.flux),
+      rms: this.computeStatistics(tracks.rms),
+      zcr: this.computeStatistics(tracks.zcr),
+      mfcc: this.meanVector(tracks.mfcc),
+      chroma: this.normalize(this.meanVector(tracks.chroma)),
+    };
+  }
+
+  /**
+   * Mean, median, variance, range and percentiles of a track
+   */
+  static computeStatistics(values: Float32Array): FeatureStatistics {
+    if (values.length === 0) {
+      return {
+        mean: 0,
+        median: 0,
+        variance: 0,
+        min: 0,
+        max: 0,
+        percentiles: { p10: 0, p25: 0, p75: 0, p90: 0 },
+      };
+    }
+
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[i];
+    const mean = sum / values.length;
+
+    let squaredDeviation = 0;
+    for (let i = 0; i < values.length; i++) squaredDeviation += (values[i] - mean) ** 2;
+
+    const sorted = Float32Array.from(values).sort();
+
+    return {
+      mean,
+      median: this.percentile(sorted, 0.5),
+      variance: squaredDeviation / values.length,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      percentiles: {
+        p10: this.percentile(sorted, 0.1),
+        p25: this.percentile(sorted, 0.25),
+        p75: this.percentile(sorted, 0.75),
+        p90: this.percentile(sorted, 0.9),
+      },
+    };
+  }
+
+  /**
+   * Linearly interpolated percentile of sorted values
+   */
+  private static percentile(sorted: Float32Array, fraction: number): number {
+    const position = fraction * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(sorted.length - 1, lower + 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  /**
+   * Element-wise mean of per-frame vectors
+   */
+  private static meanVector(frames: Float32Array[]): number[] {
+    if (frames.length === 0) return [];
+
+    const mean = new Array(frames[0].length).fill(0);
+    for (const frame of frames) {
+      for (let i = 0; i < mean.length; i++) mean[i] += frame[i];
+    }
+    return mean.map(value => value / frames.length);
+  }
+
+  private static normalize(values: number[]): number[] {
+    const sum = values.reduce((a, b) => a + b, 0);
+    return sum > 0 ? values.map(x => x / sum) : values;
+  }
+
+  /**
+   * Sparse triangular mel filter bank over magnitude bins
+   */
+  private static createMelFilters(numBins: number, sampleRate: number, numFilters: number): MelFilter[] {
+    const melMax = hzToMel(sampleRate / 2);
+    const binPoints: number[] = [];
+    for (let i = 0; i <= numFilters + 1; i++) {
+      const hz = melToHz((i * melMax) / (numFilters + 1));
+      binPoints.push(Math.min(numBins - 1, Math.floor((hz * numBins * 2) / sampleRate)));
+    }
+
+    const filters: MelFilter[] = [];
+    for (let i = 1; i <= numFilters; i++) {
+      const left = binPoints[i - 1];
+      const centre = binPoints[i];
+      const right = binPoints[i + 1];
+      const weights = new Float32Array(Math.max(0, right - left));
+
+      for (let j = left; j < centre; j++) {
+        weights[j - left] = (j - left) / (centre - left);
+      }
+      for (let j = centre; j < right; j++) {
+        weights[j - left] = (right - j) / (right - centre);
+      }
+
+      filters.push({ start: left, weights });
+    }
+
+    return filters;
+  }
+
+  /**
+   * Pitch class of each bin between 80 Hz and 8 kHz, or -1 outside that range
+   */
+  private static createChromaMap(numBins: number, sampleRate: number): Int8Array {
+    const map = new Int8Array(numBins).fill(-1);
+    for (let k = 1; k < numBins; k++) {
+      const frequency = (k * sampleRate) / (2 * numBins);
+      if (frequency > 80 && frequency < 8000) {
+        const pitch = 12 * Math.log2(frequency / 440) + 69;
+        map[k] = Math.round(pitch) % 12;
+      }
+    }
+    return map;
+  }
+
+  /**
+   * DCT-II of log mel energies
+   */
+  private static discreteCosineTransform(input: Float32Array, numCoefficients: number): Float32Array {
+    const output = new Float32Array(numCoefficients);
+    for (let k = 0; k < numCoefficients; k++) {
+      let sum = 0;
+      for (let n = 0; n < input.length; n++) {
+        sum += input[n] * Math.cos((Math.PI * k * (2 * n + 1)) / (2 * input.length));
+      }
+      output[k] = sum;
+    }
+    return output;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Supported analysis window functions
+ */
+export type WindowType = 'rectangular' | 'hann' | 'hamming' | 'blackman-harris';
+
+/**
+ * Create a window of the given type and size
+ */
+export function createWindow(type: WindowType, size: number): Float32Array {
+  const window = new Float32Array(size);
+  const denominator = Math.max(1, size - 1);
+
+  for (let n = 0; n < size; n++) {
+    const phase = (2 * Math.PI * n) / denominator;
+    switch (type) {
+      case 'hann':
+        window[n] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case 'hamming':
+        window[n] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case 'blackman-harris':
+        window[n] = 0.35875
+          - 0.48829 * Math.cos(phase)
+          + 0.14128 * Math.cos(2 * phase)
+          - 0.01168 * Math.cos(3 * phase);
+        break;
+      default:
+        window[n] = 1;
+    }
+  }
+
+  return window;
+}
+
+/**
+ * Check whether a number is a power of two
+ */
+export function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+/**
+ * Smallest power of two greater than or equal to value
+ */
+export function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) size <<= 1;
+  return size;
+}
+
+/**
+ * In-place iterative radix-2 FFT with precomputed twiddle and bit-reversal tables.
+ * A single instance can be reused for any number of transforms of the same size.
+ */
+export class FFT {
+  readonly size: number;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  private reverseTable: Uint32Array;
+
+  constructor(size: number) {
+    if (!isPowerOfTwo(size)) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+
+    this.size = size;
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+    this.reverseTable = new Uint32Array(size);
+
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+    }
+
+    const bits = Math.log2(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.reverseTable[i] = reversed;
+    }
+  }
+
+  /**
+   * Forward transform of complex data in place
+   */
+  forward(real: Float32Array, imag: Float32Array): void {
+    this.transform(real, imag, -1);
+  }
+
+  /**
+   * Inverse transform of complex data in place, scaled by 1 / size
+   */
+  inverse(real: Float32Array, imag: Float32Array): void {
+    this.transform(real, imag, 1);
+    const scale = 1 / this.size;
+    for (let i = 0; i < this.size; i++) {
+      real[i] *= scale;
+      imag[i] *= scale;
+    }
+  }
+
+  /**
+   * Write the magnitudes of the first size / 2 bins of a transformed frame into output
+   */
+  magnitudes(real: Float32Array, imag: Float32Array, output: Float32Array): void {
+    const bins = Math.min(output.length, this.size / 2);
+    for (let k = 0; k < bins; k++) {
+      output[k] = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]);
+    }
+  }
+
+  private transform(real: Float32Array, imag: Float32Array, sign: number): void {
+    const n = this.size;
+
+    for (let i = 0; i < n; i++) {
+      const j = this.reverseTable[i];
+      if (j > i) {
+        let tmp = real[i];
+        real[i] = real[j];
+        real[j] = tmp;
+        tmp = imag[i];
+        imag[i] = imag[j];
+        imag[j] = tmp;
+      }
+    }
+
+    for (let half = 1; half < n; half <<= 1) {
+      const tableStep = n / (half << 1);
+      for (let start = 0; start < n; start += half << 1) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.cosTable[k * tableStep];
+          const sin = sign * this.sinTable[k * tableStep];
+          const even = start + k;
+          const odd = even + half;
+
+          const tre = real[odd] * cos - imag[odd] * sin;
+          const tim = real[odd] * sin + imag[odd] * cos;
+
+          real[odd] = real[even] - tre;
+          imag[odd] = imag[even] - tim;
+          real[even] += tre;
+          imag[even] += tim;
+        }
+      }
+    }
+  }
+}
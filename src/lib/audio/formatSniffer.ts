@@ -0,0 +1,714 @@
+import { AudioDecodeError, PcmDecoder, WAVE_FORMAT_NAMES } from './pcmDecoder';
+
+export type ContainerFormat = 'wav' | 'rf64' | 'aiff' | 'aifc' | 'flac' | 'ogg' | 'mp3' | 'aac' | 'mp4' | 'webm';
+
+/**
+ * What the container header says about the stream, read without decoding any audio
+ */
+export interface FormatSummary {
+  format: ContainerFormat;
+  label: string;
+  codec: string;
+  /** Null when the header isn't parsed here and only decoding will tell */
+  sampleRate: number | null;
+  channels: number | null;
+  duration: number | null;
+  bitrate?: number;
+}
+
+// Signatures of common non-audio files, so the rejection can say what was dropped
+const FOREIGN_SIGNATURES: Array<[number[], string]> = [
+  [[0x25, 0x50, 0x44, 0x46], 'a PDF document'],
+  [[0x89, 0x50, 0x4e, 0x47], 'a PNG image'],
+  [[0xff, 0xd8, 0xff], 'a JPEG image'],
+  [[0x47, 0x49, 0x46, 0x38], 'a GIF image'],
+  [[0x50, 0x4b, 0x03, 0x04], 'a ZIP archive'],
+  [[0x4d, 0x54, 0x68, 0x64], 'a MIDI file, which contains no audio'],
+];
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MPEG_SAMPLE_RATES: Record<string, number[]> = {
+  '1': [44100, 48000, 32000],
+  '2': [22050, 24000, 16000],
+  '2.5': [11025, 12000, 8000],
+};
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const MP4_CODEC_NAMES: Record<string, string> = {
+  mp4a: 'AAC',
+  alac: 'Apple Lossless',
+  Opus: 'Opus',
+  fLaC: 'FLAC',
+  'ac-3': 'AC-3',
+  'ec-3': 'E-AC-3',
+  enca: 'encrypted audio',
+};
+
+// How far past an ID3 tag to look for the first MPEG frame before giving up
+const MPEG_SYNC_SEARCH = 8192;
+
+interface MpegFrame {
+  version: '1' | '2' | '2.5';
+  layer: 1 | 2 | 3;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  frameLength: number;
+}
+
+interface Mp4Box {
+  type: string;
+  offset: number;
+  size: number;
+}
+
+/**
+ * Identifies audio containers from their magic bytes and reads the stream layout from the header,
+ * so files can be accepted or rejected regardless of the MIME type the browser guessed
+ */
+export class FormatSniffer {
+  /**
+   * Container identified by the leading bytes, or null when nothing matches
+   */
+  static detect(buffer: ArrayBuffer): ContainerFormat | null {
+    if (buffer.byteLength < 4) return null;
+    const view = new DataView(buffer);
+    const head = this.readId(view, 0);
+
+    if (buffer.byteLength >= 12) {
+      const form = this.readId(view, 8);
+      if ((head === 'RIFF' || head === 'RF64' || head === 'BW64') && form === 'WAVE') {
+        return head === 'RIFF' ? 'wav' : 'rf64';
+      }
+      if (head === 'FORM' && form === 'AIFF') return 'aiff';
+      if (head === 'FORM' && form === 'AIFC') return 'aifc';
+      if (this.readId(view, 4) === 'ftyp') return 'mp4';
+    }
+    if (head === 'fLaC') return 'flac';
+    if (head === 'OggS') return 'ogg';
+    // EBML magic; browsers decode Opus and Vorbis in WebM, which is what MediaRecorder produces
+    if (view.getUint32(0) === 0x1a45dfa3) return 'webm';
+
+    const start = this.skipId3v2(view);
+    if (start + 4 > view.byteLength) return start > 0 ? 'mp3' : null;
+    // Some taggers put an ID3v2 tag in front of FLAC too
+    if (start > 0 && this.readId(view, start) === 'fLaC') return 'flac';
+    const first = view.getUint8(start);
+    const second = view.getUint8(start + 1);
+    if (first === 0xff && (second & 0xf6) === 0xf0) return 'aac';
+    if (first === 0xff && (second & 0xe0) === 0xe0) return 'mp3';
+    // An ID3 tag followed by garbage is still meant to be MP3; probe() reports the missing frame
+    return start > 0 ? 'mp3' : null;
+  }
+
+  /**
+   * Detect the container and read sample rate, channel count and duration from its header.
+   * Throws AudioDecodeError naming the format and the field that is wrong, or naming the file type
+   * when it is empty or a known non-audio file. Returns null for anything else it doesn't recognise,
+   * leaving the browser's decoder to accept or reject it
+   */
+  static probe(buffer: ArrayBuffer): FormatSummary | null {
+    const format = this.detect(buffer);
+    const view = new DataView(buffer);
+
+    if (!format) {
+      const foreign = this.describeForeign(view);
+      if (foreign) throw new AudioDecodeError('unrecognized-container', foreign);
+      return null;
+    }
+
+    try {
+      switch (format) {
+        case 'wav':
+        case 'rf64':
+          return this.probeWave(view, format);
+        case 'aiff':
+        case 'aifc':
+          return this.probeAiff(view, format);
+        case 'flac':
+          return this.probeFlac(view);
+        case 'ogg':
+          return this.probeOgg(view);
+        case 'mp3':
+          return this.probeMpeg(view);
+        case 'aac':
+          return this.probeAdts(view);
+        case 'mp4':
+          return this.probeMp4(view);
+        case 'webm':
+          return { format, label: 'WebM/Matroska', codec: 'unknown codec', sampleRate: null, channels: null, duration: null };
+      }
+    } catch (error) {
+      // DataView reads past the end mean the header itself is cut short
+      if (error instanceof RangeError) {
+        throw new AudioDecodeError('truncated', `${this.formatName(format)} header ends unexpectedly; the file is truncated`);
+      }
+      throw error;
+    }
+  }
+
+  private static probeWave(view: DataView, format: 'wav' | 'rf64'): FormatSummary {
+    const chunks = PcmDecoder.readChunks(view, 12, true);
+
+    let ds64DataSize: number | null = null;
+    if (format === 'rf64') {
+      const ds64 = chunks.find(chunk => chunk.id === 'ds64');
+      if (!ds64 || ds64.size < 24) {
+        throw new AudioDecodeError('missing-chunk', 'RF64 file has no valid ds64 chunk with 64-bit sizes');
+      }
+      ds64DataSize = PcmDecoder.readUint64(view, ds64.offset + 8, true);
+    }
+
+    const fmt = chunks.find(chunk => chunk.id === 'fmt ');
+    if (!fmt) {
+      throw new AudioDecodeError('missing-chunk', 'WAV file has no "fmt " chunk describing the sample format');
+    }
+    if (fmt.size < 16) {
+      throw new AudioDecodeError('invalid-header', `WAV "fmt " chunk is ${fmt.size} bytes; at least 16 are required`);
+    }
+
+    let formatTag = view.getUint16(fmt.offset, true);
+    const channels = view.getUint16(fmt.offset + 2, true);
+    const sampleRate = view.getUint32(fmt.offset + 4, true);
+    const byteRate = view.getUint32(fmt.offset + 8, true);
+    const blockAlign = view.getUint16(fmt.offset + 12, true);
+    const bitsPerSample = view.getUint16(fmt.offset + 14, true);
+    if (formatTag === 0xfffe && fmt.size >= 40) {
+      formatTag = view.getUint16(fmt.offset + 24, true);
+    }
+    this.validateLayout('WAV', channels, sampleRate);
+
+    const data = chunks.find(chunk => chunk.id === 'data');
+    if (!data) {
+      throw new AudioDecodeError('missing-chunk', 'WAV file has no "data" chunk; the file is probably truncated');
+    }
+
+    const declaredSize = data.size === 0xffffffff && ds64DataSize !== null ? ds64DataSize : data.size;
+    const dataSize = Math.min(declaredSize, view.byteLength - data.offset);
+    const isLinear = formatTag === 0x0001 || formatTag === 0x0003 || formatTag === 0x0006 || formatTag === 0x0007;
+
+    let duration: number | null = null;
+    if (isLinear && blockAlign > 0) {
+      duration = Math.floor(dataSize / blockAlign) / sampleRate;
+    } else if (byteRate > 0) {
+      duration = dataSize / byteRate;
+    }
+
+    let codec: string;
+    switch (formatTag) {
+      case 0x0001:
+        codec = `PCM ${bitsPerSample}-bit`;
+        break;
+      case 0x0003:
+        codec = `${bitsPerSample}-bit float`;
+        break;
+      case 0x0006:
+        codec = 'A-law';
+        break;
+      case 0x0007:
+        codec = 'µ-law';
+        break;
+      default:
+        codec = WAVE_FORMAT_NAMES[formatTag] ?? `format 0x${formatTag.toString(16).padStart(4, '0')}`;
+    }
+
+    return {
+      format,
+      label: format === 'rf64' ? 'RF64' : 'WAV',
+      codec,
+      sampleRate,
+      channels,
+      duration,
+      bitrate: byteRate > 0 ? (byteRate * 8) / 1000 : undefined,
+    };
+  }
+
+  private static probeAiff(view: DataView, format: 'aiff' | 'aifc'): FormatSummary {
+    const chunks = PcmDecoder.readChunks(view, 12, false);
+    const comm = chunks.find(chunk => chunk.id === 'COMM');
+    if (!comm) {
+      throw new AudioDecodeError('missing-chunk', 'AIFF file has no COMM chunk describing the sample format');
+    }
+    if (comm.size < 18) {
+      throw new AudioDecodeError('invalid-header', `AIFF COMM chunk is ${comm.size} bytes; at least 18 are required`);
+    }
+
+    const channels = view.getUint16(comm.offset, false);
+    const frames = view.getUint32(comm.offset + 2, false);
+    const sampleSize = view.getUint16(comm.offset + 6, false);
+    const sampleRate = PcmDecoder.readExtended(view, comm.offset + 8);
+    this.validateLayout('AIFF', channels, sampleRate);
+
+    const compression = format === 'aifc' && comm.size >= 22 ? this.readId(view, comm.offset + 18) : 'NONE';
+    if (frames > 0 && !chunks.some(chunk => chunk.id === 'SSND')) {
+      throw new AudioDecodeError('missing-chunk', 'AIFF file has no SSND chunk; the file is probably truncated');
+    }
+
+    let codec: string;
+    switch (compression) {
+      case 'NONE':
+      case 'twos':
+        codec = `PCM ${sampleSize}-bit`;
+        break;
+      case 'sowt':
+        codec = `PCM ${sampleSize}-bit little-endian`;
+        break;
+      case 'fl32':
+      case 'FL32':
+        codec = '32-bit float';
+        break;
+      case 'fl64':
+      case 'FL64':
+        codec = '64-bit float';
+        break;
+      case 'ulaw':
+      case 'ULAW':
+        codec = 'µ-law';
+        break;
+      case 'alaw':
+      case 'ALAW':
+        codec = 'A-law';
+        break;
+      default:
+        codec = `"${compression.replace(/[^\x20-\x7e]/g, '?')}" compression`;
+    }
+
+    return {
+      format,
+      label: format === 'aifc' ? 'AIFF-C' : 'AIFF',
+      codec,
+      sampleRate,
+      channels,
+      duration: frames / sampleRate,
+    };
+  }
+
+  private static probeFlac(view: DataView): FormatSummary {
+    const start = this.skipId3v2(view);
+    if (view.byteLength < start + 42) {
+      throw new AudioDecodeError('truncated', 'FLAC file ends before its STREAMINFO block');
+    }
+    const blockType = view.getUint8(start + 4) & 0x7f;
+    if (blockType !== 0) {
+      throw new AudioDecodeError('invalid-header', `FLAC stream starts with metadata block type ${blockType} instead of STREAMINFO`);
+    }
+    return { format: 'flac', label: 'FLAC', ...this.readStreamInfo(view, start + 8, 'FLAC') };
+  }
+
+  /**
+   * STREAMINFO packs sample rate, channels, bit depth and total samples into bytes 10-17
+   */
+  private static readStreamInfo(
+    view: DataView,
+    offset: number,
+    container: string
+  ): { codec: string; sampleRate: number; channels: number; duration: number | null } {
+    const b10 = view.getUint8(offset + 10);
+    const b11 = view.getUint8(offset + 11);
+    const b12 = view.getUint8(offset + 12);
+    const b13 = view.getUint8(offset + 13);
+    const sampleRate = (b10 << 12) | (b11 << 4) | (b12 >> 4);
+    const channels = ((b12 >> 1) & 0x07) + 1;
+    const bitsPerSample = (((b12 & 0x01) << 4) | (b13 >> 4)) + 1;
+    const totalSamples = (b13 & 0x0f) * 4294967296 + view.getUint32(offset + 14, false);
+    this.validateLayout(container, channels, sampleRate);
+
+    return {
+      codec: `FLAC ${bitsPerSample}-bit`,
+      sampleRate,
+      channels,
+      // A total of 0 means the encoder did not know the length up front
+      duration: totalSamples > 0 ? totalSamples / sampleRate : null,
+    };
+  }
+
+  private static probeOgg(view: DataView): FormatSummary {
+    if (view.byteLength < 28) {
+      throw new AudioDecodeError('truncated', 'Ogg file ends inside its first page header');
+    }
+    if (view.getUint8(4) !== 0) {
+      throw new AudioDecodeError('invalid-header', `Ogg page declares unknown stream version ${view.getUint8(4)}`);
+    }
+
+    const serial = view.getUint32(14, true);
+    const segments = view.getUint8(26);
+    const packet = 27 + segments;
+    if (packet + 8 > view.byteLength) {
+      throw new AudioDecodeError('truncated', 'Ogg file ends before the first packet');
+    }
+
+    const packetId = this.readString(view, packet, 8);
+    let summary: Omit<FormatSummary, 'duration'> & { sampleRate: number };
+    let preSkip = 0;
+
+    if (packetId.startsWith('\x01vorbis')) {
+      const channels = view.getUint8(packet + 11);
+      const sampleRate = view.getUint32(packet + 12, true);
+      const nominalBitrate = view.getInt32(packet + 20, true);
+      this.validateLayout('Ogg Vorbis', channels, sampleRate);
+      summary = {
+        format: 'ogg',
+        label: 'Ogg Vorbis',
+        codec: 'Vorbis',
+        sampleRate,
+        channels,
+        bitrate: nominalBitrate > 0 ? nominalBitrate / 1000 : undefined,
+      };
+    } else if (packetId === 'OpusHead') {
+      const channels = view.getUint8(packet + 9);
+      preSkip = view.getUint16(packet + 10, true);
+      this.validateLayout('Ogg Opus', channels, 48000);
+      // Opus always decodes at 48 kHz; the header's input rate is informational only
+      summary = { format: 'ogg', label: 'Ogg Opus', codec: 'Opus', sampleRate: 48000, channels };
+    } else if (packetId.startsWith('\x7fFLAC')) {
+      // Mapping header: 0x7F "FLAC", version (2), header count (2), "fLaC", then a STREAMINFO block
+      // whose 4-byte header puts its data 17 bytes into the packet
+      const info = this.readStreamInfo(view, packet + 17, 'Ogg FLAC');
+      summary = { format: 'ogg', label: 'Ogg FLAC', codec: info.codec, sampleRate: info.sampleRate, channels: info.channels };
+    } else {
+      const name = packetId.startsWith('\x80theora') ? 'Theora video' : `"${packetId.replace(/[^\x20-\x7e]/g, '?')}"`;
+      throw new AudioDecodeError(
+        'unsupported-encoding',
+        `Ogg file carries ${name} instead of Vorbis, Opus or FLAC audio`
+      );
+    }
+
+    const granule = this.lastGranule(view, serial);
+    return {
+      ...summary,
+      duration: granule !== null ? Math.max(0, granule - preSkip) / summary.sampleRate : null,
+    };
+  }
+
+  /**
+   * Granule position of the last complete page of a logical stream, i.e. its length in samples
+   */
+  private static lastGranule(view: DataView, serial: number): number | null {
+    const searchStart = Math.max(0, view.byteLength - 65536);
+    for (let offset = view.byteLength - 27; offset >= searchStart; offset--) {
+      if (
+        view.getUint8(offset) !== 0x4f ||
+        view.getUint8(offset + 1) !== 0x67 ||
+        view.getUint8(offset + 2) !== 0x67 ||
+        view.getUint8(offset + 3) !== 0x53
+      ) {
+        continue;
+      }
+      if (view.getUint32(offset + 14, true) !== serial) continue;
+      // -1 marks a page on which no packet ends
+      if (view.getUint32(offset + 6, true) === 0xffffffff && view.getUint32(offset + 10, true) === 0xffffffff) continue;
+      return PcmDecoder.readUint64(view, offset + 6, true);
+    }
+    return null;
+  }
+
+  private static probeMpeg(view: DataView): FormatSummary {
+    const tagEnd = this.skipId3v2(view);
+    const searchEnd = Math.min(view.byteLength - 4, tagEnd + MPEG_SYNC_SEARCH);
+
+    let start = -1;
+    let frame: MpegFrame | null = null;
+    for (let offset = tagEnd; offset <= searchEnd; offset++) {
+      frame = this.readMpegFrame(view, offset);
+      if (!frame) continue;
+      // Require a second header right after the first unless the file ends there, to rule out stray 0xFF bytes
+      const next = offset + frame.frameLength;
+      if (next + 4 > view.byteLength || this.readMpegFrame(view, next)) {
+        start = offset;
+        break;
+      }
+    }
+
+    if (!frame || start < 0) {
+      throw new AudioDecodeError(
+        'invalid-header',
+        tagEnd > 0
+          ? 'MP3 file has an ID3 tag but no valid MPEG audio frame follows it'
+          : 'MP3 file has no valid MPEG audio frame header'
+      );
+    }
+
+    const frames = this.readVbrFrameCount(view, start, frame);
+    let duration: number;
+    let bitrate = frame.bitrate;
+    if (frames !== null) {
+      duration = (frames * frame.samplesPerFrame) / frame.sampleRate;
+      const audioBytes = view.byteLength - start - this.id3v1Length(view);
+      if (duration > 0) bitrate = (audioBytes * 8) / duration / 1000;
+    } else {
+      // No Xing/VBRI header: assume constant bitrate across the stream
+      const audioBytes = view.byteLength - start - this.id3v1Length(view);
+      duration = (audioBytes * 8) / (frame.bitrate * 1000);
+    }
+
+    return {
+      format: 'mp3',
+      label: frame.layer === 3 ? 'MP3' : `MPEG Layer ${'I'.repeat(frame.layer)}`,
+      codec: `MPEG-${frame.version} Layer ${'I'.repeat(frame.layer)}`,
+      sampleRate: frame.sampleRate,
+      channels: frame.channels,
+      duration,
+      bitrate: Math.round(bitrate),
+    };
+  }
+
+  private static readMpegFrame(view: DataView, offset: number): MpegFrame | null {
+    if (offset + 4 > view.byteLength) return null;
+    const b0 = view.getUint8(offset);
+    const b1 = view.getUint8(offset + 1);
+    const b2 = view.getUint8(offset + 2);
+    const b3 = view.getUint8(offset + 3);
+    if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (b1 >> 3) & 0x03;
+    const layerBits = (b1 >> 1) & 0x03;
+    const bitrateIndex = b2 >> 4;
+    const rateIndex = (b2 >> 2) & 0x03;
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+      return null;
+    }
+
+    const version = versionBits === 3 ? '1' : versionBits === 2 ? '2' : '2.5';
+    const layer = (4 - layerBits) as 1 | 2 | 3;
+    const table = version === '1' ? `V1L${layer}` : layer === 1 ? 'V2L1' : 'V2L2';
+    const bitrate = MPEG_BITRATES[table][bitrateIndex];
+    const sampleRate = MPEG_SAMPLE_RATES[version][rateIndex];
+    const padding = (b2 >> 1) & 0x01;
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== '1' ? 576 : 1152;
+    const frameLength =
+      layer === 1
+        ? (Math.floor((12 * bitrate * 1000) / sampleRate) + padding) * 4
+        : Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) + padding;
+
+    return {
+      version,
+      layer,
+      bitrate,
+      sampleRate,
+      channels: b3 >> 6 === 3 ? 1 : 2,
+      samplesPerFrame,
+      frameLength,
+    };
+  }
+
+  /**
+   * Frame count from a Xing/Info or VBRI header in the first frame, when the encoder wrote one
+   */
+  private static readVbrFrameCount(view: DataView, start: number, frame: MpegFrame): number | null {
+    if (frame.layer === 3) {
+      const sideInfo = frame.version === '1' ? (frame.channels === 1 ? 17 : 32) : frame.channels === 1 ? 9 : 17;
+      const xing = start + 4 + sideInfo;
+      if (xing + 12 <= view.byteLength) {
+        const id = this.readId(view, xing);
+        if ((id === 'Xing' || id === 'Info') && view.getUint32(xing + 4, false) & 0x01) {
+          return view.getUint32(xing + 8, false);
+        }
+      }
+    }
+
+    const vbri = start + 4 + 32;
+    if (vbri + 18 <= view.byteLength && this.readId(view, vbri) === 'VBRI') {
+      return view.getUint32(vbri + 14, false);
+    }
+    return null;
+  }
+
+  private static probeAdts(view: DataView): FormatSummary {
+    const start = this.skipId3v2(view);
+    if (start + 7 > view.byteLength) {
+      throw new AudioDecodeError('truncated', 'AAC file ends inside its first ADTS header');
+    }
+
+    const b2 = view.getUint8(start + 2);
+    const b3 = view.getUint8(start + 3);
+    const rateIndex = (b2 >> 2) & 0x0f;
+    const sampleRate = ADTS_SAMPLE_RATES[rateIndex];
+    if (!sampleRate) {
+      throw new AudioDecodeError('invalid-header', `AAC ADTS header uses reserved sample rate index ${rateIndex}`);
+    }
+    const channelConfig = ((b2 & 0x01) << 2) | (b3 >> 6);
+    const profiles = ['Main', 'LC', 'SSR', 'LTP'];
+
+    // ADTS has no global header, so count frames; each carries 1024 samples per raw data block
+    let frames = 0;
+    let offset = start;
+    while (offset + 7 <= view.byteLength) {
+      if (view.getUint8(offset) !== 0xff || (view.getUint8(offset + 1) & 0xf6) !== 0xf0) break;
+      const length =
+        ((view.getUint8(offset + 3) & 0x03) << 11) | (view.getUint8(offset + 4) << 3) | (view.getUint8(offset + 5) >> 5);
+      if (length < 7) break;
+      frames += (view.getUint8(offset + 6) & 0x03) + 1;
+      offset += length;
+    }
+
+    const duration = (frames * 1024) / sampleRate;
+    return {
+      format: 'aac',
+      label: 'AAC',
+      codec: `AAC ${profiles[b2 >> 6]}`,
+      sampleRate,
+      // Configuration 0 defers the layout to an in-band program config element
+      channels: channelConfig === 0 ? null : channelConfig === 7 ? 8 : channelConfig,
+      duration,
+      bitrate: duration > 0 ? Math.round(((offset - start) * 8) / duration / 1000) : undefined,
+    };
+  }
+
+  private static probeMp4(view: DataView): FormatSummary {
+    const brand = this.readId(view, 8);
+    const label = brand.startsWith('M4') ? 'M4A' : brand === 'qt  ' ? 'QuickTime' : 'MP4';
+
+    const moov = this.readBoxes(view, 0, view.byteLength).find(box => box.type === 'moov');
+    if (!moov) {
+      throw new AudioDecodeError(
+        'missing-chunk',
+        `${label} file has no moov box; it is truncated or was not finalised when recording stopped`
+      );
+    }
+
+    for (const trak of this.readBoxes(view, moov.offset, moov.size).filter(box => box.type === 'trak')) {
+      const mdia = this.findBox(view, trak, ['mdia']);
+      const hdlr = mdia && this.findBox(view, mdia, ['hdlr']);
+      if (!mdia || !hdlr || this.readId(view, hdlr.offset + 8) !== 'soun') continue;
+
+      const mdhd = this.findBox(view, mdia, ['mdhd']);
+      const stsd = this.findBox(view, mdia, ['minf', 'stbl', 'stsd']);
+      if (!mdhd || !stsd) {
+        throw new AudioDecodeError('missing-chunk', `${label} audio track is missing its mdhd or stsd box`);
+      }
+
+      const version = view.getUint8(mdhd.offset);
+      const timescale = view.getUint32(mdhd.offset + (version === 1 ? 20 : 12), false);
+      const trackLength =
+        version === 1 ? PcmDecoder.readUint64(view, mdhd.offset + 24, false) : view.getUint32(mdhd.offset + 16, false);
+
+      // Sample entry: size, type, 6 reserved, data ref index, 8 reserved, channels, sample size, 4 reserved, rate (16.16)
+      const entry = stsd.offset + 8;
+      const codecType = this.readId(view, entry + 4);
+      const channels = view.getUint16(entry + 24, false);
+      const entryRate = view.getUint32(entry + 32, false) >>> 16;
+      const sampleRate = entryRate > 0 ? entryRate : timescale;
+      this.validateLayout(label, channels, sampleRate);
+
+      return {
+        format: 'mp4',
+        label,
+        codec: MP4_CODEC_NAMES[codecType] ?? `"${codecType.replace(/[^\x20-\x7e]/g, '?')}"`,
+        sampleRate,
+        channels,
+        duration: timescale > 0 ? trackLength / timescale : null,
+      };
+    }
+
+    throw new AudioDecodeError('missing-chunk', `${label} file contains no audio track`);
+  }
+
+  /**
+   * Child boxes within [offset, offset + size), following 64-bit and to-end-of-file sizes
+   */
+  private static readBoxes(view: DataView, offset: number, size: number): Mp4Box[] {
+    const boxes: Mp4Box[] = [];
+    const end = Math.min(offset + size, view.byteLength);
+    let position = offset;
+
+    while (position + 8 <= end) {
+      let boxSize = view.getUint32(position, false);
+      const type = this.readId(view, position + 4);
+      let header = 8;
+      if (boxSize === 1) {
+        boxSize = PcmDecoder.readUint64(view, position + 8, false);
+        header = 16;
+      } else if (boxSize === 0) {
+        boxSize = end - position;
+      }
+      if (boxSize < header) break;
+
+      boxes.push({ type, offset: position + header, size: Math.min(boxSize, end - position) - header });
+      position += boxSize;
+    }
+
+    return boxes;
+  }
+
+  private static findBox(view: DataView, parent: Mp4Box, path: string[]): Mp4Box | null {
+    let current: Mp4Box | undefined = parent;
+    for (const type of path) {
+      current = this.readBoxes(view, current.offset, current.size).find(box => box.type === type);
+      if (!current) return null;
+    }
+    return current;
+  }
+
+  /**
+   * Offset of the first byte after an ID3v2 tag, or 0 when there is none
+   */
+  private static skipId3v2(view: DataView): number {
+    if (view.byteLength < 10 || this.readString(view, 0, 3) !== 'ID3') return 0;
+    // Tag size is a 28-bit syncsafe integer excluding the 10-byte header and optional footer
+    const size =
+      ((view.getUint8(6) & 0x7f) << 21) |
+      ((view.getUint8(7) & 0x7f) << 14) |
+      ((view.getUint8(8) & 0x7f) << 7) |
+      (view.getUint8(9) & 0x7f);
+    const footer = view.getUint8(5) & 0x10 ? 10 : 0;
+    return Math.min(view.byteLength, 10 + size + footer);
+  }
+
+  private static id3v1Length(view: DataView): number {
+    return view.byteLength >= 128 && this.readString(view, view.byteLength - 128, 3) === 'TAG' ? 128 : 0;
+  }
+
+  /**
+   * Why an unrecognised file is certainly not audio, or null when it might still decode
+   */
+  private static describeForeign(view: DataView): string | null {
+    if (view.byteLength === 0) return 'File is empty';
+
+    const bytes = Array.from({ length: Math.min(4, view.byteLength) }, (_, i) => view.getUint8(i));
+    const foreign = FOREIGN_SIGNATURES.find(([signature]) => signature.every((byte, i) => bytes[i] === byte));
+    if (foreign) return `This is ${foreign[1]}, not an audio file`;
+
+    const head = this.readId(view, 0);
+    if (head === 'RIFF' && view.byteLength >= 12) {
+      return `RIFF file holds "${this.readId(view, 8).replace(/[^\x20-\x7e]/g, '?')}" data, not WAVE audio`;
+    }
+    if (head === 'FORM' && view.byteLength >= 12) {
+      return `IFF file holds "${this.readId(view, 8).replace(/[^\x20-\x7e]/g, '?')}" data, not AIFF audio`;
+    }
+    return null;
+  }
+
+  private static validateLayout(container: string, channels: number, sampleRate: number): void {
+    if (channels === 0) {
+      throw new AudioDecodeError('invalid-header', `${container} header declares 0 channels`);
+    }
+    if (!Number.isFinite(sampleRate) || sampleRate < 1) {
+      throw new AudioDecodeError('invalid-header', `${container} header declares an invalid sample rate (${sampleRate})`);
+    }
+  }
+
+  private static formatName(format: ContainerFormat): string {
+    return format === 'mp4' ? 'MP4' : format === 'webm' ? 'WebM' : format === 'aifc' ? 'AIFF-C' : format === 'rf64' ? 'RF64' : format.toUpperCase();
+  }
+
+  private static readId(view: DataView, offset: number): string {
+    return this.readString(view, offset, 4);
+  }
+
+  private static readString(view: DataView, offset: number, length: number): string {
+    let value = '';
+    for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+      value += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return value;
+  }
+}
@@ -0,0 +1,119 @@
+import { PITCH_CLASSES } from './keyDetection';
+
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'bark';
+
+// Lowest frequency shown on a log axis; below this the axis would stretch towards DC forever
+export const LOG_SCALE_MIN_HZ = 20;
+
+// Candidate labels for the warped axes, thinned out by the caller to fit
+const WARPED_TICKS = [20, 50, 100, 200, 300, 500, 1000, 2000, 3000, 5000, 8000, 12000, 16000, 20000, 30000, 40000];
+
+/**
+ * Frequency axis warping for spectrogram rows and labels
+ */
+export class FrequencyScaleUtils {
+  /**
+   * Lowest frequency the scale can show
+   */
+  static minFrequency(scale: FrequencyScale): number {
+    return scale === 'log' ? LOG_SCALE_MIN_HZ : 0;
+  }
+
+  /**
+   * Warp a frequency onto the scale's own units (Hz, log10 Hz, mel or Bark)
+   */
+  static warp(hz: number, scale: FrequencyScale): number {
+    switch (scale) {
+      case 'log':
+        return Math.log10(Math.max(LOG_SCALE_MIN_HZ, hz));
+      case 'mel':
+        return 2595 * Math.log10(1 + hz / 700);
+      case 'bark':
+        // Traunmüller's approximation
+        return (26.81 * hz) / (1960 + hz) - 0.53;
+      default:
+        return hz;
+    }
+  }
+
+  static unwarp(value: number, scale: FrequencyScale): number {
+    switch (scale) {
+      case 'log':
+        return 10 ** value;
+      case 'mel':
+        return 700 * (10 ** (value / 2595) - 1);
+      case 'bark':
+        return (1960 * (value + 0.53)) / (26.28 - value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Position of a frequency between minHz (0) and maxHz (1) on the scale
+   */
+  static position(hz: number, scale: FrequencyScale, minHz: number, maxHz: number): number {
+    const low = this.warp(minHz, scale);
+    return (this.warp(hz, scale) - low) / (this.warp(maxHz, scale) - low);
+  }
+
+  static frequencyAt(position: number, scale: FrequencyScale, minHz: number, maxHz: number): number {
+    const low = this.warp(minHz, scale);
+    return this.unwarp(low + position * (this.warp(maxHz, scale) - low), scale);
+  }
+
+  /**
+   * Split the range from the scale's lowest frequency up to Nyquist into equal bands on the scale,
+   * lowest first, and give the FFT bins [low, high) each band covers. Every band gets at least one bin
+   */
+  static bandBins(bands: number, binCount: number, sampleRate: number, scale: FrequencyScale): { low: Int32Array; high: Int32Array } {
+    const nyquist = sampleRate / 2;
+    const binHz = nyquist / binCount;
+    const minHz = this.minFrequency(scale);
+    const low = new Int32Array(bands);
+    const high = new Int32Array(bands);
+    for (let band = 0; band < bands; band++) {
+      const bottom = this.frequencyAt(band / bands, scale, minHz, nyquist);
+      const top = this.frequencyAt((band + 1) / bands, scale, minHz, nyquist);
+      low[band] = Math.min(binCount - 1, Math.floor(bottom / binHz));
+      high[band] = Math.max(low[band] + 1, Math.min(binCount, Math.round(top / binHz)));
+    }
+    return { low, high };
+  }
+
+  /**
+   * Label frequencies between minHz and maxHz: evenly spaced round numbers on a linear axis,
+   * a fixed ladder on the warped ones
+   */
+  static ticks(scale: FrequencyScale, minHz: number, maxHz: number, maxTicks = 8): number[] {
+    if (scale !== 'linear') {
+      return WARPED_TICKS.filter(hz => hz >= minHz && hz <= maxHz);
+    }
+
+    const rough = (maxHz - minHz) / Math.max(1, maxTicks);
+    const magnitude = 10 ** Math.floor(Math.log10(rough));
+    const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) ?? rough;
+    const ticks: number[] = [];
+    for (let hz = Math.ceil(minHz / step) * step; hz <= maxHz; hz += step) ticks.push(hz);
+    return ticks;
+  }
+
+  static formatFrequency(hz: number): string {
+    if (hz >= 1000) return `${(hz / 1000).toFixed(hz >= 10000 || hz % 1000 === 0 ? 0 : 1)}k`;
+    return `${Math.round(hz)}`;
+  }
+
+  /**
+   * Nearest equal-tempered note (A4 = 440 Hz) and how far off it the frequency is, in cents
+   */
+  static noteName(hz: number): { name: string; cents: number } | null {
+    if (!(hz > 0)) return null;
+    const midi = 69 + 12 * Math.log2(hz / 440);
+    const nearest = Math.round(midi);
+    const octave = Math.floor(nearest / 12) - 1;
+    return {
+      name: `${PITCH_CLASSES[((nearest % 12) + 12) % 12]}${octave}`,
+      cents: Math.round((midi - nearest) * 100),
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { FeatureTracks, KeyCandidate, KeyEstimate, KeyMode, TagComparison } from '@/types/audio';
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const FLAT_TO_SHARP: Record<string, string> = { Db: 'C#', Eb: 'D#', Gb: 'F#', Ab: 'G#', Bb: 'A#', Cb: 'B', Fb: 'E' };
+
+// Camelot wheel numbers 1-12 as pitch classes: "A" is minor, "B" is major
+const CAMELOT_MINOR = ['G#', 'D#', 'A#', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const CAMELOT_MAJOR = ['B', 'F#', 'C#', 'G#', 'D#', 'A#', 'F', 'C', 'G', 'D', 'A', 'E'];
+
+// Krumhansl-Kessler probe-tone profiles, starting on the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * Krumhansl-Schmuckler key detection over chroma vectors
+ */
+export class KeyDetector {
+  /**
+   * Detect the key of a whole file from its chroma track, weighting frames by RMS
+   */
+  static detectFromTracks(tracks: FeatureTracks, numCandidates: number = 4): KeyEstimate {
+    const chroma = new Array(12).fill(0);
+    for (let frame = 0; frame < tracks.chroma.length; frame++) {
+      const weight = tracks.rms[frame];
+      for (let c = 0; c < 12; c++) {
+        chroma[c] += tracks.chroma[frame][c] * weight;
+      }
+    }
+
+    return this.detect(chroma, numCandidates);
+  }
+
+  /**
+   * Correlate a chroma vector against all 24 rotated major and minor profiles
+   */
+  static detect(chroma: ArrayLike<number>, numCandidates: number = 4): KeyEstimate {
+    const candidates: KeyCandidate[] = [];
+
+    for (let tonic = 0; tonic < 12; tonic++) {
+      candidates.push({
+        tonic: PITCH_CLASSES[tonic],
+        mode: 'major',
+        correlation: this.correlate(chroma, MAJOR_PROFILE, tonic),
+      });
+      candidates.push({
+        tonic: PITCH_CLASSES[tonic],
+        mode: 'minor',
+        correlation: this.correlate(chroma, MINOR_PROFILE, tonic),
+      });
+    }
+
+    candidates.sort((a, b) => b.correlation - a.correlation);
+    const [best, runnerUp] = candidates;
+
+    // How far the winner stands out from the runner-up, relative to the remaining headroom
+    const separation = (best.correlation - runnerUp.correlation) / Math.max(1e-6, 1 - runnerUp.correlation);
+
+    return {
+      tonic: best.tonic,
+      mode: best.mode,
+      name: `${best.tonic} ${best.mode}`,
+      correlation: best.correlation,
+      confidence: Number.isFinite(separation) ? Math.min(1, Math.max(0, separation)) : 0,
+      alternatives: candidates.slice(1, 1 + numCandidates),
+    };
+  }
+
+  /**
+   * Parse a tagged key such as "Am", "F# minor", "Bbmaj", "Ebm" or Camelot "8A"
+   */
+  static parseKeyName(name: string): { tonic: string; mode: KeyMode } | null {
+    const text = name.trim().replace(/♯/g, '#').replace(/♭/g, 'b');
+
+    const camelot = /^(\d{1,2})\s*([AB])$/i.exec(text);
+    if (camelot) {
+      const index = parseInt(camelot[1], 10) - 1;
+      if (index < 0 || index > 11) return null;
+      return camelot[2].toUpperCase() === 'A'
+        ? { tonic: CAMELOT_MINOR[index], mode: 'minor' }
+        : { tonic: CAMELOT_MAJOR[index], mode: 'major' };
+    }
+
+    const match = /^([A-Ga-g])([#b]?)\s*(.*)$/.exec(text);
+    if (!match) return null;
+
+    const note = match[1].toUpperCase() + match[2];
+    const tonic = FLAT_TO_SHARP[note] ?? note;
+    if (!PITCH_CLASSES.includes(tonic)) return null;
+
+    const suffix = match[3].trim().toLowerCase();
+    if (suffix === '' || suffix === 'maj' || suffix === 'major' || suffix === 'dur') {
+      return { tonic, mode: 'major' };
+    }
+    if (suffix === 'm' || suffix === 'min' || suffix === 'minor' || suffix === 'moll') {
+      return { tonic, mode: 'minor' };
+    }
+    return null;
+  }
+
+  /**
+   * Compare a detected key with a tagged one; relative major/minor counts as related
+   */
+  static compareWithTag(estimate: KeyCandidate, taggedKey: string | undefined): TagComparison {
+    const tagged = taggedKey ? this.parseKeyName(taggedKey) : null;
+    if (!tagged) return 'unknown';
+    if (tagged.tonic === estimate.tonic && tagged.mode === estimate.mode) return 'match';
+    if (tagged.mode === estimate.mode) return 'mismatch';
+
+    // The relative minor sits three semitones below its major
+    const detected = PITCH_CLASSES.indexOf(estimate.tonic);
+    const tag = PITCH_CLASSES.indexOf(tagged.tonic);
+    const offset = estimate.mode === 'major' ? 9 : 3;
+    return (detected + offset) % 12 === tag ? 'related' : 'mismatch';
+  }
+
+  /**
+   * Pearson correlation between chroma and a profile rotated to the given tonic
+   */
+  private static correlate(chroma: ArrayLike<number>, profile: number[], tonic: number): number {
+    let chromaMean = 0;
+    let profileMean = 0;
+    for (let i = 0; i < 12; i++) {
+      chromaMean += chroma[i];
+      profileMean += profile[i];
+    }
+    chromaMean /= 12;
+    profileMean /= 12;
+
+    let covariance = 0;
+    let chromaVariance = 0;
+    let profileVariance = 0;
+    for (let i = 0; i < 12; i++) {
+      const x = chroma[(i + tonic) % 12] - chromaMean;
+      const y = profile[i] - profileMean;
+      covariance += x * y;
+      chromaVariance += x * x;
+      profileVariance += y * y;
+    }
+
+    const denominator = Math.sqrt(chromaVariance * profileVariance);
+    return denominator > 0 ? covariance / denominator : 0;
+  }
+}
@@ -0,0 +1,361 @@
+import { AudioFile, LoudnessMeasurement, MLAudioFeatures, WaveformData } from '@/types/audio';
+import { audioUtils, AudioContextManager } from './audioUtils';
+
+const DB_NAME = 'no-audio-library';
+const DB_VERSION = 2;
+const FILES_STORE = 'files';
+const BYTES_STORE = 'bytes';
+const PCM_STORE = 'pcm';
+const ANALYSIS_STORE = 'analysis';
+
+// Bump whenever feature extraction or loudness measurement changes, so cached results are recomputed
+export const ANALYSIS_CACHE_VERSION = 2;
+
+// Decoded samples above this size are not cached; copying them into blobs stalls the page and
+// fills the quota, so those files are decoded again from their bytes on each open
+const MAX_PCM_CACHE_BYTES = 256 * 1024 * 1024;
+
+// Resolution of the stored overview waveform, enough for list thumbnails and a first paint
+const PEAK_SAMPLES = 1000;
+
+/**
+ * Searchable description of a stored file; the bytes and decoded samples live in separate stores
+ */
+export interface LibraryRecord {
+  hash: string;
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  addedAt: number;
+  lastOpenedAt: number;
+  duration: number;
+  sampleRate: number;
+  channels: number;
+  title?: string;
+  artist?: string;
+  album?: string;
+  peaks: WaveformData;
+}
+
+// Analysis runs on the decoded samples, so like them it is keyed by content and context rate
+export interface CachedAnalysis {
+  key: string;
+  hash: string;
+  sampleRate: number;
+  version: number;
+  analyzedAt: number;
+  features: MLAudioFeatures;
+  loudness: LoudnessMeasurement | null;
+}
+
+interface BytesRecord {
+  hash: string;
+  blob: Blob;
+}
+
+// decodeAudioData resamples to the context rate, so decoded samples are only reusable at that rate
+interface PcmRecord {
+  key: string;
+  hash: string;
+  sampleRate: number;
+  length: number;
+  channels: Blob[];
+}
+
+type Listener = () => void;
+
+/**
+ * Persistent audio library in IndexedDB, keyed by the SHA-256 of the file bytes.
+ * Re-opening a stored file reuses its decoded samples and analysis instead of recomputing them
+ */
+export class AudioLibraryStore {
+  private static database: Promise<IDBDatabase> | null = null;
+  private static listeners = new Set<Listener>();
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hex SHA-256 of the bytes, used as the library key
+   */
+  static async hash(buffer: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Load a file through the library: decoded samples are reused when cached at the current
+   * context rate, otherwise the file is decoded and stored (with its samples when small enough).
+   * Falls back to a plain load when IndexedDB is unavailable or fails
+   */
+  static async openFile(file: File, preloaded?: ArrayBuffer): Promise<AudioFile> {
+    const buffer = preloaded ?? await file.arrayBuffer();
+    if (!this.isAvailable()) {
+      return audioUtils.loadAudioFile(file, buffer);
+    }
+
+    let hash: string;
+    try {
+      hash = await this.hash(buffer);
+    } catch (error) {
+      console.warn('Could not hash file for the library:', error);
+      return audioUtils.loadAudioFile(file, buffer);
+    }
+
+    const context = AudioContextManager.getInstance().getContext();
+    const cached = await this.readPcm(hash, context);
+    if (cached) {
+      this.touch(hash);
+      return { ...audioUtils.createAudioFile(file, buffer, cached), contentHash: hash };
+    }
+
+    const audioFile = { ...await audioUtils.loadAudioFile(file, buffer), contentHash: hash };
+    // Storing can take a while for long files; the caller does not need to wait for it
+    this.store(audioFile).catch(error => console.warn('Could not store file in the library:', error));
+    return audioFile;
+  }
+
+  /**
+   * Re-open a stored file from its original bytes
+   */
+  static async loadFile(hash: string): Promise<AudioFile> {
+    const [record, bytes] = await Promise.all([
+      this.get<LibraryRecord>(FILES_STORE, hash),
+      this.get<BytesRecord>(BYTES_STORE, hash),
+    ]);
+    if (!record || !bytes) {
+      throw new Error('This file is no longer in the library');
+    }
+
+    const file = new File([bytes.blob], record.name, { type: record.type, lastModified: record.lastModified });
+    return this.openFile(file);
+  }
+
+  /**
+   * Stored files, most recently opened first
+   */
+  static async list(): Promise<LibraryRecord[]> {
+    if (!this.isAvailable()) return [];
+    const db = await this.open();
+    const records = await this.request<LibraryRecord[]>(
+      db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE).getAll()
+    );
+    return records.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+  }
+
+  /**
+   * Case-insensitive match of every word in the query against name and tags
+   */
+  static filter(records: LibraryRecord[], query: string): LibraryRecord[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return records;
+
+    return records.filter(record => {
+      const haystack = [record.name, record.title, record.artist, record.album].filter(Boolean).join(' ').toLowerCase();
+      return words.every(word => haystack.includes(word));
+    });
+  }
+
+  /**
+   * Cached analysis for the content decoded at this sample rate, or null when missing or produced
+   * by an older analysis version
+   */
+  static async getAnalysis(hash: string, sampleRate: number): Promise<CachedAnalysis | null> {
+    if (!this.isAvailable()) return null;
+    try {
+      const cached = await this.get<CachedAnalysis>(ANALYSIS_STORE, `${hash}@${sampleRate}`);
+      return cached && cached.version === ANALYSIS_CACHE_VERSION ? cached : null;
+    } catch (error) {
+      console.warn('Could not read cached analysis:', error);
+      return null;
+    }
+  }
+
+  static async saveAnalysis(
+    hash: string,
+    sampleRate: number,
+    features: MLAudioFeatures,
+    loudness: LoudnessMeasurement | null
+  ): Promise<void> {
+    if (!this.isAvailable()) return;
+    const cached: CachedAnalysis = {
+      key: `${hash}@${sampleRate}`,
+      hash,
+      sampleRate,
+      version: ANALYSIS_CACHE_VERSION,
+      analyzedAt: Date.now(),
+      features,
+      loudness,
+    };
+    const db = await this.open();
+    const transaction = db.transaction(ANALYSIS_STORE, 'readwrite');
+    transaction.objectStore(ANALYSIS_STORE).put(cached);
+    await this.complete(transaction);
+  }
+
+  static async remove(hash: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([FILES_STORE, BYTES_STORE, PCM_STORE, ANALYSIS_STORE], 'readwrite');
+    transaction.objectStore(FILES_STORE).delete(hash);
+    transaction.objectStore(BYTES_STORE).delete(hash);
+    const keys = IDBKeyRange.bound(`${hash}@`, `${hash}@\uffff`);
+    transaction.objectStore(ANALYSIS_STORE).delete(keys);
+    transaction.objectStore(PCM_STORE).delete(keys);
+    await this.complete(transaction);
+    this.notify();
+  }
+
+  static async clear(): Promise<void> {
+    const db = await this.open();
+    const stores = [FILES_STORE, BYTES_STORE, PCM_STORE, ANALYSIS_STORE];
+    const transaction = db.transaction(stores, 'readwrite');
+    stores.forEach(store => transaction.objectStore(store).clear());
+    await this.complete(transaction);
+    this.notify();
+  }
+
+  /**
+   * Bytes used and available to this origin, when the browser reports it
+   */
+  static async estimateUsage(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+
+  private static async store(audioFile: AudioFile & { contentHash: string }): Promise<void> {
+    const { contentHash: hash, audioBuffer, metadata } = audioFile;
+    const now = Date.now();
+    const existing = await this.get<LibraryRecord>(FILES_STORE, hash);
+
+    const record: LibraryRecord = {
+      hash,
+      name: audioFile.name,
+      type: audioFile.file.type,
+      size: audioFile.size,
+      lastModified: audioFile.lastModified,
+      addedAt: existing?.addedAt ?? now,
+      lastOpenedAt: now,
+      duration: audioFile.duration,
+      sampleRate: audioFile.sampleRate,
+      channels: audioFile.channels,
+      title: metadata.title,
+      artist: metadata.artist,
+      album: metadata.album,
+      peaks: audioUtils.generateWaveformData(audioBuffer, PEAK_SAMPLES),
+    };
+    const pcmBytes = audioBuffer.length * audioBuffer.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+    const pcm: PcmRecord | null = pcmBytes > MAX_PCM_CACHE_BYTES ? null : {
+      key: `${hash}@${audioBuffer.sampleRate}`,
+      hash,
+      sampleRate: audioBuffer.sampleRate,
+      length: audioBuffer.length,
+      channels: Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) =>
+        new Blob([audioBuffer.getChannelData(channel) as Float32Array<ArrayBuffer>])
+      ),
+    };
+
+    const db = await this.open();
+    const transaction = db.transaction([FILES_STORE, BYTES_STORE, PCM_STORE], 'readwrite');
+    transaction.objectStore(FILES_STORE).put(record);
+    transaction.objectStore(BYTES_STORE).put({ hash, blob: audioFile.file } satisfies BytesRecord);
+    if (pcm) transaction.objectStore(PCM_STORE).put(pcm);
+    await this.complete(transaction);
+    this.notify();
+  }
+
+  private static async readPcm(hash: string, context: BaseAudioContext): Promise<AudioBuffer | null> {
+    try {
+      const pcm = await this.get<PcmRecord>(PCM_STORE, `${hash}@${context.sampleRate}`);
+      if (!pcm || pcm.channels.length === 0) return null;
+
+      const audioBuffer = context.createBuffer(pcm.channels.length, Math.max(1, pcm.length), pcm.sampleRate);
+      const channels = await Promise.all(pcm.channels.map(blob => blob.arrayBuffer()));
+      channels.forEach((data, channel) => {
+        audioBuffer.copyToChannel(new Float32Array(data), channel);
+      });
+      return audioBuffer;
+    } catch (error) {
+      console.warn('Cached samples are unreadable; decoding again:', error);
+      return null;
+    }
+  }
+
+  private static async touch(hash: string): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(FILES_STORE, 'readwrite');
+      const store = transaction.objectStore(FILES_STORE);
+      // Put from inside the success callback so the transaction is still active
+      const request = store.get(hash);
+      request.onsuccess = () => {
+        const record = request.result as LibraryRecord | undefined;
+        if (record) store.put({ ...record, lastOpenedAt: Date.now() });
+      };
+      await this.complete(transaction);
+      this.notify();
+    } catch (error) {
+      console.warn('Could not update library record:', error);
+    }
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+          const db = request.result;
+          if (event.oldVersion < 1) {
+            db.createObjectStore(FILES_STORE, { keyPath: 'hash' });
+            db.createObjectStore(BYTES_STORE, { keyPath: 'hash' });
+            db.createObjectStore(PCM_STORE, { keyPath: 'key' });
+          }
+          // Version 1 keyed analysis by content alone; those results are simply recomputed
+          if (db.objectStoreNames.contains(ANALYSIS_STORE)) db.deleteObjectStore(ANALYSIS_STORE);
+          db.createObjectStore(ANALYSIS_STORE, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('The audio library is open in an older version of this page'));
+      });
+      // Allow a later retry if opening failed
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private static async get<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+    const db = await this.open();
+    return this.request<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+  }
+
+  private static request<T>(request: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Library transaction aborted'));
+    });
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
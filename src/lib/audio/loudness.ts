@@ -0,0 +1,308 @@
+import { AudioBufferLike, LoudnessMeasurement } from '@/types/audio';
+
+export interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export const ABSOLUTE_GATE = -70;
+export const MOMENTARY_RELATIVE_GATE = -10;
+const SHORT_TERM_RELATIVE_GATE = -20;
+export const SUB_BLOCK_SECONDS = 0.1;
+export const MOMENTARY_SUB_BLOCKS = 4;
+export const SHORT_TERM_SUB_BLOCKS = 30;
+export const TRUE_PEAK_TAPS = 12;
+
+/**
+ * ITU-R BS.1770-4 / EBU R128 loudness, loudness range and true-peak measurement
+ */
+export class LoudnessMeter {
+  /**
+   * Measure programme and per-channel loudness of an AudioBuffer
+   */
+  static measure(audioBuffer: AudioBufferLike): LoudnessMeasurement {
+    const sampleRate = audioBuffer.sampleRate;
+    const numChannels = audioBuffer.numberOfChannels;
+    const weights = this.channelWeights(numChannels);
+    const subBlockSize = Math.max(1, Math.round(sampleRate * SUB_BLOCK_SECONDS));
+    const numSubBlocks = Math.ceil(audioBuffer.length / subBlockSize);
+
+    // Mean square of the K-weighted signal per channel and 100 ms sub-block
+    const subBlockPower: Float64Array[] = [];
+    const channelTruePeaks: number[] = [];
+
+    for (let channel = 0; channel < numChannels; channel++) {
+      const data = audioBuffer.getChannelData(channel);
+      subBlockPower.push(this.kWeightedSubBlocks(data, sampleRate, subBlockSize, numSubBlocks));
+      channelTruePeaks.push(this.toDecibels(this.truePeak(data, sampleRate)));
+    }
+
+    const programmePower = new Float64Array(numSubBlocks);
+    for (let channel = 0; channel < numChannels; channel++) {
+      for (let i = 0; i < numSubBlocks; i++) {
+        programmePower[i] += weights[channel] * subBlockPower[channel][i];
+      }
+    }
+
+    const momentaryPower = this.slidingBlocks(programmePower, MOMENTARY_SUB_BLOCKS);
+    const shortTermPower = this.slidingBlocks(programmePower, SHORT_TERM_SUB_BLOCKS);
+    const momentary = this.powerToLoudness(momentaryPower);
+    const shortTerm = this.powerToLoudness(shortTermPower);
+
+    return {
+      integrated: this.gatedLoudness(momentaryPower),
+      momentaryMax: this.maxOf(momentary),
+      shortTermMax: this.maxOf(shortTerm),
+      loudnessRange: this.loudnessRange(shortTermPower),
+      truePeak: Math.max(...channelTruePeaks),
+      momentary,
+      shortTerm,
+      blockStep: SUB_BLOCK_SECONDS,
+      channels: subBlockPower.map((power, channel) => ({
+        integrated: this.gatedLoudness(this.slidingBlocks(power, MOMENTARY_SUB_BLOCKS)),
+        truePeak: channelTruePeaks[channel],
+      })),
+    };
+  }
+
+  /**
+   * BS.1770 channel weights, assuming Web Audio's L, R, C, LFE, SL, SR ordering
+   */
+  static channelWeights(numChannels: number): number[] {
+    switch (numChannels) {
+      case 4:
+        return [1, 1, 1.41, 1.41];
+      case 5:
+        return [1, 1, 1, 1.41, 1.41];
+      case 6:
+        return [1, 1, 1, 0, 1.41, 1.41];
+      default:
+        return new Array(numChannels).fill(1);
+    }
+  }
+
+  /**
+   * K-weighting pre-filter (high shelf followed by high-pass) for any sample rate
+   */
+  static kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+    // Stage 1: high shelf modelling the acoustic effect of the head
+    let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelf: Biquad = {
+      b0: (Vh + (Vb * K) / Q + K * K) / a0,
+      b1: (2 * (K * K - Vh)) / a0,
+      b2: (Vh - (Vb * K) / Q + K * K) / a0,
+      a1: (2 * (K * K - 1)) / a0,
+      a2: (1 - K / Q + K * K) / a0,
+    };
+
+    // Stage 2: RLB high-pass
+    K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highPass: Biquad = {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (K * K - 1)) / a0,
+      a2: (1 - K / Q + K * K) / a0,
+    };
+
+    return [shelf, highPass];
+  }
+
+  /**
+   * Filter a channel through the K-weighting curve and accumulate sub-block mean squares
+   */
+  private static kWeightedSubBlocks(
+    data: Float32Array,
+    sampleRate: number,
+    subBlockSize: number,
+    numSubBlocks: number
+  ): Float64Array {
+    const [shelf, highPass] = this.kWeightingFilters(sampleRate);
+    const power = new Float64Array(numSubBlocks);
+
+    let s1 = 0, s2 = 0, h1 = 0, h2 = 0;
+    for (let i = 0; i < data.length; i++) {
+      // Transposed direct form II, two stages
+      const x = data[i];
+      const y1 = shelf.b0 * x + s1;
+      s1 = shelf.b1 * x - shelf.a1 * y1 + s2;
+      s2 = shelf.b2 * x - shelf.a2 * y1;
+
+      const y2 = highPass.b0 * y1 + h1;
+      h1 = highPass.b1 * y1 - highPass.a1 * y2 + h2;
+      h2 = highPass.b2 * y1 - highPass.a2 * y2;
+
+      power[Math.floor(i / subBlockSize)] += y2 * y2;
+    }
+
+    // The last sub-block is usually partial; average it over the samples it actually holds
+    for (let i = 0; i < numSubBlocks; i++) {
+      power[i] /= Math.min(subBlockSize, data.length - i * subBlockSize);
+    }
+
+    return power;
+  }
+
+  /**
+   * Mean power of overlapping blocks made of consecutive sub-blocks, advancing one sub-block at a time
+   */
+  private static slidingBlocks(subBlocks: Float64Array, blockLength: number): Float64Array {
+    const numBlocks = subBlocks.length - blockLength + 1;
+    if (numBlocks <= 0) {
+      // Shorter than one block: treat the whole signal as a single block
+      let sum = 0;
+      for (let i = 0; i < subBlocks.length; i++) sum += subBlocks[i];
+      return Float64Array.of(subBlocks.length > 0 ? sum / subBlocks.length : 0);
+    }
+
+    const blocks = new Float64Array(numBlocks);
+    let sum = 0;
+    for (let i = 0; i < subBlocks.length; i++) {
+      sum += subBlocks[i];
+      if (i >= blockLength) sum -= subBlocks[i - blockLength];
+      if (i >= blockLength - 1) blocks[i - blockLength + 1] = sum / blockLength;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Integrated loudness with absolute and relative gating
+   */
+  private static gatedLoudness(blockPower: Float64Array): number {
+    const aboveAbsolute = this.gate(blockPower, ABSOLUTE_GATE);
+    if (aboveAbsolute.length === 0) return -Infinity;
+
+    const relativeGate = this.powerToLufs(this.mean(aboveAbsolute)) + MOMENTARY_RELATIVE_GATE;
+    const gated = this.gate(Float64Array.from(aboveAbsolute), relativeGate);
+    if (gated.length === 0) return -Infinity;
+
+    return this.powerToLufs(this.mean(gated));
+  }
+
+  /**
+   * Loudness range (EBU Tech 3342) from short-term block powers
+   */
+  private static loudnessRange(shortTermPower: Float64Array): number {
+    const aboveAbsolute = this.gate(shortTermPower, ABSOLUTE_GATE);
+    if (aboveAbsolute.length === 0) return 0;
+
+    const relativeGate = this.powerToLufs(this.mean(aboveAbsolute)) + SHORT_TERM_RELATIVE_GATE;
+    const loudness = this.gate(Float64Array.from(aboveAbsolute), relativeGate)
+      .map(power => this.powerToLufs(power))
+      .sort((a, b) => a - b);
+    if (loudness.length === 0) return 0;
+
+    const percentile = (fraction: number) =>
+      loudness[Math.min(loudness.length - 1, Math.round(fraction * (loudness.length - 1)))];
+    return percentile(0.95) - percentile(0.1);
+  }
+
+  /**
+   * Maximum absolute value of the 4x (or 2x above 96 kHz) oversampled signal
+   */
+  private static truePeak(data: Float32Array, sampleRate: number): number {
+    let peak = 0;
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+
+    const factor = sampleRate < 96000 ? 4 : sampleRate < 192000 ? 2 : 1;
+    if (factor === 1) return peak;
+
+    const phases = this.interpolationPhases(factor);
+    let gainBound = 0;
+    for (const phase of phases) {
+      gainBound = Math.max(gainBound, phase.reduce((sum, tap) => sum + Math.abs(tap), 0));
+    }
+
+    // Only interpolate where a recent sample could push the interpolated signal above the running peak
+    let lastLoud = -TRUE_PEAK_TAPS;
+    for (let n = 0; n < data.length; n++) {
+      if (Math.abs(data[n]) * gainBound >= peak) lastLoud = n;
+      if (n - lastLoud >= TRUE_PEAK_TAPS) continue;
+
+      for (const phase of phases) {
+        let sum = 0;
+        for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+          const index = n - k;
+          if (index >= 0) sum += data[index] * phase[k];
+        }
+        const value = Math.abs(sum);
+        if (value > peak) peak = value;
+      }
+    }
+
+    return peak;
+  }
+
+  /**
+   * Polyphase components of a Hann-windowed sinc interpolation filter
+   */
+  static interpolationPhases(factor: number): Float32Array[] {
+    const length = factor * TRUE_PEAK_TAPS;
+    const centre = (length - 1) / 2;
+    const phases: Float32Array[] = [];
+
+    for (let p = 0; p < factor; p++) {
+      const phase = new Float32Array(TRUE_PEAK_TAPS);
+      for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+        const n = p + k * factor;
+        const x = (n - centre) / factor;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+        phase[k] = sinc * window;
+      }
+      phases.push(phase);
+    }
+
+    return phases;
+  }
+
+  private static gate(blockPower: Float64Array, thresholdLufs: number): number[] {
+    const threshold = Math.pow(10, (thresholdLufs + 0.691) / 10);
+    const passed: number[] = [];
+    for (let i = 0; i < blockPower.length; i++) {
+      if (blockPower[i] > threshold) passed.push(blockPower[i]);
+    }
+    return passed;
+  }
+
+  private static powerToLoudness(blockPower: Float64Array): Float32Array {
+    const loudness = new Float32Array(blockPower.length);
+    for (let i = 0; i < blockPower.length; i++) {
+      loudness[i] = this.powerToLufs(blockPower[i]);
+    }
+    return loudness;
+  }
+
+  private static powerToLufs(power: number): number {
+    return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+  }
+
+  private static toDecibels(amplitude: number): number {
+    return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private static maxOf(values: Float32Array): number {
+    let max = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] > max) max = values[i];
+    }
+    return max;
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  ABSOLUTE_GATE,
+  LoudnessMeter,
+  MOMENTARY_RELATIVE_GATE,
+  MOMENTARY_SUB_BLOCKS,
+  SHORT_TERM_SUB_BLOCKS,
+  SUB_BLOCK_SECONDS,
+  TRUE_PEAK_TAPS,
+} from './loudness';
+
+/**
+ * One live reading, posted every 100 ms. Peaks are per channel and cover only that sub-block
+ */
+export interface LiveLoudnessReading {
+  momentary: number;
+  shortTerm: number;
+  integrated: number;
+  samplePeak: number[];
+  truePeak: number[];
+}
+
+export interface LoudnessTarget {
+  id: string;
+  label: string;
+  lufs: number;
+}
+
+/**
+ * Common delivery targets for integrated loudness
+ */
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+  { id: 'streaming', label: 'Streaming', lufs: -14 },
+  { id: 'broadcast', label: 'Broadcast (EBU R128)', lufs: -23 },
+  { id: 'podcast', label: 'Podcast', lufs: -16 },
+];
+
+const PROCESSOR_URL = '/worklets/loudness-meter-processor.js';
+const PROCESSOR_NAME = 'loudness-meter';
+// Highest channel count with its own BS.1770 weights table
+const MAX_WEIGHTED_CHANNELS = 8;
+
+// addModule is per context, and repeating it would register the processor twice
+const registrations = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Live momentary, short-term and integrated loudness with sample and true peaks, measured by an
+ * AudioWorklet tapped off the playback path. Uses LoudnessMeter's filters so it agrees with the offline numbers
+ */
+export class LoudnessMonitor {
+  private node: AudioWorkletNode;
+  private sources = new Set<AudioNode>();
+
+  private constructor(node: AudioWorkletNode) {
+    this.node = node;
+  }
+
+  /**
+   * Whether this context can run the meter; AudioWorklet needs a secure context
+   */
+  static isSupported(context: BaseAudioContext): boolean {
+    return typeof AudioWorkletNode !== 'undefined' && 'audioWorklet' in context;
+  }
+
+  /**
+   * Load the processor into the context if needed and create a meter that reports through onReading
+   */
+  static async create(context: BaseAudioContext, onReading: (reading: LiveLoudnessReading) => void): Promise<LoudnessMonitor> {
+    if (!this.isSupported(context)) {
+      throw new Error('Live loudness metering needs AudioWorklet support');
+    }
+
+    let registration = registrations.get(context);
+    if (!registration) {
+      registration = context.audioWorklet.addModule(PROCESSOR_URL);
+      registrations.set(context, registration);
+      // Let a later attempt retry a failed load
+      registration.catch(() => registrations.delete(context));
+    }
+    await registration;
+
+    const factor = context.sampleRate < 96000 ? 4 : context.sampleRate < 192000 ? 2 : 1;
+    const [shelf, highPass] = LoudnessMeter.kWeightingFilters(context.sampleRate);
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: {
+        shelf,
+        highPass,
+        channelWeights: Array.from({ length: MAX_WEIGHTED_CHANNELS + 1 }, (_, count) => LoudnessMeter.channelWeights(count)),
+        phases: factor > 1 ? LoudnessMeter.interpolationPhases(factor).map((phase) => Array.from(phase)) : [],
+        taps: TRUE_PEAK_TAPS,
+        subBlockSeconds: SUB_BLOCK_SECONDS,
+        momentarySubBlocks: MOMENTARY_SUB_BLOCKS,
+        shortTermSubBlocks: SHORT_TERM_SUB_BLOCKS,
+        absoluteGate: ABSOLUTE_GATE,
+        relativeGate: MOMENTARY_RELATIVE_GATE,
+      },
+    });
+    node.port.onmessage = (event: MessageEvent<LiveLoudnessReading>) => onReading(event.data);
+
+    // The processor outputs silence, but nodes that don't reach the destination may never be pulled
+    node.connect(context.destination);
+    return new LoudnessMonitor(node);
+  }
+
+  /**
+   * Start metering a node's output. The node keeps its existing connections
+   */
+  connect(source: AudioNode): void {
+    if (this.sources.has(source)) return;
+    source.connect(this.node);
+    this.sources.add(source);
+  }
+
+  /**
+   * Stop metering one node, or every connected node when none is given
+   */
+  disconnect(source?: AudioNode): void {
+    const targets = source ? [source] : [...this.sources];
+    for (const target of targets) {
+      try {
+        target.disconnect(this.node);
+      } catch {
+        // Already disconnected when the playback graph was torn down
+      }
+      this.sources.delete(target);
+    }
+  }
+
+  /**
+   * Start the integrated measurement and short-term window over
+   */
+  reset(): void {
+    this.node.port.postMessage({ type: 'reset' });
+  }
+
+  /**
+   * Disconnect and let the processor end; it would otherwise keep running for the life of the context
+   */
+  dispose(): void {
+    this.disconnect();
+    this.node.port.postMessage({ type: 'dispose' });
+    this.node.port.onmessage = null;
+    this.node.disconnect();
+  }
+}
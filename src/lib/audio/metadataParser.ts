@@ -0,0 +1,746 @@
+import { AudioMetadata, BroadcastExtension, CoverArt, MetadataSource } from '@/types/audio';
+import { PcmDecoder } from './pcmDecoder';
+
+type TagField = 'title' | 'artist' | 'album' | 'genre' | 'year' | 'comment' | 'key' | 'isrc';
+
+interface Chunk {
+  id: string;
+  offset: number;
+  size: number;
+}
+
+// ID3v2.3/2.4 and ID3v2.2 frame ids for the text fields we keep
+const ID3_TEXT_FRAMES: Record<string, TagField | 'bpm'> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TCON: 'genre', TCO: 'genre',
+  TYER: 'year', TYE: 'year', TDRC: 'year',
+  TBPM: 'bpm', TBP: 'bpm',
+  TKEY: 'key', TKE: 'key',
+  TSRC: 'isrc', TRC: 'isrc',
+};
+
+const RIFF_INFO_FIELDS: Record<string, TagField> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  IGNR: 'genre',
+  ICRD: 'year',
+  ICMT: 'comment',
+};
+
+const VORBIS_FIELDS: Record<string, TagField | 'bpm'> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUM: 'album',
+  GENRE: 'genre',
+  DATE: 'year',
+  COMMENT: 'comment',
+  DESCRIPTION: 'comment',
+  BPM: 'bpm',
+  TEMPO: 'bpm',
+  KEY: 'key',
+  INITIALKEY: 'key',
+  ISRC: 'isrc',
+};
+
+const MP4_FIELDS: Record<string, TagField> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  '©alb': 'album',
+  '©gen': 'genre',
+  '©day': 'year',
+  '©cmt': 'comment',
+};
+
+// Freeform iTunes atoms ("----") use reverse-DNS names
+const MP4_FREEFORM_FIELDS: Record<string, TagField | 'bpm'> = {
+  INITIALKEY: 'key',
+  KEY: 'key',
+  ISRC: 'isrc',
+  BPM: 'bpm',
+};
+
+// Only these MP4 containers need descending into to reach the ilst item list
+const MP4_CONTAINERS = new Set(['moov', 'udta', 'meta', 'ilst', 'trak', 'mdia']);
+
+const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+];
+
+/**
+ * Reads tags, cover art and markers from ID3, RIFF/BWF, AIFF, FLAC/Ogg Vorbis comments and MP4 atoms.
+ * Parsing never throws: malformed or unknown tags are skipped and whatever was readable is returned.
+ */
+export class MetadataParser {
+  static parse(buffer: ArrayBuffer): AudioMetadata {
+    const metadata: AudioMetadata = { markers: [], sources: [] };
+    const view = new DataView(buffer);
+
+    try {
+      let offset = 0;
+      // ID3v2 can prefix any stream (MP3, but also FLAC and AAC in the wild)
+      if (this.readId(view, 0, 3) === 'ID3') {
+        offset = this.parseId3v2(view, 0, metadata);
+      }
+
+      const magic = this.readId(view, offset, 4);
+      const form = this.readId(view, offset + 8, 4);
+      if ((magic === 'RIFF' || magic === 'RF64' || magic === 'BW64') && form === 'WAVE') {
+        this.parseWave(view, metadata);
+      } else if (magic === 'FORM' && (form === 'AIFF' || form === 'AIFC')) {
+        this.parseAiff(view, metadata);
+      } else if (magic === 'fLaC') {
+        this.parseFlac(view, offset + 4, metadata);
+      } else if (magic === 'OggS') {
+        this.parseOgg(view, offset, metadata);
+      } else if (this.readId(view, offset + 4, 4) === 'ftyp') {
+        this.parseMp4(view, offset, view.byteLength, metadata);
+      }
+
+      this.parseId3v1(view, metadata);
+    } catch (error) {
+      // Truncated or corrupt tags should never stop the file from loading
+      console.warn('Metadata parsing stopped early:', error);
+    }
+
+    metadata.markers.sort((a, b) => a.time - b.time);
+    return metadata;
+  }
+
+  // ID3v2 -------------------------------------------------------------------
+
+  /**
+   * Parse an ID3v2 tag starting at offset and return the offset just past it
+   */
+  private static parseId3v2(view: DataView, start: number, metadata: AudioMetadata): number {
+    const version = view.getUint8(start + 3);
+    const flags = view.getUint8(start + 5);
+    const tagSize = this.readSyncsafe(view, start + 6);
+    const end = Math.min(view.byteLength, start + 10 + tagSize);
+    if (version < 2 || version > 4) return end;
+
+    let bytes = new Uint8Array(view.buffer, view.byteOffset + start + 10, end - start - 10);
+    // Tag-level unsynchronisation (v2.2/2.3) inserts 0x00 after every 0xFF
+    if (flags & 0x80 && version < 4) {
+      bytes = this.removeUnsynchronisation(bytes);
+    }
+    const tag = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let offset = 0;
+    if (flags & 0x40 && version > 2) {
+      // Extended header: v2.3 size excludes itself, v2.4 size is syncsafe and includes itself
+      offset = version === 4 ? this.readSyncsafe(tag, 0) : tag.getUint32(0) + 4;
+    }
+
+    const idLength = version === 2 ? 3 : 4;
+    const headerLength = version === 2 ? 6 : 10;
+    this.addSource(metadata, 'id3v2');
+
+    while (offset + headerLength <= tag.byteLength) {
+      const id = this.readId(tag, offset, idLength);
+      if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+
+      const size = version === 2
+        ? (tag.getUint8(offset + 3) << 16) | (tag.getUint8(offset + 4) << 8) | tag.getUint8(offset + 5)
+        : version === 4 ? this.readSyncsafe(tag, offset + 4) : tag.getUint32(offset + 4);
+      const frameFlags = version === 2 ? 0 : tag.getUint16(offset + 8);
+      const frameStart = offset + headerLength;
+      if (size === 0 || frameStart + size > tag.byteLength) break;
+
+      let frame = new Uint8Array(tag.buffer, tag.byteOffset + frameStart, size);
+      if (version === 4) {
+        // Skip the data length indicator and undo per-frame unsynchronisation
+        if (frameFlags & 0x0001) frame = frame.subarray(4);
+        if (frameFlags & 0x0002) frame = this.removeUnsynchronisation(frame);
+      }
+      // Compressed or encrypted frames are not worth a zlib dependency
+      const unreadable = version === 3 ? frameFlags & 0x00c0 : version === 4 ? frameFlags & 0x000c : 0;
+      if (!unreadable) {
+        this.parseId3Frame(id, frame, version, metadata);
+      }
+
+      offset = frameStart + size;
+    }
+
+    // A footer (v2.4) adds another 10 bytes
+    return end + (version === 4 && flags & 0x10 ? 10 : 0);
+  }
+
+  private static parseId3Frame(id: string, frame: Uint8Array, version: number, metadata: AudioMetadata): void {
+    if (frame.length < 1) return;
+
+    const textField = ID3_TEXT_FRAMES[id];
+    if (textField) {
+      // Multiple values are NUL separated; keep the first
+      const value = this.decodeId3Text(frame.subarray(1), frame[0]).split('\0')[0].trim();
+      this.setField(metadata, textField, value);
+      return;
+    }
+
+    if (id === 'TXXX') {
+      const [description, value] = this.splitId3Strings(frame.subarray(1), frame[0]);
+      const field = MP4_FREEFORM_FIELDS[description.toUpperCase()];
+      if (field) this.setField(metadata, field, value);
+      return;
+    }
+
+    if (id === 'COMM' || id === 'COM') {
+      // encoding, 3-byte language, short description, text
+      const [, text] = this.splitId3Strings(frame.subarray(4), frame[0]);
+      this.setField(metadata, 'comment', text);
+      return;
+    }
+
+    if ((id === 'APIC' || id === 'PIC') && !metadata.coverArt) {
+      const encoding = frame[0];
+      let offset = 1;
+      let mimeType: string;
+      if (version === 2) {
+        // v2.2 stores a three-letter image format instead of a MIME type
+        const format = this.latin1(frame.subarray(1, 4)).toLowerCase();
+        mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+        offset = 4;
+      } else {
+        const mimeEnd = frame.indexOf(0, offset);
+        if (mimeEnd < 0) return;
+        mimeType = this.latin1(frame.subarray(offset, mimeEnd)) || 'image/jpeg';
+        offset = mimeEnd + 1;
+      }
+      offset += 1; // Picture type
+      const descriptionEnd = this.findTerminator(frame, offset, encoding);
+      const description = this.decodeId3Text(frame.subarray(offset, descriptionEnd), encoding);
+      const dataStart = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+      this.setCoverArt(metadata, {
+        mimeType: mimeType.includes('/') ? mimeType : `image/${mimeType.toLowerCase()}`,
+        data: frame.slice(dataStart),
+        description: description || undefined,
+      });
+    }
+  }
+
+  private static parseId3v1(view: DataView, metadata: AudioMetadata): void {
+    const start = view.byteLength - 128;
+    if (start < 0 || this.readId(view, start, 3) !== 'TAG') return;
+
+    const field = (offset: number, length: number) =>
+      this.latin1(new Uint8Array(view.buffer, view.byteOffset + start + offset, length)).replace(/\0.*$/, '').trim();
+
+    this.addSource(metadata, 'id3v1');
+    this.setField(metadata, 'title', field(3, 30));
+    this.setField(metadata, 'artist', field(33, 30));
+    this.setField(metadata, 'album', field(63, 30));
+    this.setField(metadata, 'year', field(93, 4));
+    this.setField(metadata, 'comment', field(97, 28));
+    const genre = view.getUint8(start + 127);
+    if (genre < ID3V1_GENRES.length) this.setField(metadata, 'genre', ID3V1_GENRES[genre]);
+  }
+
+  // RIFF / WAVE -------------------------------------------------------------
+
+  private static parseWave(view: DataView, metadata: AudioMetadata): void {
+    const chunks = this.readChunks(view, 12, view.byteLength, true);
+    const fmt = chunks.find(chunk => chunk.id === 'fmt ');
+    const sampleRate = fmt && fmt.size >= 8 ? view.getUint32(fmt.offset + 4, true) : 0;
+
+    const cuePoints = new Map<number, number>();
+    const labels = new Map<number, string>();
+    const durations = new Map<number, number>();
+
+    for (const chunk of chunks) {
+      switch (chunk.id) {
+        case 'LIST': {
+          const listType = this.readId(view, chunk.offset, 4);
+          const subChunks = this.readChunks(view, chunk.offset + 4, chunk.offset + chunk.size, true);
+          if (listType === 'INFO') {
+            this.addSource(metadata, 'riff-info');
+            for (const sub of subChunks) {
+              const field = RIFF_INFO_FIELDS[sub.id];
+              if (field) this.setField(metadata, field, this.readText(view, sub.offset, sub.size));
+            }
+          } else if (listType === 'adtl') {
+            // Associated data list: labels and region lengths for cue points
+            for (const sub of subChunks) {
+              if (sub.size < 4) continue;
+              const cueId = view.getUint32(sub.offset, true);
+              if (sub.id === 'labl') {
+                labels.set(cueId, this.readText(view, sub.offset + 4, sub.size - 4));
+              } else if (sub.id === 'ltxt' && sub.size >= 8) {
+                durations.set(cueId, view.getUint32(sub.offset + 4, true));
+              }
+            }
+          }
+          break;
+        }
+        case 'cue ': {
+          const count = view.getUint32(chunk.offset, true);
+          for (let i = 0; i < count && chunk.offset + 4 + (i + 1) * 24 <= chunk.offset + chunk.size; i++) {
+            const point = chunk.offset + 4 + i * 24;
+            cuePoints.set(view.getUint32(point, true), view.getUint32(point + 20, true));
+          }
+          break;
+        }
+        case 'bext':
+          if (chunk.size >= 348) {
+            metadata.broadcast = this.parseBext(view, chunk, sampleRate);
+            this.addSource(metadata, 'bext');
+          }
+          break;
+        case 'acid':
+          // ACID loop info: the tempo is a float at offset 20
+          if (chunk.size >= 24) {
+            const tempo = view.getFloat32(chunk.offset + 20, true);
+            if (tempo > 0 && tempo < 1000) {
+              this.setField(metadata, 'bpm', String(tempo));
+              this.addSource(metadata, 'acid');
+            }
+          }
+          break;
+        case 'id3 ':
+        case 'ID3 ':
+          if (this.readId(view, chunk.offset, 3) === 'ID3') {
+            this.parseId3v2(view, chunk.offset, metadata);
+          }
+          break;
+      }
+    }
+
+    if (sampleRate > 0) {
+      cuePoints.forEach((position, cueId) => {
+        const length = durations.get(cueId);
+        metadata.markers.push({
+          id: `cue-${cueId}`,
+          name: labels.get(cueId) || `Cue ${cueId}`,
+          time: position / sampleRate,
+          duration: length ? length / sampleRate : undefined,
+        });
+      });
+    }
+  }
+
+  /**
+   * EBU Tech 3285 bext chunk; loudness fields only exist from version 2
+   */
+  private static parseBext(view: DataView, chunk: Chunk, sampleRate: number): BroadcastExtension {
+    const text = (offset: number, length: number) => this.readText(view, chunk.offset + offset, length);
+    const version = view.getUint16(chunk.offset + 346, true);
+    const timeReference =
+      view.getUint32(chunk.offset + 338, true) + view.getUint32(chunk.offset + 342, true) * 4294967296;
+
+    const bext: BroadcastExtension = {
+      description: text(0, 256),
+      originator: text(256, 32),
+      originatorReference: text(288, 32),
+      originationDate: text(320, 10),
+      originationTime: text(330, 8),
+      timeReference,
+      sampleRate,
+      version,
+      codingHistory: chunk.size > 602 ? text(602, chunk.size - 602) : '',
+    };
+
+    if (version >= 2 && chunk.size >= 422) {
+      const value = (offset: number) => view.getInt16(chunk.offset + offset, true) / 100;
+      bext.loudness = {
+        integrated: value(412),
+        loudnessRange: value(414),
+        maxTruePeak: value(416),
+        maxMomentary: value(418),
+        maxShortTerm: value(420),
+      };
+    }
+
+    return bext;
+  }
+
+  // AIFF --------------------------------------------------------------------
+
+  private static parseAiff(view: DataView, metadata: AudioMetadata): void {
+    const chunks = this.readChunks(view, 12, view.byteLength, false);
+    const comm = chunks.find(chunk => chunk.id === 'COMM');
+    const sampleRate = comm && comm.size >= 18 ? PcmDecoder.readExtended(view, comm.offset + 8) : 0;
+
+    for (const chunk of chunks) {
+      switch (chunk.id) {
+        case 'NAME':
+          this.setField(metadata, 'title', this.readText(view, chunk.offset, chunk.size));
+          this.addSource(metadata, 'aiff');
+          break;
+        case 'AUTH':
+          this.setField(metadata, 'artist', this.readText(view, chunk.offset, chunk.size));
+          this.addSource(metadata, 'aiff');
+          break;
+        case 'ANNO':
+          this.setField(metadata, 'comment', this.readText(view, chunk.offset, chunk.size));
+          this.addSource(metadata, 'aiff');
+          break;
+        case 'MARK': {
+          if (sampleRate <= 0) break;
+          const count = view.getUint16(chunk.offset, false);
+          let offset = chunk.offset + 2;
+          for (let i = 0; i < count && offset + 7 <= chunk.offset + chunk.size; i++) {
+            const markerId = view.getUint16(offset, false);
+            const position = view.getUint32(offset + 2, false);
+            // Pascal string padded so the whole string (with length byte) has even length
+            const nameLength = view.getUint8(offset + 6);
+            const name = this.readText(view, offset + 7, nameLength);
+            metadata.markers.push({ id: `mark-${markerId}`, name: name || `Marker ${markerId}`, time: position / sampleRate });
+            offset += 7 + nameLength + ((nameLength + 1) % 2);
+          }
+          break;
+        }
+        case 'ID3 ':
+        case 'id3 ':
+          if (this.readId(view, chunk.offset, 3) === 'ID3') {
+            this.parseId3v2(view, chunk.offset, metadata);
+          }
+          break;
+      }
+    }
+  }
+
+  // FLAC / Ogg --------------------------------------------------------------
+
+  private static parseFlac(view: DataView, start: number, metadata: AudioMetadata): void {
+    let offset = start;
+    let isLast = false;
+
+    while (!isLast && offset + 4 <= view.byteLength) {
+      const header = view.getUint8(offset);
+      isLast = (header & 0x80) !== 0;
+      const type = header & 0x7f;
+      const length = (view.getUint8(offset + 1) << 16) | (view.getUint16(offset + 2) & 0xffff);
+      const blockStart = offset + 4;
+      if (blockStart + length > view.byteLength) break;
+
+      const block = new Uint8Array(view.buffer, view.byteOffset + blockStart, length);
+      if (type === 4) {
+        this.parseVorbisComments(block, metadata);
+      } else if (type === 6) {
+        this.parseFlacPicture(block, metadata);
+      }
+
+      offset = blockStart + length;
+    }
+  }
+
+  /**
+   * Reassemble the comment header packet from the first Ogg pages (Vorbis, Opus or FLAC-in-Ogg)
+   */
+  private static parseOgg(view: DataView, start: number, metadata: AudioMetadata): void {
+    const packets: Uint8Array[] = [];
+    let current: Uint8Array[] = [];
+    let offset = start;
+
+    // The comment header is always the second packet, so a handful of pages is plenty
+    while (packets.length < 2 && offset + 27 <= view.byteLength && this.readId(view, offset, 4) === 'OggS') {
+      const segmentCount = view.getUint8(offset + 26);
+      let dataOffset = offset + 27 + segmentCount;
+      for (let i = 0; i < segmentCount; i++) {
+        const lacing = view.getUint8(offset + 27 + i);
+        if (dataOffset + lacing > view.byteLength) return;
+        current.push(new Uint8Array(view.buffer, view.byteOffset + dataOffset, lacing));
+        dataOffset += lacing;
+        // A lacing value below 255 ends the packet
+        if (lacing < 255) {
+          packets.push(this.concat(current));
+          current = [];
+          if (packets.length === 2) break;
+        }
+      }
+      offset = dataOffset;
+    }
+
+    const comments = packets[1];
+    if (!comments) return;
+
+    const signature = this.latin1(comments.subarray(0, 8));
+    if (signature.startsWith('\u0003vorbis')) {
+      this.parseVorbisComments(comments.subarray(7), metadata);
+    } else if (signature === 'OpusTags') {
+      this.parseVorbisComments(comments.subarray(8), metadata);
+    } else if ((comments[0] & 0x7f) === 4) {
+      // FLAC-in-Ogg: a regular FLAC metadata block header
+      this.parseVorbisComments(comments.subarray(4), metadata);
+    }
+  }
+
+  private static parseVorbisComments(block: Uint8Array, metadata: AudioMetadata): void {
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    const vendorLength = view.getUint32(0, true);
+    let offset = 4 + vendorLength;
+    const count = view.getUint32(offset, true);
+    offset += 4;
+    this.addSource(metadata, 'vorbis');
+
+    for (let i = 0; i < count && offset + 4 <= block.length; i++) {
+      const length = view.getUint32(offset, true);
+      offset += 4;
+      if (offset + length > block.length) break;
+      const comment = this.utf8(block.subarray(offset, offset + length));
+      offset += length;
+
+      const separator = comment.indexOf('=');
+      if (separator < 0) continue;
+      const name = comment.slice(0, separator).toUpperCase();
+      const value = comment.slice(separator + 1);
+
+      if (name === 'METADATA_BLOCK_PICTURE') {
+        this.parseFlacPicture(this.decodeBase64(value), metadata);
+        continue;
+      }
+      const field = VORBIS_FIELDS[name];
+      if (field) this.setField(metadata, field, value);
+    }
+  }
+
+  private static parseFlacPicture(block: Uint8Array, metadata: AudioMetadata): void {
+    if (metadata.coverArt || block.length < 32) return;
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    let offset = 4; // Picture type
+    const mimeLength = view.getUint32(offset);
+    const mimeType = this.latin1(block.subarray(offset + 4, offset + 4 + mimeLength));
+    offset += 4 + mimeLength;
+    const descriptionLength = view.getUint32(offset);
+    const description = this.utf8(block.subarray(offset + 4, offset + 4 + descriptionLength));
+    offset += 4 + descriptionLength + 16; // Width, height, depth, colours
+    const dataLength = view.getUint32(offset);
+    offset += 4;
+    if (offset + dataLength > block.length) return;
+
+    this.setCoverArt(metadata, {
+      mimeType: mimeType || 'image/jpeg',
+      data: block.slice(offset, offset + dataLength),
+      description: description || undefined,
+    });
+  }
+
+  // MP4 ---------------------------------------------------------------------
+
+  private static parseMp4(view: DataView, start: number, end: number, metadata: AudioMetadata): void {
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = this.readId(view, offset + 4, 4);
+      let headerSize = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = view.getUint32(offset + 8) * 4294967296 + view.getUint32(offset + 12);
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerSize || offset + size > end) break;
+
+      const bodyStart = offset + headerSize;
+      const bodyEnd = offset + size;
+
+      if (type === 'meta') {
+        // meta is a full box: skip version and flags
+        this.parseMp4(view, bodyStart + 4, bodyEnd, metadata);
+      } else if (type === 'ilst') {
+        this.addSource(metadata, 'mp4');
+        this.parseMp4Items(view, bodyStart, bodyEnd, metadata);
+      } else if (MP4_CONTAINERS.has(type)) {
+        this.parseMp4(view, bodyStart, bodyEnd, metadata);
+      }
+
+      offset = bodyEnd;
+    }
+  }
+
+  private static parseMp4Items(view: DataView, start: number, end: number, metadata: AudioMetadata): void {
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      const size = view.getUint32(offset);
+      if (size < 8 || offset + size > end) break;
+      const type = this.readId(view, offset + 4, 4);
+
+      let freeformName = '';
+      let data: { type: number; value: Uint8Array } | null = null;
+
+      // Each item holds a data atom, and freeform items also a "name" atom
+      let child = offset + 8;
+      while (child + 8 <= offset + size) {
+        const childSize = view.getUint32(child);
+        if (childSize < 8 || child + childSize > offset + size) break;
+        const childType = this.readId(view, child + 4, 4);
+        if (childType === 'name' && childSize > 12) {
+          freeformName = this.utf8(new Uint8Array(view.buffer, view.byteOffset + child + 12, childSize - 12));
+        } else if (childType === 'data' && childSize >= 16) {
+          data = {
+            type: view.getUint32(child + 8) & 0xffffff,
+            value: new Uint8Array(view.buffer, view.byteOffset + child + 16, childSize - 16),
+          };
+        }
+        child += childSize;
+      }
+
+      if (data) {
+        if (type === 'covr') {
+          // 13 = JPEG, 14 = PNG
+          this.setCoverArt(metadata, {
+            mimeType: data.type === 14 ? 'image/png' : 'image/jpeg',
+            data: data.value.slice(),
+          });
+        } else if (type === 'tmpo' && data.value.length >= 2) {
+          this.setField(metadata, 'bpm', String((data.value[0] << 8) | data.value[1]));
+        } else if (type === '----') {
+          const field = MP4_FREEFORM_FIELDS[freeformName.toUpperCase()];
+          if (field) this.setField(metadata, field, this.utf8(data.value));
+        } else {
+          const field = MP4_FIELDS[type];
+          if (field) this.setField(metadata, field, this.utf8(data.value));
+        }
+      }
+
+      offset += size;
+    }
+  }
+
+  // Helpers -----------------------------------------------------------------
+
+  /**
+   * First value wins, so richer tags parsed earlier are not overwritten by ID3v1 and friends
+   */
+  private static setField(metadata: AudioMetadata, field: TagField | 'bpm', rawValue: string): void {
+    const value = rawValue.replace(/\0+$/, '').trim();
+    if (!value) return;
+
+    if (field === 'bpm') {
+      const bpm = parseFloat(value.replace(',', '.'));
+      if (metadata.bpm === undefined && Number.isFinite(bpm) && bpm > 0) {
+        metadata.bpm = bpm;
+      }
+      return;
+    }
+
+    if (metadata[field] === undefined) {
+      metadata[field] = field === 'isrc' ? value.replace(/-/g, '').toUpperCase() : value;
+    }
+  }
+
+  private static setCoverArt(metadata: AudioMetadata, coverArt: CoverArt): void {
+    if (!metadata.coverArt && coverArt.data.length > 0) {
+      metadata.coverArt = coverArt;
+    }
+  }
+
+  private static addSource(metadata: AudioMetadata, source: MetadataSource): void {
+    if (!metadata.sources.includes(source)) metadata.sources.push(source);
+  }
+
+  private static readChunks(view: DataView, start: number, end: number, littleEndian: boolean): Chunk[] {
+    const chunks: Chunk[] = [];
+    let offset = start;
+    const limit = Math.min(end, view.byteLength);
+
+    while (offset + 8 <= limit) {
+      const id = this.readId(view, offset, 4);
+      const size = view.getUint32(offset + 4, littleEndian);
+      const bodyEnd = Math.min(limit, offset + 8 + size);
+      chunks.push({ id, offset: offset + 8, size: bodyEnd - offset - 8 });
+      if (size === 0xffffffff) break;
+      offset = offset + 8 + size + (size % 2);
+    }
+
+    return chunks;
+  }
+
+  private static readSyncsafe(view: DataView, offset: number): number {
+    return (
+      ((view.getUint8(offset) & 0x7f) << 21) |
+      ((view.getUint8(offset + 1) & 0x7f) << 14) |
+      ((view.getUint8(offset + 2) & 0x7f) << 7) |
+      (view.getUint8(offset + 3) & 0x7f)
+    );
+  }
+
+  private static removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+    const output = new Uint8Array(bytes.length);
+    let length = 0;
+    for (let i = 0; i < bytes.length; i++) {
+      output[length++] = bytes[i];
+      if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+    }
+    return output.subarray(0, length);
+  }
+
+  /**
+   * Index of the string terminator for an ID3 text encoding (one NUL byte, or two aligned for UTF-16)
+   */
+  private static findTerminator(bytes: Uint8Array, start: number, encoding: number): number {
+    if (encoding === 1 || encoding === 2) {
+      for (let i = start; i + 1 < bytes.length; i += 2) {
+        if (bytes[i] === 0 && bytes[i + 1] === 0) return i;
+      }
+      return bytes.length;
+    }
+    const index = bytes.indexOf(0, start);
+    return index < 0 ? bytes.length : index;
+  }
+
+  private static splitId3Strings(bytes: Uint8Array, encoding: number): [string, string] {
+    const end = this.findTerminator(bytes, 0, encoding);
+    const next = end + (encoding === 1 || encoding === 2 ? 2 : 1);
+    return [this.decodeId3Text(bytes.subarray(0, end), encoding), this.decodeId3Text(bytes.subarray(next), encoding)];
+  }
+
+  private static decodeId3Text(bytes: Uint8Array, encoding: number): string {
+    switch (encoding) {
+      case 1:
+        // UTF-16 with BOM; TextDecoder honours and strips it
+        return new TextDecoder(bytes[0] === 0xfe && bytes[1] === 0xff ? 'utf-16be' : 'utf-16le').decode(bytes);
+      case 2:
+        return new TextDecoder('utf-16be').decode(bytes);
+      case 3:
+        return this.utf8(bytes);
+      default:
+        return this.latin1(bytes);
+    }
+  }
+
+  private static readText(view: DataView, offset: number, length: number): string {
+    const end = Math.min(view.byteLength, offset + length);
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, Math.max(0, end - offset));
+    const terminator = bytes.indexOf(0);
+    return this.utf8(terminator < 0 ? bytes : bytes.subarray(0, terminator)).trim();
+  }
+
+  private static readId(view: DataView, offset: number, length: number): string {
+    if (offset < 0 || offset + length > view.byteLength) return '';
+    return this.latin1(new Uint8Array(view.buffer, view.byteOffset + offset, length));
+  }
+
+  private static latin1(bytes: Uint8Array): string {
+    let text = '';
+    for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+    return text;
+  }
+
+  private static utf8(bytes: Uint8Array): string {
+    return new TextDecoder('utf-8').decode(bytes).replace(/\0+$/, '');
+  }
+
+  private static decodeBase64(value: string): Uint8Array {
+    const binary = atob(value.replace(/\s+/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+}
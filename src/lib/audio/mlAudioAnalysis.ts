@@ -1,5 +1,19 @@
-import { AudioFile, MLAudioFeatures, PluginMatch, AudioPlugin } from '@/types/audio';
-import { audioUtils } from './audioUtils';
+import {
+  AudioFile,
+  AudioBufferLike,
+  AnalysisProgressCallback,
+  MLAudioFeatures,
+  PluginMatch,
+  AudioPlugin,
+  FeatureTrackSummary,
+} from '@/types/audio';
+import { BeatTracker } from './beatTracking';
+import { ChannelAnalyzer } from './channelAnalysis';
+import { FeatureTrackExtractor } from './featureTracks';
+import { FFT, nextPowerOfTwo } from './fft';
+import { KeyDetector } from './keyDetection';
+import { STFT } from './stft';
+import { TonalCentroid } from './tonnetz';
 
 /**
  * Machine Learning Audio Analysis utilities
@@ -8,33 +22,72 @@ export class MLAudioAnalyzer {
   /**
    * Extract comprehensive audio features for ML analysis
    */
-  static extractFeatures(audioFile: AudioFile): MLAudioFeatures {
-    const audioBuffer = audioFile.audioBuffer;
-    const channelData = audioBuffer.getChannelData(0);
+  static extractFeatures(audioFile: AudioFile, onProgress?: AnalysisProgressCallback): MLAudioFeatures {
+    return this.extractFeaturesFromBuffer(audioFile.audioBuffer, onProgress);
+  }
+
+  /**
+   * Extract features from raw channel data, e.g. inside a worker where no AudioFile exists
+   */
+  static extractFeaturesFromBuffer(
+    audioBuffer: AudioBufferLike,
+    onProgress?: AnalysisProgressCallback
+  ): MLAudioFeatures {
+    const channelData = STFT.downmix(audioBuffer);
     const sampleRate = audioBuffer.sampleRate;
     const frameSize = 2048;
 
+    // Average magnitude spectrum over the whole file
+    onProgress?.(0, 'Computing spectrum');
+    const stft = new STFT({ fftSize: frameSize, hopSize: frameSize / 2, window: 'hann' });
+    const spectrum = stft.averageSpectrum(channelData, sampleRate);
+
+    // Per-frame feature tracks and their file-level statistics
+    onProgress?.(0.1, 'Extracting feature tracks');
+    const tracks = FeatureTrackExtractor.extract(channelData, sampleRate, {
+      fftSize: frameSize,
+      hopSize: frameSize / 2,
+    }, (progress, stage) => onProgress?.(0.1 + progress * 0.3, stage));
+    const statistics = FeatureTrackExtractor.summarize(tracks);
+
     // Extract spectral features
-    const spectralFeatures = this.extractSpectralFeatures(channelData, frameSize, sampleRate);
+    const spectralFeatures = this.extractSpectralFeatures(spectrum, statistics, sampleRate);
     
     // Extract temporal features
     const temporalFeatures = this.extractTemporalFeatures(channelData, sampleRate);
     
     // Extract harmonic features
-    const harmonicFeatures = this.extractHarmonicFeatures(channelData, sampleRate);
+    onProgress?.(0.4, 'Estimating pitch');
+    const harmonicFeatures = this.extractHarmonicFeatures(channelData, spectrum, sampleRate);
     
-    // Extract MFCC, Chroma, and Tonnetz
-    const mfcc = this.extractMFCC(channelData, sampleRate, frameSize);
-    const chroma = this.extractChroma(channelData, sampleRate, frameSize);
-    const tonnetz = this.extractTonnetz(chroma);
+    // Extract rhythm features
+    onProgress?.(0.5, 'Tracking tempo');
+    const rhythmFeatures = this.extractRhythmFeatures(channelData, sampleRate);
+    
+    // MFCC and Chroma averaged over all frames, Tonnetz from the averaged chroma
+    const mfcc = statistics.mfcc;
+    const chroma = statistics.chroma;
+    const tonnetz = TonalCentroid.fromChroma(chroma);
+    
+    // Key from the RMS-weighted chromagram
+    const key = KeyDetector.detectFromTracks(tracks);
+
+    onProgress?.(0.65, 'Analysing channels');
+    const multichannel = ChannelAnalyzer.analyze(audioBuffer);
+    onProgress?.(1, 'Done');
 
     return {
       spectralFeatures,
       temporalFeatures,
       harmonicFeatures,
+      rhythmFeatures,
       mfcc,
       chroma,
       tonnetz,
+      key,
+      tracks,
+      statistics,
+      multichannel,
     };
   }
 
@@ -42,20 +95,18 @@ export class MLAudioAnalyzer {
    * Extract spectral features
    */
   private static extractSpectralFeatures(
-    signal: Float32Array, 
-    frameSize: number, 
+    spectrum: Float32Array, 
+    statistics: FeatureTrackSummary,
     sampleRate: number
   ) {
-    const spectrum = audioUtils.performFFT(signal.slice(0, frameSize));
-    
     // Spectral Centroid
-    const centroid = audioUtils.calculateSpectralCentroid(spectrum, sampleRate);
+    const centroid = statistics.centroid.mean;
     
     // Spectral Bandwidth
     const bandwidth = this.calculateSpectralBandwidth(spectrum, sampleRate, centroid);
     
     // Spectral Rolloff
-    const rolloff = audioUtils.calculateSpectralRolloff(spectrum, sampleRate, 0.85);
+    const rolloff = statistics.rolloff.mean;
     
     // Spectral Flatness
     const flatness = this.calculateSpectralFlatness(spectrum);
@@ -97,10 +148,11 @@ export class MLAudioAnalyzer {
   /**
    * Extract harmonic features
    */
-  private static extractHarmonicFeatures(signal: Float32Array, sampleRate: number) {
-    const frameSize = 2048;
-    const spectrum = audioUtils.performFFT(signal.slice(0, frameSize));
-    
+  private static extractHarmonicFeatures(
+    signal: Float32Array, 
+    spectrum: Float32Array, 
+    sampleRate: number
+  ) {
     // Find fundamental frequency using autocorrelation
     const fundamental = this.findFundamentalFrequency(signal, sampleRate);
     
@@ -118,71 +170,16 @@ export class MLAudioAnalyzer {
   }
 
   /**
-   * Extract MFCC features
-   */
-  private static extractMFCC(
-    signal: Float32Array, 
-    sampleRate: number, 
-    frameSize: number,
-    numCoefficients: number = 13
-  ): number[] {
-    const spectrum = audioUtils.performFFT(signal.slice(0, frameSize));
-    
-    // Apply mel-scale filter bank (simplified)
-    const melFilters = this.createMelFilterBank(frameSize / 2, sampleRate);
-    const melSpectrum = this.applyMelFilters(spectrum, melFilters);
-    
-    // Apply logarithm
-    const logMelSpectrum = melSpectrum.map(x => Math.log(x + 1e-10));
-    
-    // Apply DCT (simplified)
-    const mfcc = this.discreteCosineTransform(logMelSpectrum, numCoefficients);
-    
-    return mfcc;
-  }
-
-  /**
-   * Extract chroma features
+   * Extract rhythm features
    */
-  private static extractChroma(
-    signal: Float32Array, 
-    sampleRate: number, 
-    frameSize: number
-  ): number[] {
-    const spectrum = audioUtils.performFFT(signal.slice(0, frameSize));
-    return audioUtils.calculateChroma(spectrum, sampleRate);
-  }
+  private static extractRhythmFeatures(signal: Float32Array, sampleRate: number) {
+    const { bpm, confidence, beats } = BeatTracker.analyze(signal, sampleRate);
 
-  /**
-   * Extract tonnetz features from chroma
-   */
-  private static extractTonnetz(chroma: number[]): number[] {
-    const tonnetz: number[] = [];
-    
-    // Major thirds
-    let major3rd = 0;
-    for (let i = 0; i < 12; i++) {
-      major3rd += chroma[i] * Math.cos(2 * Math.PI * i / 3);
-    }
-    tonnetz.push(major3rd);
-    
-    // Minor thirds
-    let minor3rd = 0;
-    for (let i = 0; i < 12; i++) {
-      minor3rd += chroma[i] * Math.sin(2 * Math.PI * i / 3);
-    }
-    tonnetz.push(minor3rd);
-    
-    // Perfect fifths
-    let fifth = 0;
-    for (let i = 0; i < 12; i++) {
-      fifth += chroma[i] * Math.cos(7 * 2 * Math.PI * i / 12);
-    }
-    tonnetz.push(fifth);
-    
-    // More complex harmonic relationships can be added here
-    
-    return tonnetz;
+    return {
+      tempo: bpm,
+      tempoConfidence: confidence,
+      beats,
+    };
   }
 
   /**
@@ -227,32 +224,60 @@ export class MLAudioAnalyzer {
   }
 
   /**
-   * Find fundamental frequency using autocorrelation
+   * Find fundamental frequency using autocorrelation.
+   * Power spectra of zero-padded frames are averaged and inverted once (Wiener-Khinchin),
+   * which gives the frame-averaged autocorrelation in O(N log N) instead of O(N * lags).
    */
   private static findFundamentalFrequency(signal: Float32Array, sampleRate: number): number {
     const minPeriod = Math.floor(sampleRate / 800); // Highest expected freq: 800Hz
     const maxPeriod = Math.floor(sampleRate / 80);  // Lowest expected freq: 80Hz
-    
+    // Frames span at least two of the longest periods, so high sample rates get longer frames
+    const frameSize = nextPowerOfTwo(2 * maxPeriod);
+    const fftSize = frameSize * 2; // Zero padding avoids circular wrap-around
+
+    const fft = new FFT(fftSize);
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+    const power = new Float64Array(fftSize);
+
+    for (let start = 0; start < signal.length; start += frameSize) {
+      const available = Math.min(frameSize, signal.length - start);
+      real.set(signal.subarray(start, start + available));
+      real.fill(0, available);
+      imag.fill(0);
+
+      fft.forward(real, imag);
+      for (let k = 0; k < fftSize; k++) {
+        power[k] += real[k] * real[k] + imag[k] * imag[k];
+      }
+    }
+
+    for (let k = 0; k < fftSize; k++) {
+      real[k] = power[k];
+    }
+    imag.fill(0);
+    fft.inverse(real, imag);
+
+    // Compensate for the shrinking overlap at larger lags
+    const autocorr = new Float32Array(maxPeriod + 2);
     let maxAutocorr = 0;
-    let bestPeriod = minPeriod;
-    
-    for (let period = minPeriod; period <= maxPeriod; period++) {
-      let autocorr = 0;
-      const validSamples = signal.length - period;
-      
-      for (let i = 0; i < validSamples; i++) {
-        autocorr += signal[i] * signal[i + period];
+    for (let period = minPeriod - 1; period <= maxPeriod + 1; period++) {
+      autocorr[period] = real[period] / (frameSize - period);
+      if (period >= minPeriod && period <= maxPeriod) {
+        maxAutocorr = Math.max(maxAutocorr, autocorr[period]);
       }
-      
-      autocorr /= validSamples;
-      
-      if (autocorr > maxAutocorr) {
-        maxAutocorr = autocorr;
-        bestPeriod = period;
+    }
+    if (maxAutocorr <= 0) return 0;
+
+    // Multiples of the true period score almost as high, so take the first peak close to the maximum
+    for (let period = minPeriod; period <= maxPeriod; period++) {
+      const isPeak = autocorr[period] >= autocorr[period - 1] && autocorr[period] >= autocorr[period + 1];
+      if (isPeak && autocorr[period] >= maxAutocorr * 0.9) {
+        return sampleRate / period;
       }
     }
-    
-    return sampleRate / bestPeriod;
+
+    return 0;
   }
 
   /**
@@ -285,85 +310,6 @@ export class MLAudioAnalyzer {
     
     return totalEnergy > 0 ? harmonicEnergy / totalEnergy : 0;
   }
-
-  /**
-   * Create mel-scale filter bank
-   */
-  private static createMelFilterBank(numBins: number, sampleRate: number, numFilters: number = 26): number[][] {
-    const melMin = this.hzToMel(0);
-    const melMax = this.hzToMel(sampleRate / 2);
-    const melStep = (melMax - melMin) / (numFilters + 1);
-    
-    const melPoints: number[] = [];
-    for (let i = 0; i <= numFilters + 1; i++) {
-      melPoints.push(melMin + i * melStep);
-    }
-    
-    const hzPoints = melPoints.map(mel => this.melToHz(mel));
-    const binPoints = hzPoints.map(hz => Math.floor(hz * numBins * 2 / sampleRate));
-    
-    const filterBank: number[][] = [];
-    
-    for (let i = 1; i <= numFilters; i++) {
-      const filter = new Array(numBins).fill(0);
-      
-      for (let j = binPoints[i - 1]; j < binPoints[i]; j++) {
-        filter[j] = (j - binPoints[i - 1]) / (binPoints[i] - binPoints[i - 1]);
-      }
-      
-      for (let j = binPoints[i]; j < binPoints[i + 1]; j++) {
-        filter[j] = (binPoints[i + 1] - j) / (binPoints[i + 1] - binPoints[i]);
-      }
-      
-      filterBank.push(filter);
-    }
-    
-    return filterBank;
-  }
-
-  /**
-   * Apply mel filters to spectrum
-   */
-  private static applyMelFilters(spectrum: Float32Array, filterBank: number[][]): number[] {
-    return filterBank.map(filter => {
-      let sum = 0;
-      for (let i = 0; i < Math.min(spectrum.length, filter.length); i++) {
-        sum += spectrum[i] * filter[i];
-      }
-      return sum;
-    });
-  }
-
-  /**
-   * Discrete Cosine Transform (simplified)
-   */
-  private static discreteCosineTransform(input: number[], numCoefficients: number): number[] {
-    const output: number[] = [];
-    
-    for (let k = 0; k < numCoefficients; k++) {
-      let sum = 0;
-      for (let n = 0; n < input.length; n++) {
-        sum += input[n] * Math.cos(Math.PI * k * (2 * n + 1) / (2 * input.length));
-      }
-      output.push(sum);
-    }
-    
-    return output;
-  }
-
-  /**
-   * Convert Hz to Mel scale
-   */
-  private static hzToMel(hz: number): number {
-    return 2595 * Math.log10(1 + hz / 700);
-  }
-
-  /**
-   * Convert Mel scale to Hz
-   */
-  private static melToHz(mel: number): number {
-    return 700 * (Math.pow(10, mel / 2595) - 1);
-  }
 }
 
 /**
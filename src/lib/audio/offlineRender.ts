@@ -0,0 +1,131 @@
+import { AudioEffect, AudioFile, AudioProcessingOptions } from '@/types/audio';
+import { AudioEffectProcessor } from './audioEffects';
+
+/**
+ * Output format of an offline render
+ */
+export interface RenderSettings {
+  /** Output sample rate; the offline context resamples when it differs from the source */
+  sampleRate?: number;
+  /** Extend the render past the trimmed region so delay and reverb tails ring out */
+  includeTail?: boolean;
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: AudioProcessingOptions = {
+  normalize: false,
+  fadeIn: 0,
+  fadeOut: 0,
+  trim: { start: 0, end: 0 },
+  effects: [],
+};
+
+// Peak level normalization aims for, just under full scale to leave room for resampling overshoot
+const NORMALIZE_TARGET = Math.pow(10, -0.1 / 20);
+
+/**
+ * Resolve the trim range in seconds. An end at or before the start means "to the end of the file".
+ */
+export function resolveTrim(trim: AudioProcessingOptions['trim'], duration: number): { start: number; end: number } {
+  const start = Math.min(Math.max(0, trim.start), duration);
+  const end = trim.end > start ? Math.min(trim.end, duration) : duration;
+  return { start, end };
+}
+
+/**
+ * Length in seconds an effect chain keeps sounding after its input stops
+ */
+function effectTail(effects: AudioEffect[]): number {
+  return effects.reduce((tail, effect) => {
+    if (!effect.enabled) return tail;
+    switch (effect.type) {
+      case 'delay':
+        return tail + (effect.parameters.delayTime || 0.3);
+      case 'reverb':
+        return tail + (effect.parameters.decay || 2);
+      case 'dynamics':
+        return tail + (effect.parameters.release || 0.25);
+      default:
+        return tail;
+    }
+  }, 0);
+}
+
+/**
+ * Render an AudioFile through trim, effects, fades and normalization on an OfflineAudioContext.
+ * Rendering runs faster than real time and always gives the same output for the same input,
+ * so it is the single path used for bouncing and export.
+ */
+export async function renderWithOptions(
+  audioFile: AudioFile,
+  options: Partial<AudioProcessingOptions> = {},
+  settings: RenderSettings = {}
+): Promise<AudioBuffer> {
+  const { normalize, fadeIn, fadeOut, trim, effects } = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
+  const source = audioFile.audioBuffer;
+  const sampleRate = settings.sampleRate ?? source.sampleRate;
+  const { start, end } = resolveTrim(trim, source.duration);
+
+  const regionDuration = end - start;
+  if (regionDuration <= 0) {
+    throw new Error('Trim range is empty; nothing to render');
+  }
+
+  const tail = settings.includeTail === false ? 0 : effectTail(effects);
+  const renderDuration = regionDuration + tail;
+  const length = Math.ceil(renderDuration * sampleRate);
+
+  const context = new OfflineAudioContext(source.numberOfChannels, length, sampleRate);
+
+  const sourceNode = context.createBufferSource();
+  sourceNode.buffer = source;
+
+  // Fades are applied after the effects so tails fade out with the rest of the mix
+  const fadeGain = context.createGain();
+  const fadeInTime = Math.min(Math.max(0, fadeIn), renderDuration);
+  const fadeOutTime = Math.min(Math.max(0, fadeOut), renderDuration - fadeInTime);
+  if (fadeInTime > 0) {
+    fadeGain.gain.setValueAtTime(0, 0);
+    fadeGain.gain.linearRampToValueAtTime(1, fadeInTime);
+  }
+  if (fadeOutTime > 0) {
+    fadeGain.gain.setValueAtTime(1, renderDuration - fadeOutTime);
+    fadeGain.gain.linearRampToValueAtTime(0, renderDuration);
+  }
+  fadeGain.connect(context.destination);
+
+  const processor = new AudioEffectProcessor(context);
+  processor.applyEffectsChain(sourceNode, effects, fadeGain);
+
+  sourceNode.start(0, start, regionDuration);
+  const rendered = await context.startRendering();
+
+  if (normalize) {
+    normalizeInPlace(rendered);
+  }
+
+  return rendered;
+}
+
+/**
+ * Scale every channel by the same gain so the loudest sample sits at the target peak.
+ * Using one gain for all channels preserves the stereo balance.
+ */
+function normalizeInPlace(audioBuffer: AudioBuffer): void {
+  let peak = 0;
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  if (peak === 0) return;
+
+  const gain = NORMALIZE_TARGET / peak;
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= gain;
+    }
+  }
+}
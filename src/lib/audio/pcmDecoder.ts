@@ -0,0 +1,458 @@
+export type AudioDecodeErrorCode =
+  | 'unrecognized-container'
+  | 'truncated'
+  | 'missing-chunk'
+  | 'invalid-header'
+  | 'unsupported-encoding';
+
+/**
+ * Decoding failure with a machine-readable reason and a message that names the offending field
+ */
+export class AudioDecodeError extends Error {
+  readonly code: AudioDecodeErrorCode;
+
+  constructor(code: AudioDecodeErrorCode, message: string) {
+    super(message);
+    this.name = 'AudioDecodeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Planar float samples produced by the decoder, independent of any AudioContext
+ */
+export interface DecodedAudio {
+  container: 'wav' | 'rf64' | 'aiff' | 'aifc';
+  encoding: SampleEncoding;
+  sampleRate: number;
+  channels: Float32Array[];
+  length: number;
+}
+
+type SampleEncoding =
+  | { kind: 'pcm'; bits: number; bigEndian: boolean; signed: boolean }
+  | { kind: 'float'; bits: 32 | 64; bigEndian: boolean }
+  | { kind: 'mulaw' }
+  | { kind: 'alaw' };
+
+export interface Chunk {
+  id: string;
+  offset: number;
+  size: number;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Common tags we cannot decode, so the error can say what the file actually is
+export const WAVE_FORMAT_NAMES: Record<number, string> = {
+  0x0002: 'Microsoft ADPCM',
+  0x0011: 'IMA ADPCM',
+  0x0031: 'GSM 6.10',
+  0x0050: 'MPEG',
+  0x0055: 'MPEG Layer 3',
+  0x00ff: 'AAC',
+  0x2000: 'AC-3',
+};
+
+/**
+ * Pure-TypeScript decoder for WAV, RF64 and AIFF/AIFF-C, used when decodeAudioData refuses a file
+ */
+export class PcmDecoder {
+  /**
+   * Whether the bytes start with a container this decoder understands
+   */
+  static canDecode(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 12) return false;
+    const view = new DataView(buffer);
+    const riff = this.readId(view, 0);
+    const form = this.readId(view, 8);
+    return (
+      ((riff === 'RIFF' || riff === 'RF64' || riff === 'BW64') && form === 'WAVE') ||
+      (riff === 'FORM' && (form === 'AIFF' || form === 'AIFC'))
+    );
+  }
+
+  /**
+   * Decode a WAV/RF64/AIFF/AIFF-C file into planar float channels
+   */
+  static decode(buffer: ArrayBuffer): DecodedAudio {
+    if (buffer.byteLength < 12) {
+      throw new AudioDecodeError('truncated', `File is only ${buffer.byteLength} bytes, too short for any audio header`);
+    }
+
+    const view = new DataView(buffer);
+    const riff = this.readId(view, 0);
+    const form = this.readId(view, 8);
+
+    if ((riff === 'RIFF' || riff === 'RF64' || riff === 'BW64') && form === 'WAVE') {
+      return this.decodeWave(view, riff !== 'RIFF');
+    }
+    if (riff === 'FORM' && (form === 'AIFF' || form === 'AIFC')) {
+      return this.decodeAiff(view, form === 'AIFC');
+    }
+
+    throw new AudioDecodeError(
+      'unrecognized-container',
+      `Unrecognised file signature "${this.printable(riff)}"/"${this.printable(form)}"; expected RIFF/WAVE, RF64/WAVE or FORM/AIFF`
+    );
+  }
+
+  /**
+   * Copy decoded channels into an AudioBuffer on the given context
+   */
+  static toAudioBuffer(decoded: DecodedAudio, context: BaseAudioContext): AudioBuffer {
+    const audioBuffer = context.createBuffer(decoded.channels.length, Math.max(1, decoded.length), decoded.sampleRate);
+    decoded.channels.forEach((data, channel) => {
+      audioBuffer.copyToChannel(data as Float32Array<ArrayBuffer>, channel);
+    });
+    return audioBuffer;
+  }
+
+  private static decodeWave(view: DataView, isRf64: boolean): DecodedAudio {
+    const chunks = this.readChunks(view, 12, true);
+
+    // RF64 stores the real 64-bit sizes in ds64 and sets the 32-bit fields to 0xFFFFFFFF
+    let ds64DataSize: number | null = null;
+    if (isRf64) {
+      const ds64 = chunks.find(chunk => chunk.id === 'ds64');
+      if (!ds64 || ds64.size < 24) {
+        throw new AudioDecodeError('missing-chunk', 'RF64 file has no valid ds64 chunk with 64-bit sizes');
+      }
+      ds64DataSize = this.readUint64(view, ds64.offset + 8, true);
+    }
+
+    const fmt = chunks.find(chunk => chunk.id === 'fmt ');
+    if (!fmt) {
+      throw new AudioDecodeError('missing-chunk', 'WAV file has no "fmt " chunk describing the sample format');
+    }
+    if (fmt.size < 16) {
+      throw new AudioDecodeError('invalid-header', `WAV "fmt " chunk is ${fmt.size} bytes; at least 16 are required`);
+    }
+
+    let formatTag = view.getUint16(fmt.offset, true);
+    const numChannels = view.getUint16(fmt.offset + 2, true);
+    const sampleRate = view.getUint32(fmt.offset + 4, true);
+    const blockAlign = view.getUint16(fmt.offset + 12, true);
+    const bitsPerSample = view.getUint16(fmt.offset + 14, true);
+
+    if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+      if (fmt.size < 40) {
+        throw new AudioDecodeError(
+          'invalid-header',
+          `WAVE_FORMAT_EXTENSIBLE header is ${fmt.size} bytes; 40 are required`
+        );
+      }
+      // The first two bytes of the SubFormat GUID carry the real format tag; the channel mask is irrelevant here
+      formatTag = view.getUint16(fmt.offset + 24, true);
+    }
+
+    this.validateLayout('WAV', numChannels, sampleRate);
+    if (blockAlign === 0) {
+      throw new AudioDecodeError('invalid-header', 'WAV "fmt " chunk declares a block alignment of 0 bytes');
+    }
+
+    let encoding: SampleEncoding;
+    switch (formatTag) {
+      case WAVE_FORMAT_PCM:
+        if (bitsPerSample < 8 || bitsPerSample > 32) {
+          throw new AudioDecodeError('unsupported-encoding', `${bitsPerSample}-bit integer PCM is not supported`);
+        }
+        // 8-bit WAV is unsigned; everything wider is signed
+        encoding = { kind: 'pcm', bits: bitsPerSample, bigEndian: false, signed: bitsPerSample > 8 };
+        break;
+      case WAVE_FORMAT_IEEE_FLOAT:
+        if (bitsPerSample !== 32 && bitsPerSample !== 64) {
+          throw new AudioDecodeError('unsupported-encoding', `${bitsPerSample}-bit floating point is not supported`);
+        }
+        encoding = { kind: 'float', bits: bitsPerSample, bigEndian: false };
+        break;
+      case WAVE_FORMAT_MULAW:
+        encoding = { kind: 'mulaw' };
+        break;
+      case WAVE_FORMAT_ALAW:
+        encoding = { kind: 'alaw' };
+        break;
+      default: {
+        const name = WAVE_FORMAT_NAMES[formatTag];
+        throw new AudioDecodeError(
+          'unsupported-encoding',
+          `WAV format tag 0x${formatTag.toString(16).padStart(4, '0')}${name ? ` (${name})` : ''} is not supported`
+        );
+      }
+    }
+
+    const data = chunks.find(chunk => chunk.id === 'data');
+    if (!data) {
+      throw new AudioDecodeError('missing-chunk', 'WAV file has no "data" chunk containing samples');
+    }
+
+    const declaredSize = isRf64 && data.size === 0xffffffff && ds64DataSize !== null ? ds64DataSize : data.size;
+    const available = Math.min(declaredSize, view.byteLength - data.offset);
+    const numFrames = Math.floor(available / blockAlign);
+
+    return {
+      container: isRf64 ? 'rf64' : 'wav',
+      encoding,
+      sampleRate,
+      length: numFrames,
+      channels: this.deinterleave(view, data.offset, numFrames, numChannels, blockAlign, encoding),
+    };
+  }
+
+  private static decodeAiff(view: DataView, isAifc: boolean): DecodedAudio {
+    const chunks = this.readChunks(view, 12, false);
+    const comm = chunks.find(chunk => chunk.id === 'COMM');
+    if (!comm) {
+      throw new AudioDecodeError('missing-chunk', 'AIFF file has no COMM chunk describing the sample format');
+    }
+    if (comm.size < 18) {
+      throw new AudioDecodeError('invalid-header', `AIFF COMM chunk is ${comm.size} bytes; at least 18 are required`);
+    }
+
+    const numChannels = view.getUint16(comm.offset, false);
+    const declaredFrames = view.getUint32(comm.offset + 2, false);
+    const sampleSize = view.getUint16(comm.offset + 6, false);
+    const sampleRate = this.readExtended(view, comm.offset + 8);
+
+    let compression = 'NONE';
+    if (isAifc) {
+      if (comm.size < 22) {
+        throw new AudioDecodeError('invalid-header', 'AIFF-C COMM chunk is missing its compression type');
+      }
+      compression = this.readId(view, comm.offset + 18);
+    }
+
+    this.validateLayout('AIFF', numChannels, sampleRate);
+
+    let encoding: SampleEncoding;
+    let bytesPerSample: number;
+    switch (compression) {
+      case 'NONE':
+      case 'twos':
+      case 'sowt':
+        if (sampleSize < 1 || sampleSize > 32) {
+          throw new AudioDecodeError('unsupported-encoding', `${sampleSize}-bit AIFF PCM is not supported`);
+        }
+        // AIFF integer PCM is always signed; 'sowt' is the little-endian variant
+        encoding = { kind: 'pcm', bits: sampleSize, bigEndian: compression !== 'sowt', signed: true };
+        bytesPerSample = Math.ceil(sampleSize / 8);
+        break;
+      case 'fl32':
+      case 'FL32':
+        encoding = { kind: 'float', bits: 32, bigEndian: true };
+        bytesPerSample = 4;
+        break;
+      case 'fl64':
+      case 'FL64':
+        encoding = { kind: 'float', bits: 64, bigEndian: true };
+        bytesPerSample = 8;
+        break;
+      case 'ulaw':
+      case 'ULAW':
+        encoding = { kind: 'mulaw' };
+        bytesPerSample = 1;
+        break;
+      case 'alaw':
+      case 'ALAW':
+        encoding = { kind: 'alaw' };
+        bytesPerSample = 1;
+        break;
+      default:
+        throw new AudioDecodeError(
+          'unsupported-encoding',
+          `AIFF-C compression type "${this.printable(compression)}" is not supported`
+        );
+    }
+
+    const ssnd = chunks.find(chunk => chunk.id === 'SSND');
+    if (!ssnd) {
+      if (declaredFrames === 0) {
+        return { container: isAifc ? 'aifc' : 'aiff', encoding, sampleRate, length: 0, channels: this.emptyChannels(numChannels) };
+      }
+      throw new AudioDecodeError('missing-chunk', 'AIFF file has no SSND chunk containing samples');
+    }
+
+    // SSND starts with an offset to the first sample frame and a block size hint
+    const dataOffset = ssnd.offset + 8 + view.getUint32(ssnd.offset, false);
+    const blockAlign = bytesPerSample * numChannels;
+    const availableFrames = Math.floor(Math.max(0, Math.min(ssnd.offset + ssnd.size, view.byteLength) - dataOffset) / blockAlign);
+    const numFrames = Math.min(declaredFrames, availableFrames);
+
+    return {
+      container: isAifc ? 'aifc' : 'aiff',
+      encoding,
+      sampleRate,
+      length: numFrames,
+      channels: this.deinterleave(view, dataOffset, numFrames, numChannels, blockAlign, encoding),
+    };
+  }
+
+  /**
+   * Walk the chunk list of a RIFF or IFF file, honouring the pad byte after odd-sized chunks
+   */
+  static readChunks(view: DataView, start: number, littleEndian: boolean): Chunk[] {
+    const chunks: Chunk[] = [];
+    let offset = start;
+
+    while (offset + 8 <= view.byteLength) {
+      const id = this.readId(view, offset);
+      const size = view.getUint32(offset + 4, littleEndian);
+      chunks.push({ id, offset: offset + 8, size });
+
+      // A 0xFFFFFFFF data size (RF64) or an unterminated last chunk runs to the end of the file
+      if (size === 0xffffffff || offset + 8 + size > view.byteLength) break;
+      offset += 8 + size + (size % 2);
+    }
+
+    if (chunks.length === 0) {
+      throw new AudioDecodeError('truncated', 'File ends before the first chunk header');
+    }
+
+    return chunks;
+  }
+
+  private static deinterleave(
+    view: DataView,
+    offset: number,
+    numFrames: number,
+    numChannels: number,
+    blockAlign: number,
+    encoding: SampleEncoding
+  ): Float32Array[] {
+    const channels = this.emptyChannels(numChannels, numFrames);
+    const bytesPerSample = this.bytesPerSample(encoding);
+
+    if (bytesPerSample * numChannels > blockAlign) {
+      throw new AudioDecodeError(
+        'invalid-header',
+        `Block alignment of ${blockAlign} bytes is too small for ${numChannels} channels of ${bytesPerSample}-byte samples`
+      );
+    }
+
+    for (let frame = 0; frame < numFrames; frame++) {
+      const frameOffset = offset + frame * blockAlign;
+      for (let channel = 0; channel < numChannels; channel++) {
+        channels[channel][frame] = this.readSample(view, frameOffset + channel * bytesPerSample, encoding);
+      }
+    }
+
+    return channels;
+  }
+
+  private static readSample(view: DataView, offset: number, encoding: SampleEncoding): number {
+    switch (encoding.kind) {
+      case 'float':
+        return encoding.bits === 32
+          ? view.getFloat32(offset, !encoding.bigEndian)
+          : view.getFloat64(offset, !encoding.bigEndian);
+      case 'mulaw':
+        return this.decodeMulaw(view.getUint8(offset));
+      case 'alaw':
+        return this.decodeAlaw(view.getUint8(offset));
+      case 'pcm': {
+        const bytes = Math.ceil(encoding.bits / 8);
+        // Assemble the container word, most significant byte first
+        let value = 0;
+        for (let i = 0; i < bytes; i++) {
+          const byte = view.getUint8(offset + (encoding.bigEndian ? i : bytes - 1 - i));
+          value = value * 256 + byte;
+        }
+        const range = Math.pow(2, bytes * 8);
+        if (encoding.signed) {
+          if (value >= range / 2) value -= range;
+        } else {
+          value -= range / 2;
+        }
+        return value / (range / 2);
+      }
+    }
+  }
+
+  private static bytesPerSample(encoding: SampleEncoding): number {
+    switch (encoding.kind) {
+      case 'pcm':
+        return Math.ceil(encoding.bits / 8);
+      case 'float':
+        return encoding.bits / 8;
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * ITU-T G.711 µ-law to linear
+   */
+  private static decodeMulaw(byte: number): number {
+    const value = ~byte & 0xff;
+    const exponent = (value >> 4) & 0x07;
+    const mantissa = value & 0x0f;
+    const magnitude = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+    return (value & 0x80 ? -magnitude : magnitude) / 32768;
+  }
+
+  /**
+   * ITU-T G.711 A-law to linear
+   */
+  private static decodeAlaw(byte: number): number {
+    const value = byte ^ 0x55;
+    const exponent = (value >> 4) & 0x07;
+    const mantissa = value & 0x0f;
+    const magnitude = exponent === 0
+      ? (mantissa << 4) + 8
+      : ((mantissa << 4) + 0x108) << (exponent - 1);
+    return (value & 0x80 ? magnitude : -magnitude) / 32768;
+  }
+
+  /**
+   * IEEE 754 80-bit extended precision, as used for the AIFF sample rate
+   */
+  static readExtended(view: DataView, offset: number): number {
+    const signAndExponent = view.getUint16(offset, false);
+    const hi = view.getUint32(offset + 2, false);
+    const lo = view.getUint32(offset + 6, false);
+    const sign = signAndExponent & 0x8000 ? -1 : 1;
+    const exponent = signAndExponent & 0x7fff;
+    if (exponent === 0 && hi === 0 && lo === 0) return 0;
+
+    const mantissa = hi * 4294967296 + lo;
+    return sign * mantissa * Math.pow(2, exponent - 16383 - 63);
+  }
+
+  /**
+   * Unsigned 64-bit integer as a number; exact up to 2^53, which covers any real file size
+   */
+  static readUint64(view: DataView, offset: number, littleEndian: boolean): number {
+    const low = view.getUint32(offset + (littleEndian ? 0 : 4), littleEndian);
+    const high = view.getUint32(offset + (littleEndian ? 4 : 0), littleEndian);
+    return high * 4294967296 + low;
+  }
+
+  private static validateLayout(container: string, numChannels: number, sampleRate: number): void {
+    if (numChannels === 0) {
+      throw new AudioDecodeError('invalid-header', `${container} header declares 0 channels`);
+    }
+    if (!Number.isFinite(sampleRate) || sampleRate < 1) {
+      throw new AudioDecodeError('invalid-header', `${container} header declares an invalid sample rate (${sampleRate})`);
+    }
+  }
+
+  private static emptyChannels(numChannels: number, length: number = 0): Float32Array[] {
+    return Array.from({ length: numChannels }, () => new Float32Array(length));
+  }
+
+  private static readId(view: DataView, offset: number): string {
+    let id = '';
+    for (let i = 0; i < 4 && offset + i < view.byteLength; i++) {
+      id += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return id;
+  }
+
+  private static printable(id: string): string {
+    return id.replace(/[^\x20-\x7e]/g, '?');
+  }
+}
@@ -0,0 +1,250 @@
+import { AudioBufferLike } from '@/types/audio';
+
+/**
+ * Min/max envelope and mean-square power of every channel at one resolution
+ */
+export interface PeakLevel {
+  samplesPerPeak: number;
+  length: number;
+  min: Float32Array[];
+  max: Float32Array[];
+  power: Float32Array[];
+}
+
+// Finest stored level; anything more detailed is read straight from the samples
+const BASE_SAMPLES_PER_PEAK = 256;
+
+// Samples scanned between yields to the event loop while building, roughly 10ms of work
+const BUILD_SLICE = 1 << 21;
+
+/**
+ * Multi-resolution min/max peaks in the style of audiowaveform's .dat levels: each level halves
+ * the previous one, so any zoom reads at most a few peaks per pixel column and redraws stay
+ * cheap even for hour-long files
+ */
+export class PeakPyramid {
+  readonly levels: PeakLevel[];
+  readonly channels: Float32Array[];
+  readonly sampleRate: number;
+  readonly length: number;
+
+  private constructor(levels: PeakLevel[], channels: Float32Array[], sampleRate: number, length: number) {
+    this.levels = levels;
+    this.channels = channels;
+    this.sampleRate = sampleRate;
+    this.length = length;
+  }
+
+  get numberOfChannels(): number {
+    return this.channels.length;
+  }
+
+  /**
+   * Build the pyramid, yielding between slices so the page stays responsive. Rejects with an
+   * AbortError when the signal fires
+   */
+  static async build(audioBuffer: AudioBufferLike, signal?: AbortSignal): Promise<PeakPyramid> {
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) =>
+      audioBuffer.getChannelData(channel)
+    );
+    const length = audioBuffer.length;
+    const baseLength = Math.max(1, Math.ceil(length / BASE_SAMPLES_PER_PEAK));
+
+    const base: PeakLevel = {
+      samplesPerPeak: BASE_SAMPLES_PER_PEAK,
+      length: baseLength,
+      min: channels.map(() => new Float32Array(baseLength)),
+      max: channels.map(() => new Float32Array(baseLength)),
+      power: channels.map(() => new Float32Array(baseLength)),
+    };
+
+    const peaksPerSlice = Math.max(1, Math.floor(BUILD_SLICE / BASE_SAMPLES_PER_PEAK));
+    for (let channel = 0; channel < channels.length; channel++) {
+      const data = channels[channel];
+      const minPeaks = base.min[channel];
+      const maxPeaks = base.max[channel];
+      const powerPeaks = base.power[channel];
+
+      for (let sliceStart = 0; sliceStart < baseLength; sliceStart += peaksPerSlice) {
+        const sliceEnd = Math.min(baseLength, sliceStart + peaksPerSlice);
+        for (let peak = sliceStart; peak < sliceEnd; peak++) {
+          const start = peak * BASE_SAMPLES_PER_PEAK;
+          const end = Math.min(start + BASE_SAMPLES_PER_PEAK, length);
+          let min = start < end ? data[start] : 0;
+          let max = min;
+          let sumSquares = min * min;
+          for (let i = start + 1; i < end; i++) {
+            const value = data[i];
+            if (value < min) min = value;
+            if (value > max) max = value;
+            sumSquares += value * value;
+          }
+          minPeaks[peak] = min;
+          maxPeaks[peak] = max;
+          powerPeaks[peak] = end > start ? sumSquares / (end - start) : 0;
+        }
+        await this.yieldSlice(signal);
+      }
+    }
+
+    const levels = [base];
+    let previous = base;
+    while (previous.length > 1) {
+      const next = this.halve(previous);
+      levels.push(next);
+      previous = next;
+    }
+
+    return new PeakPyramid(levels, channels, audioBuffer.sampleRate, length);
+  }
+
+  /**
+   * Build a two-channel pyramid of mid ((L+R)/2) and side ((L-R)/2) from the first two channels
+   */
+  static async buildMidSide(audioBuffer: AudioBufferLike, signal?: AbortSignal): Promise<PeakPyramid> {
+    if (audioBuffer.numberOfChannels < 2) {
+      throw new Error('Mid/side needs at least two channels');
+    }
+
+    const left = audioBuffer.getChannelData(0);
+    const right = audioBuffer.getChannelData(1);
+    const length = audioBuffer.length;
+    const mid = new Float32Array(length);
+    const side = new Float32Array(length);
+
+    for (let sliceStart = 0; sliceStart < length; sliceStart += BUILD_SLICE) {
+      const sliceEnd = Math.min(length, sliceStart + BUILD_SLICE);
+      for (let i = sliceStart; i < sliceEnd; i++) {
+        mid[i] = (left[i] + right[i]) * 0.5;
+        side[i] = (left[i] - right[i]) * 0.5;
+      }
+      await this.yieldSlice(signal);
+    }
+
+    const channels = [mid, side];
+    return this.build({
+      numberOfChannels: 2,
+      length,
+      sampleRate: audioBuffer.sampleRate,
+      duration: audioBuffer.duration,
+      getChannelData: (channel: number) => channels[channel],
+    }, signal);
+  }
+
+  /**
+   * Fill one min/max pair per output column for columns starting at startSample, each spanning
+   * samplesPerColumn samples, plus the column's RMS when outRms is given. Below one sample per
+   * column each column just holds the sample under it, so callers should draw the samples
+   * themselves at that zoom
+   */
+  query(
+    channel: number,
+    startSample: number,
+    samplesPerColumn: number,
+    outMin: Float32Array,
+    outMax: Float32Array,
+    outRms?: Float32Array
+  ): void {
+    const columns = outMin.length;
+
+    if (samplesPerColumn < BASE_SAMPLES_PER_PEAK) {
+      const data = this.channels[channel];
+      for (let column = 0; column < columns; column++) {
+        const start = Math.max(0, Math.floor(startSample + column * samplesPerColumn));
+        const end = Math.min(this.length, Math.max(start + 1, Math.floor(startSample + (column + 1) * samplesPerColumn)));
+        let min = start < end ? data[start] : 0;
+        let max = min;
+        let sumSquares = min * min;
+        for (let i = start + 1; i < end; i++) {
+          const value = data[i];
+          if (value < min) min = value;
+          if (value > max) max = value;
+          sumSquares += value * value;
+        }
+        outMin[column] = min;
+        outMax[column] = max;
+        if (outRms) outRms[column] = end > start ? Math.sqrt(sumSquares / (end - start)) : 0;
+      }
+      return;
+    }
+
+    const level = this.levelFor(samplesPerColumn);
+    const minPeaks = level.min[channel];
+    const maxPeaks = level.max[channel];
+    const powerPeaks = level.power[channel];
+    const spp = level.samplesPerPeak;
+
+    for (let column = 0; column < columns; column++) {
+      const start = Math.max(0, Math.floor((startSample + column * samplesPerColumn) / spp));
+      const end = Math.min(level.length, Math.max(start + 1, Math.ceil((startSample + (column + 1) * samplesPerColumn) / spp)));
+      let min = minPeaks[start];
+      let max = maxPeaks[start];
+      for (let i = start + 1; i < end; i++) {
+        if (minPeaks[i] < min) min = minPeaks[i];
+        if (maxPeaks[i] > max) max = maxPeaks[i];
+      }
+      outMin[column] = min;
+      outMax[column] = max;
+
+      if (outRms) {
+        let power = 0;
+        for (let i = start; i < end; i++) power += powerPeaks[i];
+        outRms[column] = Math.sqrt(power / (end - start));
+      }
+    }
+  }
+
+  /**
+   * Coarsest level that still has at least one peak per column
+   */
+  levelFor(samplesPerColumn: number): PeakLevel {
+    let chosen = this.levels[0];
+    for (const level of this.levels) {
+      if (level.samplesPerPeak > samplesPerColumn) break;
+      chosen = level;
+    }
+    return chosen;
+  }
+
+  private static halve(level: PeakLevel): PeakLevel {
+    const length = Math.ceil(level.length / 2);
+    const min = level.min.map(source => {
+      const out = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        const a = source[2 * i];
+        const b = 2 * i + 1 < source.length ? source[2 * i + 1] : a;
+        out[i] = a < b ? a : b;
+      }
+      return out;
+    });
+    const max = level.max.map(source => {
+      const out = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        const a = source[2 * i];
+        const b = 2 * i + 1 < source.length ? source[2 * i + 1] : a;
+        out[i] = a > b ? a : b;
+      }
+      return out;
+    });
+    const power = level.power.map(source => {
+      const out = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        out[i] = 2 * i + 1 < source.length ? (source[2 * i] + source[2 * i + 1]) * 0.5 : source[2 * i];
+      }
+      return out;
+    });
+    return { samplesPerPeak: level.samplesPerPeak * 2, length, min, max, power };
+  }
+
+  private static yieldSlice(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (signal?.aborted) {
+          reject(new DOMException('Peak building cancelled', 'AbortError'));
+        } else {
+          resolve();
+        }
+      }, 0);
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { AudioMarker, AudioMetadata, AudioRegion, TimeRange } from '@/types/audio';
+
+// Spans shorter than this are treated as a click rather than a selection
+export const MIN_REGION_DURATION = 0.01;
+
+/**
+ * Which part of a span a drag grabbed: one of its edges, or the whole span
+ */
+export type RangeEdge = 'start' | 'end' | 'body';
+
+const REGION_COLORS = ['#5227FF', '#B19EEF', '#22c55e', '#f59e0b', '#ec4899', '#06b6d4'];
+
+let nextId = 0;
+
+/**
+ * Helpers for the selection, markers and loop regions edited on the waveform. Everything is
+ * immutable so the lists can live in React state and be passed around as controlled props
+ */
+export class RegionUtils {
+  static createId(prefix: string): string {
+    nextId += 1;
+    return `${prefix}-${Date.now().toString(36)}-${nextId}`;
+  }
+
+  /**
+   * Order the ends and clamp them to the file. Returns null when the span is too short to keep
+   */
+  static normalize(range: TimeRange, duration: number): TimeRange | null {
+    const start = Math.max(0, Math.min(range.start, range.end));
+    const end = Math.min(duration, Math.max(range.start, range.end));
+    return end - start >= MIN_REGION_DURATION ? { start, end } : null;
+  }
+
+  /**
+   * Shift a span by delta seconds without changing its length or leaving the file
+   */
+  static move<T extends TimeRange>(range: T, delta: number, duration: number): T {
+    const length = range.end - range.start;
+    const start = Math.max(0, Math.min(duration - length, range.start + delta));
+    return { ...range, start, end: start + length };
+  }
+
+  /**
+   * Drag one edge by delta seconds, keeping the span at least MIN_REGION_DURATION long, or move
+   * the whole span for 'body'
+   */
+  static resize<T extends TimeRange>(range: T, edge: RangeEdge, delta: number, duration: number): T {
+    if (edge === 'body') return this.move(range, delta, duration);
+    if (edge === 'start') {
+      return { ...range, start: Math.max(0, Math.min(range.end - MIN_REGION_DURATION, range.start + delta)) };
+    }
+    return { ...range, end: Math.min(duration, Math.max(range.start + MIN_REGION_DURATION, range.end + delta)) };
+  }
+
+  static contains(range: TimeRange, time: number): boolean {
+    return time >= range.start && time < range.end;
+  }
+
+  /**
+   * First "<prefix> N" name not used by any item yet
+   */
+  static nextName(items: { name: string }[], prefix: string): string {
+    const used = new Set(items.map(item => item.name));
+    let index = items.length + 1;
+    while (used.has(`${prefix} ${index}`)) index++;
+    return `${prefix} ${index}`;
+  }
+
+  static createMarker(markers: AudioMarker[], time: number): AudioMarker {
+    return { id: this.createId('marker'), name: this.nextName(markers, 'Marker'), time };
+  }
+
+  static createLoopRegion(regions: AudioRegion[], range: TimeRange): AudioRegion {
+    return {
+      id: this.createId('loop'),
+      name: this.nextName(regions, 'Loop'),
+      start: range.start,
+      end: range.end,
+      color: REGION_COLORS[regions.length % REGION_COLORS.length],
+    };
+  }
+
+  /**
+   * Split markers read from the file's tags into point markers and loop regions (cue points with
+   * a length, such as labelled WAV cue ranges)
+   */
+  static fromMetadata(metadata: AudioMetadata, duration: number): { markers: AudioMarker[]; loopRegions: AudioRegion[] } {
+    const markers: AudioMarker[] = [];
+    const loopRegions: AudioRegion[] = [];
+
+    for (const marker of metadata.markers) {
+      if (marker.duration && marker.duration >= MIN_REGION_DURATION) {
+        loopRegions.push({
+          id: marker.id,
+          name: marker.name,
+          start: marker.time,
+          end: Math.min(duration, marker.time + marker.duration),
+          color: REGION_COLORS[loopRegions.length % REGION_COLORS.length],
+        });
+      } else if (marker.time <= duration) {
+        markers.push({ id: marker.id, name: marker.name, time: marker.time });
+      }
+    }
+
+    return { markers, loopRegions };
+  }
+}
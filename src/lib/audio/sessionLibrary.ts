@@ -0,0 +1,177 @@
+import { AudioFile } from '@/types/audio';
+import { AudioLibraryStore } from './libraryStore';
+
+// Decoded samples kept across all entries; the least recently used are dropped past this and decoded again when picked
+const MAX_DECODED_BYTES = 512 * 1024 * 1024;
+
+export interface SessionLibraryEntry {
+  id: string;
+  /** Source file, kept so an evicted entry can be decoded again */
+  file: File;
+  name: string;
+  title?: string;
+  duration: number;
+  sampleRate: number;
+  channels: number;
+  /** Decoded audio, or null once evicted to bound memory; open() restores it */
+  audioFile: AudioFile | null;
+  addedAt: number;
+  lastUsedAt: number;
+}
+
+type Listener = () => void;
+
+/**
+ * Files loaded during this browser session, shared by every page. Module state survives
+ * client-side navigation, so a batch loaded on one page can be picked on another
+ */
+export class SessionLibrary {
+  private static instance: SessionLibrary;
+  private entries: SessionLibraryEntry[] = [];
+  private listeners = new Set<Listener>();
+  private activeId: string | null = null;
+  private reopening = new Map<string, Promise<AudioFile>>();
+
+  private constructor() {}
+
+  static getInstance(): SessionLibrary {
+    if (!SessionLibrary.instance) {
+      SessionLibrary.instance = new SessionLibrary();
+    }
+    return SessionLibrary.instance;
+  }
+
+  /**
+   * Identity of a file on disk; loading the same file again replaces its entry
+   */
+  static entryId(audioFile: AudioFile): string {
+    return `${audioFile.name}:${audioFile.size}:${audioFile.lastModified}`;
+  }
+
+  /**
+   * Current entries, newest last. The array is replaced on every change so it can back useSyncExternalStore
+   */
+  getEntries = (): SessionLibraryEntry[] => this.entries;
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  add(audioFile: AudioFile): SessionLibraryEntry {
+    const now = Date.now();
+    const entry: SessionLibraryEntry = {
+      id: SessionLibrary.entryId(audioFile),
+      file: audioFile.file,
+      name: audioFile.name,
+      title: audioFile.metadata.title,
+      duration: audioFile.duration,
+      sampleRate: audioFile.sampleRate,
+      channels: audioFile.channels,
+      audioFile,
+      addedAt: now,
+      lastUsedAt: now,
+    };
+    this.entries = [...this.entries.filter(existing => existing.id !== entry.id), entry];
+    this.evict();
+    this.notify();
+    return entry;
+  }
+
+  find(id: string): SessionLibraryEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  /**
+   * The entry's decoded audio, decoding it again if it was evicted. Re-opening goes through
+   * the persistent library, so samples it has cached are reused
+   */
+  async open(id: string): Promise<AudioFile> {
+    const entry = this.find(id);
+    if (!entry) {
+      throw new Error('This file is no longer in the session library');
+    }
+    if (entry.audioFile) {
+      this.replace({ ...entry, lastUsedAt: Date.now() });
+      return entry.audioFile;
+    }
+
+    let pending = this.reopening.get(id);
+    if (!pending) {
+      pending = AudioLibraryStore.openFile(entry.file).finally(() => this.reopening.delete(id));
+      this.reopening.set(id, pending);
+    }
+    const audioFile = await pending;
+
+    // Removed while decoding: hand the file over without keeping it
+    const current = this.find(id);
+    if (current && !current.audioFile) {
+      this.replace({ ...current, audioFile, lastUsedAt: Date.now() });
+      this.evict();
+      this.notify();
+    }
+    return audioFile;
+  }
+
+  /**
+   * Mark the file a page is currently showing, so it is never evicted and its object URL is kept
+   */
+  setActive(id: string | null): void {
+    this.activeId = id;
+  }
+
+  remove(id: string): void {
+    const entry = this.find(id);
+    if (!entry) return;
+    this.release(entry);
+    this.entries = this.entries.filter(existing => existing.id !== id);
+    this.notify();
+  }
+
+  clear(): void {
+    this.entries.forEach(entry => this.release(entry));
+    this.entries = [];
+    this.notify();
+  }
+
+  private replace(entry: SessionLibraryEntry): void {
+    this.entries = this.entries.map(existing => (existing.id === entry.id ? entry : existing));
+  }
+
+  /**
+   * Drop decoded audio from the least recently used entries until the total fits, always keeping
+   * the active entry and the most recently used one
+   */
+  private evict(): void {
+    const decoded = this.entries.filter(entry => entry.audioFile);
+    let total = decoded.reduce((sum, entry) => sum + this.decodedBytes(entry), 0);
+    if (total <= MAX_DECODED_BYTES) return;
+
+    const candidates = decoded.sort((a, b) => a.lastUsedAt - b.lastUsedAt).slice(0, -1);
+    for (const entry of candidates) {
+      if (total <= MAX_DECODED_BYTES) break;
+      if (entry.id === this.activeId) continue;
+      total -= this.decodedBytes(entry);
+      this.release(entry);
+      this.replace({ ...entry, audioFile: null });
+    }
+  }
+
+  private decodedBytes(entry: SessionLibraryEntry): number {
+    const buffer = entry.audioFile?.audioBuffer;
+    return buffer ? buffer.length * buffer.numberOfChannels * Float32Array.BYTES_PER_ELEMENT : 0;
+  }
+
+  // The active file's URL is left alone: its page may still be playing it
+  private release(entry: SessionLibraryEntry): void {
+    if (entry.audioFile && entry.id !== this.activeId) {
+      URL.revokeObjectURL(entry.audioFile.url);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
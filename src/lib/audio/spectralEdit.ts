@@ -0,0 +1,244 @@
+import { AnalysisProgressCallback, AudioBufferLike } from '@/types/audio';
+import { FFT, createWindow } from './fft';
+import { FrequencyScale, FrequencyScaleUtils } from './frequencyScale';
+import { DEFAULT_SPECTROGRAM_OPTIONS, SpectrogramOptions } from './spectrogram';
+
+export type SpectralEditOperation = 'attenuate' | 'boost' | 'erase';
+
+/**
+ * A point on the spectrogram plane
+ */
+export interface SpectralPoint {
+  time: number;
+  frequency: number;
+}
+
+/**
+ * Time-frequency area an edit applies to. Lasso outlines are straight between their points
+ * on the scale they were drawn on, so they keep the shape the user saw
+ */
+export type SpectralShape =
+  | { kind: 'rectangle'; start: number; end: number; lowHz: number; highHz: number }
+  | { kind: 'lasso'; points: SpectralPoint[]; scale: FrequencyScale };
+
+export interface SpectralEdit {
+  id: string;
+  shape: SpectralShape;
+  operation: SpectralEditOperation;
+  /** Gain change in dB for attenuate and boost; the sign comes from the operation */
+  amountDb: number;
+}
+
+/**
+ * Resynthesized channels, one per input channel, at the input's sample rate
+ */
+export interface SpectralEditResult {
+  sampleRate: number;
+  channels: Float32Array<ArrayBuffer>[];
+}
+
+// Overlap-add weights below this are at the very ends of the file, where the signal is left as is
+const MIN_WINDOW_WEIGHT = 1e-3;
+
+/**
+ * Time-frequency editing by STFT masking and weighted overlap-add resynthesis
+ */
+export class SpectralEditor {
+  /**
+   * Linear gain an edit applies inside its shape
+   */
+  static gain(edit: SpectralEdit): number {
+    switch (edit.operation) {
+      case 'erase':
+        return 0;
+      case 'boost':
+        return 10 ** (Math.abs(edit.amountDb) / 20);
+      default:
+        return 10 ** (-Math.abs(edit.amountDb) / 20);
+    }
+  }
+
+  /**
+   * Time span a shape covers, in seconds
+   */
+  static bounds(shape: SpectralShape): { start: number; end: number } {
+    if (shape.kind === 'rectangle') {
+      return { start: Math.min(shape.start, shape.end), end: Math.max(shape.start, shape.end) };
+    }
+    let start = Infinity;
+    let end = -Infinity;
+    for (const point of shape.points) {
+      start = Math.min(start, point.time);
+      end = Math.max(end, point.time);
+    }
+    return { start, end };
+  }
+
+  /**
+   * Corner points of the shape, in drawing order
+   */
+  static outline(shape: SpectralShape): SpectralPoint[] {
+    if (shape.kind === 'lasso') return shape.points;
+    return [
+      { time: shape.start, frequency: shape.lowHz },
+      { time: shape.end, frequency: shape.lowHz },
+      { time: shape.end, frequency: shape.highHz },
+      { time: shape.start, frequency: shape.highHz },
+    ];
+  }
+
+  /**
+   * Frequency intervals, in Hz, the shape covers at one instant
+   */
+  static intervalsAt(shape: SpectralShape, time: number): [number, number][] {
+    if (shape.kind === 'rectangle') {
+      const { start, end } = this.bounds(shape);
+      if (time < start || time > end) return [];
+      return [[Math.min(shape.lowHz, shape.highHz), Math.max(shape.lowHz, shape.highHz)]];
+    }
+
+    // Where the outline crosses the vertical line at this time, paired up inside-outside
+    const { points, scale } = shape;
+    const crossings: number[] = [];
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      if ((a.time <= time && time < b.time) || (b.time <= time && time < a.time)) {
+        const t = (time - a.time) / (b.time - a.time);
+        const low = FrequencyScaleUtils.warp(a.frequency, scale);
+        crossings.push(low + t * (FrequencyScaleUtils.warp(b.frequency, scale) - low));
+      }
+    }
+    crossings.sort((x, y) => x - y);
+
+    const intervals: [number, number][] = [];
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      intervals.push([
+        FrequencyScaleUtils.unwarp(crossings[i], scale),
+        FrequencyScaleUtils.unwarp(crossings[i + 1], scale),
+      ]);
+    }
+    return intervals;
+  }
+
+  /**
+   * Apply the edits to every channel. Frames the edits don't reach are never transformed, and
+   * the rest are added back as a difference, so audio outside the shapes comes out bit-identical
+   */
+  static apply(
+    audioBuffer: AudioBufferLike,
+    edits: SpectralEdit[],
+    options: SpectrogramOptions = DEFAULT_SPECTROGRAM_OPTIONS,
+    onProgress?: AnalysisProgressCallback
+  ): SpectralEditResult {
+    const { fftSize } = options;
+    const hopSize = Math.max(1, Math.round(fftSize * (1 - Math.min(0.95, Math.max(0.5, options.overlap)))));
+    const { sampleRate, length, numberOfChannels } = audioBuffer;
+    const window = createWindow(options.window, fftSize);
+    const fft = new FFT(fftSize);
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+    const gains = new Float32Array(fftSize / 2 + 1);
+    const binHz = sampleRate / fftSize;
+    const frameCount = length <= fftSize ? 1 : Math.ceil((length - fftSize) / hopSize) + 1;
+
+    // Frames whose centre falls inside some shape's time span
+    const centreOffset = fftSize / 2 / sampleRate;
+    let firstFrame = frameCount;
+    let lastFrame = -1;
+    for (const edit of edits) {
+      const { start, end } = this.bounds(edit.shape);
+      firstFrame = Math.min(firstFrame, Math.max(0, Math.ceil(((start - centreOffset) * sampleRate) / hopSize)));
+      lastFrame = Math.max(lastFrame, Math.min(frameCount - 1, Math.floor(((end - centreOffset) * sampleRate) / hopSize)));
+    }
+
+    const channels: Float32Array<ArrayBuffer>[] = [];
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      channels.push(audioBuffer.getChannelData(channel).slice());
+    }
+    if (lastFrame < firstFrame) {
+      onProgress?.(1, 'Done');
+      return { sampleRate, channels };
+    }
+
+    // Sum of squared windows at each sample of the touched span, over every frame covering it
+    const spanStart = firstFrame * hopSize;
+    const spanEnd = Math.min(length, lastFrame * hopSize + fftSize);
+    const weights = new Float32Array(spanEnd - spanStart);
+    for (let frame = Math.max(0, Math.floor((spanStart - fftSize) / hopSize) + 1); frame < frameCount; frame++) {
+      const offset = frame * hopSize;
+      if (offset >= spanEnd) break;
+      for (let i = Math.max(0, spanStart - offset); i < fftSize && offset + i < spanEnd; i++) {
+        weights[offset + i - spanStart] += window[i] * window[i];
+      }
+    }
+
+    const difference = new Float32Array(spanEnd - spanStart);
+    const totalSteps = numberOfChannels * (lastFrame - firstFrame + 1);
+    const progressStep = Math.max(1, Math.floor(totalSteps / 100));
+    let step = 0;
+
+    onProgress?.(0, 'Resynthesizing');
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const input = audioBuffer.getChannelData(channel);
+      difference.fill(0);
+
+      for (let frame = firstFrame; frame <= lastFrame; frame++, step++) {
+        if (step % progressStep === 0) onProgress?.(step / totalSteps, 'Resynthesizing');
+        if (!this.frameGains(edits, (frame * hopSize) / sampleRate + centreOffset, binHz, gains)) continue;
+
+        const offset = frame * hopSize;
+        for (let i = 0; i < fftSize; i++) {
+          real[i] = offset + i < length ? input[offset + i] * window[i] : 0;
+        }
+        imag.fill(0);
+        fft.forward(real, imag);
+
+        // Scale each bin and its mirror so the inverse stays real
+        for (let bin = 0; bin <= fftSize / 2; bin++) {
+          const gain = gains[bin];
+          real[bin] *= gain;
+          imag[bin] *= gain;
+          if (bin > 0 && bin < fftSize / 2) {
+            real[fftSize - bin] *= gain;
+            imag[fftSize - bin] *= gain;
+          }
+        }
+        fft.inverse(real, imag);
+
+        // Synthesis window, minus what the unedited frame would have contributed
+        for (let i = 0; i < fftSize && offset + i < spanEnd; i++) {
+          difference[offset + i - spanStart] += window[i] * (real[i] - window[i] * input[offset + i]);
+        }
+      }
+
+      const output = channels[channel];
+      for (let i = 0; i < difference.length; i++) {
+        if (weights[i] > MIN_WINDOW_WEIGHT) output[spanStart + i] += difference[i] / weights[i];
+      }
+    }
+    onProgress?.(1, 'Done');
+
+    return { sampleRate, channels };
+  }
+
+  /**
+   * Fill gains for bins 0..fftSize/2 at one instant. Returns false when every gain is 1
+   */
+  private static frameGains(edits: SpectralEdit[], time: number, binHz: number, gains: Float32Array): boolean {
+    gains.fill(1);
+    let touched = false;
+
+    for (const edit of edits) {
+      const gain = this.gain(edit);
+      for (const [lowHz, highHz] of this.intervalsAt(edit.shape, time)) {
+        const low = Math.max(0, Math.ceil(lowHz / binHz));
+        const high = Math.min(gains.length - 1, Math.floor(highHz / binHz));
+        for (let bin = low; bin <= high; bin++) gains[bin] *= gain;
+        if (high >= low) touched = true;
+      }
+    }
+
+    return touched;
+  }
+}
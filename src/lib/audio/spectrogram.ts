@@ -0,0 +1,163 @@
+import { AnalysisProgressCallback, AudioBufferLike } from '@/types/audio';
+import { WindowType } from './fft';
+import { STFT } from './stft';
+
+export type SpectrogramColormap = 'viridis' | 'magma' | 'inferno' | 'jet' | 'grayscale';
+
+/**
+ * Settings for a whole-file spectrogram
+ */
+export interface SpectrogramOptions {
+  fftSize: number;
+  /** Fraction of each frame shared with the next, 0 to 0.95 */
+  overlap: number;
+  window: WindowType;
+}
+
+/**
+ * Whole-file STFT magnitudes, quantised to one byte per cell between minDb and maxDb.
+ * Cells are stored frame by frame: data[frame * binCount + bin]
+ */
+export interface SpectrogramData {
+  sampleRate: number;
+  fftSize: number;
+  /** May be larger than the requested overlap implies when the file is too long to keep every frame */
+  hopSize: number;
+  frameCount: number;
+  binCount: number;
+  duration: number;
+  minDb: number;
+  maxDb: number;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+export const DEFAULT_SPECTROGRAM_OPTIONS: SpectrogramOptions = {
+  fftSize: 2048,
+  overlap: 0.75,
+  window: 'hann',
+};
+
+// Range kept in the quantised data; display ranges are picked from within it
+const STORED_MIN_DB = -130;
+const STORED_MAX_DB = 0;
+// Upper bound on stored cells (bytes), about 9.5 minutes at 44.1 kHz with the default settings; channels are downmixed first
+const MAX_CELLS = 48 * 1024 * 1024;
+
+// Colour stops sampled from the matplotlib maps, plus the jet-like ramp the live view uses
+const COLORMAP_STOPS: Record<SpectrogramColormap, [number, number, number][]> = {
+  viridis: [[68, 1, 84], [72, 40, 120], [62, 74, 137], [49, 104, 142], [38, 130, 142], [31, 158, 137], [53, 183, 121], [109, 205, 89], [180, 222, 44], [253, 231, 37]],
+  magma: [[0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122], [229, 80, 100], [251, 135, 97], [254, 194, 135], [252, 253, 191]],
+  inferno: [[0, 0, 4], [31, 12, 72], [85, 15, 109], [136, 34, 106], [186, 54, 85], [227, 89, 51], [249, 140, 10], [249, 201, 50], [252, 255, 164]],
+  jet: [[0, 0, 255], [0, 255, 255], [0, 255, 0], [255, 255, 0], [255, 0, 0], [255, 255, 255]],
+  grayscale: [[0, 0, 0], [255, 255, 255]],
+};
+
+const lutCache = new Map<SpectrogramColormap, Uint8ClampedArray>();
+
+/**
+ * Offline spectrogram analysis and the lookups used to draw it
+ */
+export class SpectrogramAnalyzer {
+  /**
+   * STFT of the mono downmix, with magnitudes in dBFS (a full-scale sine reads 0 dB)
+   */
+  static compute(
+    audioBuffer: AudioBufferLike,
+    options: SpectrogramOptions = DEFAULT_SPECTROGRAM_OPTIONS,
+    onProgress?: AnalysisProgressCallback
+  ): SpectrogramData {
+    const { fftSize } = options;
+    const binCount = fftSize / 2;
+    const overlap = Math.min(0.95, Math.max(0, options.overlap));
+    let hopSize = Math.max(1, Math.round(fftSize * (1 - overlap)));
+
+    const length = audioBuffer.length;
+    const maxFrames = Math.max(1, Math.floor(MAX_CELLS / binCount));
+    if (length > fftSize && Math.ceil((length - fftSize) / hopSize) + 1 > maxFrames) {
+      hopSize = Math.ceil((length - fftSize) / Math.max(1, maxFrames - 1));
+    }
+
+    const stft = new STFT({ fftSize, hopSize, window: options.window });
+    const frameCount = stft.frameCount(length);
+    const data = new Uint8Array(frameCount * binCount);
+
+    // Undo the window's coherent gain and the one-sided spectrum halving
+    let windowSum = 0;
+    for (let i = 0; i < fftSize; i++) windowSum += stft.window[i];
+    const amplitudeScale = 2 / windowSum;
+    const dbScale = 255 / (STORED_MAX_DB - STORED_MIN_DB);
+    const progressStep = Math.max(1, Math.floor(frameCount / 100));
+
+    onProgress?.(0, 'Computing spectrogram');
+    for (const frame of stft.framesFromBuffer(audioBuffer)) {
+      const offset = frame.index * binCount;
+      for (let bin = 0; bin < binCount; bin++) {
+        const db = 20 * Math.log10(frame.magnitudes[bin] * amplitudeScale + 1e-12);
+        const value = (db - STORED_MIN_DB) * dbScale;
+        data[offset + bin] = value <= 0 ? 0 : value >= 255 ? 255 : value;
+      }
+      if (frame.index % progressStep === 0) {
+        onProgress?.(frame.index / frameCount, 'Computing spectrogram');
+      }
+    }
+    onProgress?.(1, 'Done');
+
+    return {
+      sampleRate: audioBuffer.sampleRate,
+      fftSize,
+      hopSize,
+      frameCount,
+      binCount,
+      duration: length / audioBuffer.sampleRate,
+      minDb: STORED_MIN_DB,
+      maxDb: STORED_MAX_DB,
+      data,
+    };
+  }
+
+  /**
+   * Time at the centre of a frame, in seconds
+   */
+  static frameTime(spectrogram: SpectrogramData, frame: number): number {
+    return (frame * spectrogram.hopSize + spectrogram.fftSize / 2) / spectrogram.sampleRate;
+  }
+
+  /**
+   * Frame whose centre is nearest to the given time, unclamped
+   */
+  static frameAt(spectrogram: SpectrogramData, time: number): number {
+    return Math.round((time * spectrogram.sampleRate - spectrogram.fftSize / 2) / spectrogram.hopSize);
+  }
+
+  /**
+   * Convert a stored byte back to dBFS
+   */
+  static toDb(spectrogram: SpectrogramData, value: number): number {
+    return spectrogram.minDb + (value / 255) * (spectrogram.maxDb - spectrogram.minDb);
+  }
+
+  /**
+   * 256-entry RGBA lookup table for a colormap, built once per map
+   */
+  static colormapLut(name: SpectrogramColormap): Uint8ClampedArray {
+    const cached = lutCache.get(name);
+    if (cached) return cached;
+
+    const stops = COLORMAP_STOPS[name];
+    const lut = new Uint8ClampedArray(256 * 4);
+    for (let i = 0; i < 256; i++) {
+      const position = (i / 255) * (stops.length - 1);
+      const index = Math.min(stops.length - 2, Math.floor(position));
+      const t = position - index;
+      const from = stops[index];
+      const to = stops[index + 1];
+      lut[i * 4] = from[0] + (to[0] - from[0]) * t;
+      lut[i * 4 + 1] = from[1] + (to[1] - from[1]) * t;
+      lut[i * 4 + 2] = from[2] + (to[2] - from[2]) * t;
+      lut[i * 4 + 3] = 255;
+    }
+
+    lutCache.set(name, lut);
+    return lut;
+  }
+}
@@ -0,0 +1,142 @@
+import { AudioBufferLike } from '@/types/audio';
+import { FFT, WindowType, createWindow } from './fft';
+
+/**
+ * Options for short-time Fourier analysis
+ */
+export interface STFTOptions {
+  fftSize?: number;
+  hopSize?: number;
+  window?: WindowType;
+}
+
+/**
+ * A single analysed frame. The arrays are reused between frames,
+ * so copy them if they need to outlive the iteration step.
+ */
+export interface STFTFrame {
+  index: number;
+  time: number;
+  real: Float32Array;
+  imag: Float32Array;
+  magnitudes: Float32Array;
+}
+
+/**
+ * Short-time Fourier transform over whole signals or AudioBuffers
+ */
+export class STFT {
+  readonly fftSize: number;
+  readonly hopSize: number;
+  readonly windowType: WindowType;
+  readonly window: Float32Array;
+  private fft: FFT;
+  private real: Float32Array;
+  private imag: Float32Array;
+  private magnitudes: Float32Array;
+
+  constructor(options: STFTOptions = {}) {
+    this.fftSize = options.fftSize ?? 2048;
+    this.hopSize = options.hopSize ?? this.fftSize / 4;
+    this.windowType = options.window ?? 'hann';
+
+    if (this.hopSize <= 0) {
+      throw new Error(`STFT hop size must be positive, got ${this.hopSize}`);
+    }
+
+    this.fft = new FFT(this.fftSize);
+    this.window = createWindow(this.windowType, this.fftSize);
+    this.real = new Float32Array(this.fftSize);
+    this.imag = new Float32Array(this.fftSize);
+    this.magnitudes = new Float32Array(this.fftSize / 2);
+  }
+
+  /**
+   * Number of frames produced for a signal of the given length
+   */
+  frameCount(length: number): number {
+    if (length <= this.fftSize) return 1;
+    return Math.ceil((length - this.fftSize) / this.hopSize) + 1;
+  }
+
+  /**
+   * Iterate over windowed spectra of a signal, zero-padding the final frame
+   */
+  *frames(signal: Float32Array, sampleRate: number): Generator<STFTFrame> {
+    const numFrames = this.frameCount(signal.length);
+
+    for (let index = 0; index < numFrames; index++) {
+      const start = index * this.hopSize;
+      const available = Math.max(0, Math.min(this.fftSize, signal.length - start));
+
+      for (let i = 0; i < available; i++) {
+        this.real[i] = signal[start + i] * this.window[i];
+      }
+      this.real.fill(0, available);
+      this.imag.fill(0);
+
+      this.fft.forward(this.real, this.imag);
+      this.fft.magnitudes(this.real, this.imag, this.magnitudes);
+
+      yield {
+        index,
+        time: start / sampleRate,
+        real: this.real,
+        imag: this.imag,
+        magnitudes: this.magnitudes,
+      };
+    }
+  }
+
+  /**
+   * Iterate over an AudioBuffer channel, or a mono downmix when no channel is given
+   */
+  *framesFromBuffer(audioBuffer: AudioBufferLike, channel?: number): Generator<STFTFrame> {
+    const signal = channel === undefined
+      ? STFT.downmix(audioBuffer)
+      : audioBuffer.getChannelData(channel);
+
+    yield* this.frames(signal, audioBuffer.sampleRate);
+  }
+
+  /**
+   * Average magnitude spectrum over every frame of a signal
+   */
+  averageSpectrum(signal: Float32Array, sampleRate: number): Float32Array {
+    const average = new Float32Array(this.fftSize / 2);
+    let count = 0;
+
+    for (const frame of this.frames(signal, sampleRate)) {
+      for (let k = 0; k < average.length; k++) {
+        average[k] += frame.magnitudes[k];
+      }
+      count++;
+    }
+
+    for (let k = 0; k < average.length; k++) {
+      average[k] /= count;
+    }
+
+    return average;
+  }
+
+  /**
+   * Mix all channels of an AudioBuffer down to mono
+   */
+  static downmix(audioBuffer: AudioBufferLike): Float32Array {
+    if (audioBuffer.numberOfChannels === 1) {
+      return audioBuffer.getChannelData(0);
+    }
+
+    const mono = new Float32Array(audioBuffer.length);
+    const gain = 1 / audioBuffer.numberOfChannels;
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      const data = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        mono[i] += data[i] * gain;
+      }
+    }
+
+    return mono;
+  }
+}
@@ -0,0 +1,72 @@
+import { TimeView } from '@/types/audio';
+
+// Wheel delta to zoom factor: exp(delta * speed)
+const WHEEL_ZOOM_SPEED = 0.002;
+
+/**
+ * Zoom and pan arithmetic shared by the timeline views (waveform, spectrogram), so views kept in
+ * sync behave the same whichever one the user drags
+ */
+export class TimeViewUtils {
+  static full(duration: number): TimeView {
+    return { start: 0, duration };
+  }
+
+  /**
+   * Keep the view inside the file and no shorter than minDuration
+   */
+  static clamp(view: TimeView, total: number, minDuration: number): TimeView {
+    const duration = Math.min(total, Math.max(minDuration, view.duration));
+    const start = Math.min(Math.max(0, view.start), Math.max(0, total - duration));
+    return { start, duration };
+  }
+
+  static isZoomed(view: TimeView, total: number): boolean {
+    return view.duration < total - 1e-9;
+  }
+
+  /**
+   * Apply a wheel event: vertical wheel zooms around the anchor (0..1 across the view), shift or
+   * horizontal wheel pans. Returns the unclamped view
+   */
+  static fromWheel(view: TimeView, event: WheelEvent, anchor: number, pixelWidth: number): TimeView {
+    const scale = event.deltaMode === 1 ? 16 : event.deltaMode === 2 ? pixelWidth : 1;
+    const horizontal = event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY);
+
+    if (horizontal) {
+      const delta = (event.shiftKey && event.deltaX === 0 ? event.deltaY : event.deltaX) * scale;
+      return { start: view.start + (delta / pixelWidth) * view.duration, duration: view.duration };
+    }
+
+    const anchorTime = view.start + anchor * view.duration;
+    const duration = view.duration * Math.exp(event.deltaY * scale * WHEEL_ZOOM_SPEED);
+    return { start: anchorTime - anchor * duration, duration };
+  }
+
+  /**
+   * fromWheel with the zoom limited to minDuration..total. The limit is applied before re-anchoring,
+   * so hitting it leaves the time under the cursor in place instead of drifting the view
+   */
+  static zoomFromWheel(
+    view: TimeView,
+    event: WheelEvent,
+    anchor: number,
+    pixelWidth: number,
+    total: number,
+    minDuration: number
+  ): TimeView {
+    const next = this.fromWheel(view, event, anchor, pixelWidth);
+    if (next.duration === view.duration) return next;
+
+    const duration = Math.min(total, Math.max(minDuration, next.duration));
+    const anchorTime = view.start + anchor * view.duration;
+    return { start: anchorTime - anchor * duration, duration };
+  }
+
+  /**
+   * Pan by a pointer drag of dx pixels across a view pixelWidth wide
+   */
+  static panBy(view: TimeView, dx: number, pixelWidth: number): TimeView {
+    return { start: view.start - (dx / pixelWidth) * view.duration, duration: view.duration };
+  }
+}
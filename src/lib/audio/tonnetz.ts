@@ -0,0 +1,96 @@
+import { PITCH_CLASSES } from './keyDetection';
+
+/**
+ * One of the three interval circles the tonal centroid is made of
+ */
+export interface TonnetzCircle {
+  id: 'fifths' | 'minorThirds' | 'majorThirds';
+  label: string;
+  /** Angle between adjacent pitch classes around the circle */
+  step: number;
+  radius: number;
+}
+
+/**
+ * Circle of fifths, circle of minor thirds and circle of major thirds, in the order their
+ * coordinate pairs appear in a tonal centroid (Harte, Sandler & Gasser, 2006)
+ */
+export const TONNETZ_CIRCLES: TonnetzCircle[] = [
+  { id: 'fifths', label: 'Fifths', step: (7 * Math.PI) / 6, radius: 1 },
+  { id: 'minorThirds', label: 'Minor thirds', step: (3 * Math.PI) / 2, radius: 1 },
+  { id: 'majorThirds', label: 'Major thirds', step: (2 * Math.PI) / 3, radius: 0.5 },
+];
+
+/**
+ * 6-D tonal centroid of chroma vectors: each pitch class placed on three interval circles and
+ * the chroma-weighted mean taken, so harmonically close chords land close together
+ */
+export class TonalCentroid {
+  /**
+   * Centroid of one chroma vector as [x, y] pairs for fifths, minor thirds and major thirds.
+   * Silent (all-zero) chroma maps to the origin
+   */
+  static fromChroma(chroma: ArrayLike<number>): number[] {
+    const centroid = new Array(TONNETZ_CIRCLES.length * 2).fill(0);
+    let total = 0;
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) total += Math.abs(chroma[pitchClass] ?? 0);
+    if (total === 0) return centroid;
+
+    TONNETZ_CIRCLES.forEach((circle, index) => {
+      let x = 0;
+      let y = 0;
+      for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+        const weight = (chroma[pitchClass] ?? 0) / total;
+        x += weight * circle.radius * Math.sin(pitchClass * circle.step);
+        y += weight * circle.radius * Math.cos(pitchClass * circle.step);
+      }
+      centroid[index * 2] = x;
+      centroid[index * 2 + 1] = y;
+    });
+    return centroid;
+  }
+
+  /**
+   * Centroid of every frame of a chromagram, each averaged with its neighbours within
+   * smoothingFrames on either side to steady the motion between chords
+   */
+  static track(chroma: Float32Array[], smoothingFrames: number = 0): Float32Array[] {
+    const raw = chroma.map((frame) => this.fromChroma(frame));
+    const dimensions = TONNETZ_CIRCLES.length * 2;
+
+    // Prefix sums so each smoothed frame costs the same however wide the window
+    const prefix = new Float64Array((raw.length + 1) * dimensions);
+    for (let frame = 0; frame < raw.length; frame++) {
+      for (let d = 0; d < dimensions; d++) {
+        prefix[(frame + 1) * dimensions + d] = prefix[frame * dimensions + d] + raw[frame][d];
+      }
+    }
+
+    const radius = Math.max(0, Math.floor(smoothingFrames));
+    return raw.map((_, frame) => {
+      const start = Math.max(0, frame - radius);
+      const end = Math.min(raw.length, frame + radius + 1);
+      const smoothed = new Float32Array(dimensions);
+      for (let d = 0; d < dimensions; d++) {
+        smoothed[d] = (prefix[end * dimensions + d] - prefix[start * dimensions + d]) / (end - start);
+      }
+      return smoothed;
+    });
+  }
+
+  /**
+   * Where each pitch class sits on a circle, with pitch classes that share a position
+   * (three per point on the minor-thirds circle, four on the major-thirds circle) grouped together
+   */
+  static circleLabels(circle: TonnetzCircle): { x: number; y: number; names: string[] }[] {
+    const labels: { x: number; y: number; names: string[] }[] = [];
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+      const x = Math.sin(pitchClass * circle.step);
+      const y = Math.cos(pitchClass * circle.step);
+      const existing = labels.find((label) => Math.hypot(label.x - x, label.y - y) < 1e-6);
+      if (existing) existing.names.push(PITCH_CLASSES[pitchClass]);
+      else labels.push({ x, y, names: [PITCH_CLASSES[pitchClass]] });
+    }
+    return labels;
+  }
+}
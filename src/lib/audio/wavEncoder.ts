@@ -0,0 +1,160 @@
+import { AudioBufferLike } from '@/types/audio';
+
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32';
+
+export interface WavEncodeOptions {
+  format?: WavSampleFormat;
+  /** Add TPDF dither when quantising to 16 or 24 bits */
+  dither?: boolean;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// RIFF sizes are 32-bit; larger files would need RF64
+const MAX_RIFF_SIZE = 0xffffffff;
+
+// Speaker position masks for 1-8 channels in Web Audio's channel order
+const CHANNEL_MASKS = [0x4, 0x3, 0x7, 0x33, 0x37, 0x3f, 0x13f, 0x63f];
+
+// KSDATAFORMAT_SUBTYPE_PCM / _IEEE_FLOAT share everything after the first two bytes
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+/**
+ * RIFF/WAVE encoder for 16/24-bit integer PCM and 32-bit float
+ */
+export class WavEncoder {
+  static bitsPerSample(format: WavSampleFormat): number {
+    switch (format) {
+      case 'pcm16':
+        return 16;
+      case 'pcm24':
+        return 24;
+      case 'float32':
+        return 32;
+    }
+  }
+
+  /**
+   * Encode an AudioBuffer as a complete WAV file
+   */
+  static encode(audioBuffer: AudioBufferLike, options: WavEncodeOptions = {}): ArrayBuffer {
+    const format = options.format ?? 'pcm16';
+    const dither = options.dither ?? false;
+    const numChannels = audioBuffer.numberOfChannels;
+    const bitsPerSample = this.bitsPerSample(format);
+    const bytesPerSample = bitsPerSample / 8;
+    const blockAlign = numChannels * bytesPerSample;
+    const dataSize = audioBuffer.length * blockAlign;
+
+    // Files with more than two channels carry the extensible header so readers get the speaker layout;
+    // float mono and stereo use the 18-byte fmt chunk with an empty extension
+    const isFloat = format === 'float32';
+    const extensible = numChannels > 2;
+    const fmtSize = extensible ? 40 : isFloat ? 18 : 16;
+    const factSize = isFloat ? 12 : 0;
+    const headerSize = 12 + 8 + fmtSize + factSize + 8;
+
+    if (headerSize + dataSize - 8 > MAX_RIFF_SIZE) {
+      throw new Error('Audio is too long to be stored in a WAV file (over 4 GB)');
+    }
+
+    const output = new ArrayBuffer(headerSize + dataSize);
+    const view = new DataView(output);
+    let offset = 0;
+
+    const writeString = (value: string) => {
+      for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset++, value.charCodeAt(i));
+      }
+    };
+    const writeUint16 = (value: number) => {
+      view.setUint16(offset, value, true);
+      offset += 2;
+    };
+    const writeUint32 = (value: number) => {
+      view.setUint32(offset, value, true);
+      offset += 4;
+    };
+
+    const formatTag = isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+
+    writeString('RIFF');
+    writeUint32(headerSize + dataSize - 8);
+    writeString('WAVE');
+
+    writeString('fmt ');
+    writeUint32(fmtSize);
+    writeUint16(extensible ? WAVE_FORMAT_EXTENSIBLE : formatTag);
+    writeUint16(numChannels);
+    writeUint32(audioBuffer.sampleRate);
+    writeUint32(audioBuffer.sampleRate * blockAlign);
+    writeUint16(blockAlign);
+    writeUint16(bitsPerSample);
+    if (extensible) {
+      writeUint16(22);
+      writeUint16(bitsPerSample);
+      writeUint32(CHANNEL_MASKS[numChannels - 1] ?? 0);
+      writeUint16(formatTag);
+      SUBFORMAT_GUID_TAIL.forEach(byte => view.setUint8(offset++, byte));
+    } else if (isFloat) {
+      writeUint16(0);
+    }
+
+    if (isFloat) {
+      writeString('fact');
+      writeUint32(4);
+      writeUint32(audioBuffer.length);
+    }
+
+    writeString('data');
+    writeUint32(dataSize);
+
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < numChannels; channel++) {
+      channels.push(audioBuffer.getChannelData(channel));
+    }
+
+    if (isFloat) {
+      for (let i = 0; i < audioBuffer.length; i++) {
+        for (let channel = 0; channel < numChannels; channel++) {
+          view.setFloat32(offset, channels[channel][i], true);
+          offset += 4;
+        }
+      }
+      return output;
+    }
+
+    const scale = Math.pow(2, bitsPerSample - 1);
+    const maxValue = scale - 1;
+    for (let i = 0; i < audioBuffer.length; i++) {
+      for (let channel = 0; channel < numChannels; channel++) {
+        let value = channels[channel][i] * scale;
+        if (dither) {
+          // Triangular PDF dither spanning +/- 1 LSB decorrelates the quantisation error
+          value += Math.random() - Math.random();
+        }
+        const sample = Math.max(-scale, Math.min(maxValue, Math.round(value)));
+
+        if (bitsPerSample === 16) {
+          view.setInt16(offset, sample, true);
+        } else {
+          view.setUint8(offset, sample & 0xff);
+          view.setUint8(offset + 1, (sample >> 8) & 0xff);
+          view.setUint8(offset + 2, (sample >> 16) & 0xff);
+        }
+        offset += bytesPerSample;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Encode straight to a Blob ready for download
+   */
+  static encodeBlob(audioBuffer: AudioBufferLike, options: WavEncodeOptions = {}): Blob {
+    return new Blob([this.encode(audioBuffer, options)], { type: 'audio/wav' });
+  }
+}
@@ -0,0 +1,47 @@
+let available: boolean | null = null;
+
+/**
+ * WebGL feature detection shared by the 3D views, so machines and headless browsers without
+ * GPU acceleration get their 2D fallbacks instead of a renderer that throws
+ */
+export class WebGLSupport {
+  /**
+   * Whether a WebGL context can be created here. Probed once and cached; always false on the server
+   */
+  static isAvailable(): boolean {
+    if (typeof document === 'undefined') return false;
+    if (available !== null) return available;
+
+    try {
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+      available = context !== null;
+      // Release the probe context right away; browsers cap how many can be alive at once
+      context?.getExtension('WEBGL_lose_context')?.loseContext();
+    } catch {
+      available = false;
+    }
+    return available;
+  }
+
+  /**
+   * Create a renderer or context, returning null instead of throwing when WebGL is missing or fails
+   */
+  static tryCreate<T>(create: () => T): T | null {
+    if (!this.isAvailable()) return null;
+    try {
+      return create();
+    } catch (error) {
+      this.markUnavailable(error);
+      return null;
+    }
+  }
+
+  /**
+   * Record that creating a renderer failed even though the probe succeeded, e.g. after a context loss
+   */
+  static markUnavailable(error?: unknown): void {
+    available = false;
+    if (error) console.warn('WebGL unavailable, using the 2D fallback:', error);
+  }
+}
@@ -11,8 +11,104 @@ export interface AudioFile {
   name: string;
   size: number;
   lastModified: number;
+  metadata: AudioMetadata;
+  /** SHA-256 of the file bytes, set when the file went through the local library */
+  contentHash?: string;
 }
 
+/**
+ * A named point (or region, when it has a duration) in the file, in seconds
+ */
+export interface AudioMarker {
+  id: string;
+  name: string;
+  time: number;
+  duration?: number;
+}
+
+/**
+ * A span of the file, in seconds
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A named span the player can loop over
+ */
+export interface AudioRegion extends TimeRange {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+/**
+ * Visible window of a zoomable timeline, in seconds
+ */
+export interface TimeView {
+  start: number;
+  duration: number;
+}
+
+export interface CoverArt {
+  mimeType: string;
+  data: Uint8Array;
+  description?: string;
+}
+
+/**
+ * EBU Tech 3285 Broadcast Wave Format extension chunk
+ */
+export interface BroadcastExtension {
+  description: string;
+  originator: string;
+  originatorReference: string;
+  originationDate: string;
+  originationTime: string;
+  /** First sample's position since midnight, in samples */
+  timeReference: number;
+  /** Sample rate of the file, which the time reference counts in */
+  sampleRate: number;
+  version: number;
+  codingHistory: string;
+  loudness?: {
+    integrated: number;
+    loudnessRange: number;
+    maxTruePeak: number;
+    maxMomentary: number;
+    maxShortTerm: number;
+  };
+}
+
+export type MetadataSource = 'id3v1' | 'id3v2' | 'riff-info' | 'bext' | 'acid' | 'aiff' | 'vorbis' | 'mp4';
+
+/**
+ * Tags read from the container, independent of what the analysers detect
+ */
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  year?: string;
+  comment?: string;
+  bpm?: number;
+  key?: string;
+  isrc?: string;
+  coverArt?: CoverArt;
+  broadcast?: BroadcastExtension;
+  markers: AudioMarker[];
+  sources: MetadataSource[];
+}
+
+/**
+ * The parts of an AudioBuffer the analysers read, so raw PCM can be analysed off the main thread
+ */
+export type AudioBufferLike = Pick<AudioBuffer, 'numberOfChannels' | 'length' | 'sampleRate' | 'duration' | 'getChannelData'>;
+
+export type AnalysisProgressCallback = (progress: number, stage: string) => void;
+
 export interface WaveformData {
   peaks: Float32Array[];
   duration: number;
@@ -36,9 +132,119 @@ export interface AudioAnalysis {
   zeroCrossingRate: number;
   mfcc: number[];
   chroma: number[];
-  tempo: number;
-  key: string;
-  loudness: number;
+  tempo: TempoEstimate;
+  key: KeyEstimate;
+  loudness: LoudnessMeasurement;
+  tracks: FeatureTracks;
+  statistics: FeatureTrackSummary;
+  multichannel: MultichannelAnalysis;
+}
+
+export interface ChannelAnalysis {
+  rms: number;
+  peak: number;
+  zeroCrossingRate: number;
+  spectralCentroid: number;
+  spectralRolloff: number;
+}
+
+export interface StereoMetrics {
+  correlation: number;
+  width: number;
+  balance: number;
+  monoCompatibility: number;
+  midLevel: number;
+  sideLevel: number;
+}
+
+export interface MultichannelAnalysis {
+  channels: ChannelAnalysis[];
+  midSide: {
+    mid: ChannelAnalysis;
+    side: ChannelAnalysis;
+  } | null;
+  stereo: StereoMetrics | null;
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number;
+  beats: number[];
+}
+
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyCandidate {
+  tonic: string;
+  mode: KeyMode;
+  correlation: number;
+}
+
+/**
+ * How a detected value relates to the one in the file's tags.
+ * "related" means relative major/minor for keys and half/double time for tempo.
+ */
+export type TagComparison = 'match' | 'related' | 'mismatch' | 'unknown';
+
+export interface KeyEstimate extends KeyCandidate {
+  name: string;
+  confidence: number;
+  alternatives: KeyCandidate[];
+}
+
+export interface LoudnessMeasurement {
+  integrated: number;
+  momentaryMax: number;
+  shortTermMax: number;
+  loudnessRange: number;
+  truePeak: number;
+  momentary: Float32Array;
+  shortTerm: Float32Array;
+  blockStep: number;
+  channels: {
+    integrated: number;
+    truePeak: number;
+  }[];
+}
+
+export interface FeatureTracks {
+  sampleRate: number;
+  fftSize: number;
+  hopSize: number;
+  times: Float32Array;
+  centroid: Float32Array;
+  rolloff: Float32Array;
+  flux: Float32Array;
+  rms: Float32Array;
+  zcr: Float32Array;
+  mfcc: Float32Array[];
+  chroma: Float32Array[];
+}
+
+export type ScalarFeatureTrack = 'centroid' | 'rolloff' | 'flux' | 'rms' | 'zcr';
+
+export interface FeatureStatistics {
+  mean: number;
+  median: number;
+  variance: number;
+  min: number;
+  max: number;
+  percentiles: {
+    p10: number;
+    p25: number;
+    p75: number;
+    p90: number;
+  };
+}
+
+export interface FeatureTrackSummary {
+  centroid: FeatureStatistics;
+  rolloff: FeatureStatistics;
+  flux: FeatureStatistics;
+  rms: FeatureStatistics;
+  zcr: FeatureStatistics;
+  mfcc: number[];
+  chroma: number[];
 }
 
 export interface AudioEffect {
@@ -176,9 +382,19 @@ export interface MLAudioFeatures {
     inharmonicity: number;
     pitch: number;
   };
+  rhythmFeatures: {
+    tempo: number;
+    tempoConfidence: number;
+    beats: number[];
+  };
   mfcc: number[];
   chroma: number[];
+  /** Tonal centroid of the average chroma: [x, y] on the fifths, minor-thirds and major-thirds circles */
   tonnetz: number[];
+  key: KeyEstimate;
+  tracks: FeatureTracks;
+  statistics: FeatureTrackSummary;
+  multichannel: MultichannelAnalysis;
 }
 
 export interface PluginMatch {